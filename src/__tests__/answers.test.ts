@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TYPED_ANSWER_SETTINGS, TypedAnswerSettings } from "../types";
+import {
+	checkAnswer,
+	getAcceptedAnswers,
+	gradeForAnswer,
+	levenshtein,
+	normalizeTypedAnswerSettings,
+	splitMeanings
+} from "../utils/answers";
+import { makeEntry } from "./helpers";
+
+const settings: TypedAnswerSettings = { ...DEFAULT_TYPED_ANSWER_SETTINGS };
+
+function check(input: string, accepted: string[], overrides: Partial<TypedAnswerSettings> = {}) {
+	return checkAnswer(input, accepted, { ...settings, ...overrides }, "French", "fr-FR");
+}
+
+describe("splitMeanings and getAcceptedAnswers", () => {
+	it("splits a translation on commas, semicolons and slashes", () => {
+		expect(splitMeanings("comer, almorzar; tomar / probar")).toEqual(["comer", "almorzar", "tomar", "probar"]);
+		expect(splitMeanings("")).toEqual([]);
+	});
+
+	it("accepts the meanings of the word asked for, or the cloze answers", () => {
+		const entry = makeEntry({ targetWord: "manger", sourceWord: "comer, almorzar" });
+		expect(getAcceptedAnswers({ entry, isNew: false }, "target")).toEqual(["comer", "almorzar"]);
+		expect(getAcceptedAnswers({ entry, isNew: false }, "source")).toEqual(["manger"]);
+		const cloze = { key: "k", text: "Je *mange* une *pomme*", answers: ["mange", "pomme"] };
+		expect(getAcceptedAnswers({ entry, isNew: false, cloze }, "target")).toEqual(["mange pomme"]);
+	});
+});
+
+describe("checkAnswer", () => {
+	it("accepts any listed meaning, ignoring case and end punctuation", () => {
+		expect(check("Almorzar!", ["comer", "almorzar"])).toEqual({ verdict: "correct", expected: "almorzar", distance: 0 });
+	});
+
+	it("ignores a leading article, including elided ones", () => {
+		expect(check("la pomme", ["pomme"]).verdict).toBe("correct");
+		expect(check("l'arbre", ["arbre"]).verdict).toBe("correct");
+		expect(check("l’arbre", ["l'arbre"]).verdict).toBe("correct");
+		expect(check("de la farine", ["farine"]).verdict).toBe("correct");
+	});
+
+	it("does not strip an article that is the whole answer", () => {
+		expect(check("la", ["la"]).verdict).toBe("correct");
+	});
+
+	it("calls a missing or extra article almost right when articles count", () => {
+		expect(check("la pomme", ["pomme"], { ignoreArticles: false })).toMatchObject({ verdict: "almost", reason: "article" });
+	});
+
+	it("calls missing accents almost right unless they are ignored", () => {
+		expect(check("eleve", ["élève"])).toMatchObject({ verdict: "almost", reason: "accents" });
+		expect(check("eleve", ["élève"], { ignoreAccents: true }).verdict).toBe("correct");
+	});
+
+	it("calls a case difference almost right when case counts", () => {
+		expect(check("paris", ["Paris"], { ignoreCase: false })).toMatchObject({ verdict: "almost", reason: "case" });
+	});
+
+	it("allows one typo per four letters, up to maxTypos", () => {
+		expect(check("mangee", ["manger"])).toMatchObject({ verdict: "almost", reason: "typo", distance: 1 });
+		expect(check("mangre", ["manger"])).toMatchObject({ verdict: "wrong", distance: 2 });
+		expect(check("pome de tere", ["pomme de terre"])).toMatchObject({ verdict: "almost", distance: 2 });
+		expect(check("pome de tere", ["pomme de terre"], { maxTypos: 1 }).verdict).toBe("wrong");
+		// Too short to allow any typo
+		expect(check("vim", ["vin"]).verdict).toBe("wrong");
+	});
+
+	it("never accepts an empty answer", () => {
+		expect(check("  ", ["pomme"]).verdict).toBe("wrong");
+		expect(check("", []).verdict).toBe("wrong");
+	});
+});
+
+describe("gradeForAnswer", () => {
+	it("suggests good, hard or again", () => {
+		expect(gradeForAnswer({ verdict: "correct", expected: "", distance: 0 })).toBe("good");
+		expect(gradeForAnswer({ verdict: "almost", expected: "", distance: 1 })).toBe("hard");
+		expect(gradeForAnswer({ verdict: "wrong", expected: "", distance: 5 })).toBe("again");
+	});
+});
+
+describe("levenshtein", () => {
+	it("counts insertions, deletions and substitutions", () => {
+		expect(levenshtein("chat", "chat")).toBe(0);
+		expect(levenshtein("", "abc")).toBe(3);
+		expect(levenshtein("kitten", "sitting")).toBe(3);
+	});
+});
+
+describe("normalizeTypedAnswerSettings", () => {
+	it("falls back to the defaults for invalid values", () => {
+		expect(normalizeTypedAnswerSettings({ ignoreCase: "yes", maxTypos: -1 })).toEqual(DEFAULT_TYPED_ANSWER_SETTINGS);
+	});
+
+	it("keeps stored article lists, trimmed", () => {
+		const normalized = normalizeTypedAnswerSettings({ articles: { French: [" le ", "", 3] } });
+		expect(normalized.articles.French).toEqual(["le"]);
+		expect(normalized.articles.Spanish).toEqual(DEFAULT_TYPED_ANSWER_SETTINGS.articles.Spanish);
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildClozeQueue,
+	clozeHtml,
+	getClozeItems,
+	getReviewCardKey,
+	pruneClozeStates,
+	renameClozeKeys,
+	splitExampleLines
+} from "../utils/cloze";
+import { makeEntry } from "./helpers";
+
+const today = "2024-03-10";
+
+describe("splitExampleLines", () => {
+	it("splits on <br> and newlines, dropping empty lines", () => {
+		expect(splitExampleLines("Je *mange*.<br/>Tu manges.\n\n<BR>Il *mange* bien")).toEqual([
+			"Je *mange*.",
+			"Tu manges.",
+			"Il *mange* bien",
+		]);
+		expect(splitExampleLines(undefined)).toEqual([]);
+	});
+});
+
+describe("getClozeItems", () => {
+	it("makes one card per example with starred spans, once per distinct line", () => {
+		const entry = makeEntry({
+			targetWord: "pomme de terre",
+			examples: "Une *pomme* de *terre*.<br>Sans étoile.<br>Une *pomme* de *terre*.",
+		});
+		expect(getClozeItems(entry)).toEqual([
+			{
+				key: "Dictionary/pomme de terre.md#Une *pomme* de *terre*.",
+				text: "Une *pomme* de *terre*.",
+				answers: ["pomme", "terre"],
+			},
+		]);
+	});
+});
+
+describe("clozeHtml", () => {
+	it("blanks the starred spans until revealed and escapes the rest", () => {
+		expect(clozeHtml("<b> *mange*", false)).toBe("&lt;b&gt; <span class=\"ll-cloze-blank\">[…]</span>");
+		expect(clozeHtml("Je *mange*", true)).toBe("Je <em class=\"ll-cloze-answer\">mange</em>");
+	});
+});
+
+describe("buildClozeQueue", () => {
+	it("lists due examples first, most overdue first, then a limited number of new ones", () => {
+		const first = makeEntry({ targetWord: "manger", examples: "Je *mange*.<br>Nous *mangeons*." });
+		const second = makeEntry({ targetWord: "boire", examples: "Je *bois*.<br>Tu *bois*." });
+		const states = {
+			"Dictionary/manger.md#Je *mange*.": { interval: 3, due: "2024-03-09", lapses: 0 },
+			"Dictionary/boire.md#Je *bois*.": { interval: 3, due: "2024-03-01", lapses: 0 },
+			"Dictionary/manger.md#Nous *mangeons*.": { interval: 3, due: "2024-04-01", lapses: 0 },
+		};
+
+		const queue = buildClozeQueue([first, second], states, 5, today);
+		expect(queue.map(card => [card.cloze!.text, card.isNew])).toEqual([
+			["Je *bois*.", false],
+			["Je *mange*.", false],
+			["Tu *bois*.", true],
+		]);
+		expect(buildClozeQueue([first, second], {}, 1, today)).toHaveLength(1);
+	});
+});
+
+describe("renameClozeKeys", () => {
+	const state = { interval: 3, due: "2024-03-09", lapses: 0 };
+
+	it("moves the keys of a renamed note or folder", () => {
+		const states = {
+			"Dictionary/manger.md#Je *mange*.": state,
+			"Dictionary/mangerais.md#Je *mangerais*.": state,
+		};
+		expect(renameClozeKeys(states, "Dictionary/manger.md", "Verbes/manger.md")).toEqual({
+			"Verbes/manger.md#Je *mange*.": state,
+			"Dictionary/mangerais.md#Je *mangerais*.": state,
+		});
+		expect(Object.keys(renameClozeKeys(states, "Dictionary", "Mots")!)).toEqual([
+			"Mots/manger.md#Je *mange*.",
+			"Mots/mangerais.md#Je *mangerais*.",
+		]);
+	});
+
+	it("is null when no key was affected", () => {
+		expect(renameClozeKeys({ "Dictionary/manger.md#Je *mange*.": state }, "Dictionary/boire.md", "boire.md")).toBeNull();
+	});
+});
+
+describe("pruneClozeStates", () => {
+	it("keeps only the schedules of existing examples", () => {
+		const state = { interval: 3, due: "2024-03-09", lapses: 0 };
+		const entry = makeEntry({ examples: "Je *mange*.<br>Nous *mangeons*." });
+		expect(pruneClozeStates({
+			"Dictionary/manger.md#Je *mange*.": state,
+			"Dictionary/manger.md#Je *mangais*.": state,
+			"Dictionary/boire.md#Je *bois*.": state,
+		}, [entry])).toEqual({ "Dictionary/manger.md#Je *mange*.": state });
+	});
+});
+
+describe("getReviewCardKey", () => {
+	it("keys cloze cards by example and word cards by note", () => {
+		const entry = makeEntry();
+		const [cloze] = getClozeItems(makeEntry({ examples: "Je *mange*." }));
+		expect(getReviewCardKey({ entry, isNew: true })).toBe("Dictionary/manger.md");
+		expect(getReviewCardKey({ entry, isNew: true, cloze })).toBe("Dictionary/manger.md#Je *mange*.");
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { ConjugationResult, conjugateVerb, getConjugationRule } from "../utils/conjugation";
+
+function fields(result: ConjugationResult) {
+	if (!result.ok) throw new Error(result.reason);
+	return result.fields;
+}
+
+const lines = (value: string | undefined) => (value ?? "").split("<br>");
+
+describe("conjugateVerb: French first group", () => {
+	it("conjugates a regular -er verb in every tense", () => {
+		const parler = fields(conjugateVerb("French", "1", "Parler"));
+		expect(parler["infinitif"]).toBe("parler");
+		expect(parler["participe-passé"]).toBe("parlé");
+		expect(parler["participe-présent"]).toBe("parlant");
+		expect(lines(parler["présent"])).toEqual(["je parle", "tu parles", "il parle", "nous parlons", "vous parlez", "ils parlent"]);
+		expect(lines(parler["futur"])[0]).toBe("je parlerai");
+		expect(lines(parler["passé-composé"])[0]).toBe("j'ai parlé");
+		expect(lines(parler["présent-subjonctif"])).toEqual([
+			"que je parle", "que tu parles", "qu'il parle", "que nous parlions", "que vous parliez", "qu'ils parlent",
+		]);
+	});
+
+	it("keeps the soft c and g before a and o", () => {
+		const manger = fields(conjugateVerb("French", "1", "manger"));
+		expect(lines(manger["présent"])[3]).toBe("nous mangeons");
+		expect(lines(manger["imparfait"])).toEqual([
+			"je mangeais", "tu mangeais", "il mangeait", "nous mangions", "vous mangiez", "ils mangeaient",
+		]);
+		const commencer = fields(conjugateVerb("French", "1", "commencer"));
+		expect(lines(commencer["présent"])[3]).toBe("nous commençons");
+		expect(commencer["participe-présent"]).toBe("commençant");
+	});
+
+	it("elides je before a vowel or a mute h, but not an aspirated h", () => {
+		expect(lines(fields(conjugateVerb("French", "1", "aimer"))["présent"])[0]).toBe("j'aime");
+		expect(lines(fields(conjugateVerb("French", "1", "habiter"))["présent"])[0]).toBe("j'habite");
+		expect(lines(fields(conjugateVerb("French", "1", "hurler"))["présent"])[0]).toBe("je hurle");
+	});
+
+	it("uses être for the verbs that take it, or when the note says so", () => {
+		expect(lines(fields(conjugateVerb("French", "1", "arriver"))["passé-composé"])).toEqual([
+			"je suis arrivé(e)", "tu es arrivé(e)", "il est arrivé", "nous sommes arrivé(e)s", "vous êtes arrivé(e)(s)", "ils sont arrivés",
+		]);
+		expect(lines(fields(conjugateVerb("French", "1", "passer", "être"))["passé-composé"])[0]).toBe("je suis passé(e)");
+		expect(lines(fields(conjugateVerb("French", "1", "arriver", "avoir"))["passé-composé"])[0]).toBe("j'ai arrivé");
+	});
+
+	it.each([
+		["aller", "not a first-group infinitive"],
+		["finir", "not a first-group infinitive"],
+		["se laver", "pronominal verbs are not generated"],
+		["payer", "-yer verbs change y to i"],
+		["acheter", "stem-changing verb (e/é + consonant + er)"],
+		["préférer", "stem-changing verb (e/é + consonant + er)"],
+	])("refuses %s", (infinitive, reason) => {
+		expect(conjugateVerb("French", "1", infinitive)).toEqual({ ok: false, reason });
+	});
+});
+
+describe("conjugateVerb: French second group", () => {
+	it("adds the -iss- infix", () => {
+		const finir = fields(conjugateVerb("French", "2", "finir"));
+		expect(lines(finir["présent"])).toEqual(["je finis", "tu finis", "il finit", "nous finissons", "vous finissez", "ils finissent"]);
+		expect(lines(finir["imparfait"])[0]).toBe("je finissais");
+		expect(finir["participe-passé"]).toBe("fini");
+		expect(lines(finir["présent-subjonctif"])[0]).toBe("que je finisse");
+	});
+
+	it("refuses haïr and infinitives of other groups", () => {
+		expect(conjugateVerb("French", "2", "haïr").ok).toBe(false);
+		expect(conjugateVerb("French", "2", "parler").ok).toBe(false);
+	});
+});
+
+describe("conjugation rules", () => {
+	it("only exist for the groups and languages that have them", () => {
+		expect(getConjugationRule("French", "3")).toBeNull();
+		expect(getConjugationRule("Spanish", "1")).toBeNull();
+		expect(conjugateVerb("French", "3", "prendre")).toEqual({ ok: false, reason: "no conjugation rule for group \"3\"" });
+		expect(conjugateVerb("French", "", "parler")).toEqual({ ok: false, reason: "no verb group" });
+	});
+});
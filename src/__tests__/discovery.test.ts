@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DISCOVERY_RULES } from "../types";
+import { globToRegExp, isInFolder, matchesAnyGlob } from "../utils/paths";
+import { formatGlobList, isIgnoredByFrontmatter, normalizeDiscoveryRules, parseGlobList } from "../utils/discovery";
+
+describe("globToRegExp", () => {
+	const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+	it("keeps * and ? within a folder", () => {
+		expect(matches("Dictionary/*.md", "Dictionary/manger.md")).toBe(true);
+		expect(matches("Dictionary/*.md", "Dictionary/Verbs/manger.md")).toBe(false);
+		expect(matches("Notes/??.md", "Notes/ab.md")).toBe(true);
+		expect(matches("Notes/??.md", "Notes/abc.md")).toBe(false);
+	});
+
+	it("lets **/ match zero or more folders and a trailing ** anything below", () => {
+		expect(matches("**/Archive/*.md", "Archive/old.md")).toBe(true);
+		expect(matches("**/Archive/*.md", "A/B/Archive/old.md")).toBe(true);
+		expect(matches("Inbox/**", "Inbox/a/b/c.md")).toBe(true);
+		expect(matches("Inbox/**", "Inboxes/a.md")).toBe(false);
+	});
+
+	it("matches other characters literally and ignores a leading slash", () => {
+		expect(matches("10. Dictionary/(draft) *.md", "10. Dictionary/(draft) word.md")).toBe(true);
+		expect(matches("10. Dictionary/*.md", "10x Dictionary/word.md")).toBe(false);
+		expect(matches("/Notes/*.md", "Notes/a.md")).toBe(true);
+	});
+});
+
+describe("matchesAnyGlob and isInFolder", () => {
+	it("skips blank globs", () => {
+		expect(matchesAnyGlob("Notes/a.md", ["", "  "])).toBe(false);
+		expect(matchesAnyGlob("Notes/a.md", ["Other/*", "Notes/*.md"])).toBe(true);
+	});
+
+	it("matches paths below a folder only", () => {
+		expect(isInFolder("15. Verbs/manger.md", "15. Verbs/")).toBe(true);
+		expect(isInFolder("15. Verbs Old/manger.md", "15. Verbs")).toBe(false);
+		expect(isInFolder("manger.md", "")).toBe(false);
+	});
+});
+
+describe("glob lists", () => {
+	it("parses one glob per line, skipping blanks and comments", () => {
+		expect(parseGlobList("  **/Archive/**\n\n# drafts\nInbox/*.md\r\n")).toEqual(["**/Archive/**", "Inbox/*.md"]);
+		expect(parseGlobList(formatGlobList(["a/*", "b/**"]))).toEqual(["a/*", "b/**"]);
+	});
+});
+
+describe("normalizeDiscoveryRules", () => {
+	it("uses the defaults for a new vault", () => {
+		expect(normalizeDiscoveryRules(undefined)).toEqual(DEFAULT_DISCOVERY_RULES);
+	});
+
+	it("keeps the old database-note exclusion for upgraded vaults", () => {
+		expect(normalizeDiscoveryRules(undefined, true).dictionary.exclude).toEqual([
+			"**/French Dictionary DB*",
+			"**/French Dictionary DB*/**",
+		]);
+	});
+
+	it("drops invalid globs from stored rules", () => {
+		const rules = normalizeDiscoveryRules({ verbs: { include: [" Verbs/** ", 3, ""], exclude: "x" } }, true);
+		expect(rules.verbs).toEqual({ include: ["Verbs/**"], exclude: [] });
+		expect(rules.grammar).toEqual({ include: [], exclude: [] });
+	});
+});
+
+describe("isIgnoredByFrontmatter", () => {
+	it("accepts true and \"true\"", () => {
+		expect(isIgnoredByFrontmatter({ "ll-ignore": true })).toBe(true);
+		expect(isIgnoredByFrontmatter({ "ll-ignore": " TRUE " })).toBe(true);
+		expect(isIgnoredByFrontmatter({ "ll-ignore": false })).toBe(false);
+		expect(isIgnoredByFrontmatter(undefined)).toBe(false);
+	});
+});
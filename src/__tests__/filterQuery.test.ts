@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { QueryNode, matchesQuery, parseQuery } from "../services/filterQuery";
+import { makeEntry } from "./helpers";
+
+const locales = { target: "fr-FR", source: "es-ES" };
+
+function parse(text: string): QueryNode {
+	const { node, error } = parseQuery(text);
+	expect(error).toBeUndefined();
+	return node!;
+}
+
+describe("parseQuery", () => {
+	it("returns no node for an empty query", () => {
+		expect(parseQuery("   ")).toEqual({ node: null });
+	});
+
+	it("parses field terms with their operator", () => {
+		expect(parse("type:#verbe")).toEqual({ kind: "term", field: "type", operator: ":", value: "#verbe" });
+		expect(parse("source=comer")).toEqual({ kind: "term", field: "sourceWord", operator: "=", value: "comer" });
+		expect(parse("revision<3")).toEqual({ kind: "term", field: "revision", operator: "<", value: "3", number: 3 });
+		expect(parse("rating>=#⭐⭐")).toMatchObject({ field: "rating", operator: ">=", number: 2 });
+	});
+
+	it("reads quoted values with spaces", () => {
+		expect(parse("target:\"pomme de terre\"")).toMatchObject({ field: "targetWord", value: "pomme de terre" });
+	});
+
+	it("binds AND tighter than OR", () => {
+		expect(parse("a OR b c")).toEqual({
+			kind: "or",
+			children: [
+				{ kind: "term", field: null, operator: ":", value: "a" },
+				{
+					kind: "and",
+					children: [
+						{ kind: "term", field: null, operator: ":", value: "b" },
+						{ kind: "term", field: null, operator: ":", value: "c" },
+					],
+				},
+			],
+		});
+	});
+
+	it("groups with parentheses", () => {
+		const node = parse("(a OR b) AND c");
+		expect(node.kind).toBe("and");
+		expect((node as Extract<QueryNode, { kind: "and" }>).children[0].kind).toBe("or");
+	});
+
+	it("treats NOT and a leading - alike", () => {
+		expect(parse("NOT context:#A1")).toEqual(parse("-context:#A1"));
+		expect(parse("-context:#A1")).toEqual({
+			kind: "not",
+			child: { kind: "term", field: "context", operator: ":", value: "#A1" },
+		});
+	});
+
+	it("keeps a - inside a word", () => {
+		expect(parse("arc-en-ciel")).toMatchObject({ kind: "term", value: "arc-en-ciel" });
+	});
+
+	it.each([
+		["(a OR b", "Missing closing parenthesis", 0],
+		["a)", "Unexpected \")\"", 1],
+		["a OR", "Unexpected end of query", 4],
+		["target:\"open", "Missing closing quote", 7],
+		["foo:bar", "Unknown field \"foo\"", 0],
+		["type<3", "\"<\" only applies to revision and rating", 4],
+		["revision>soon", "Expected a number or \"new\" for revision", 9],
+		["type:", "Expected a value after \"type:\"", 0],
+	])("reports %s", (text, message, position) => {
+		expect(parseQuery(text)).toEqual({ node: null, error: { message, position } });
+	});
+});
+
+describe("matchesQuery", () => {
+	const verb = makeEntry({ targetWord: "Manger", sourceWord: "comer", type: "#verbe/1er", context: "#A1", revision: "2", rating: "#⭐⭐" });
+	const noun = makeEntry({ targetWord: "élève", sourceWord: "alumno", type: "#nom", context: "#A2", revision: "new" });
+
+	const matching = (text: string) => [verb, noun]
+		.filter(entry => matchesQuery(parse(text), entry, locales))
+		.map(entry => entry.targetWord);
+
+	it("matches bare words against both words, ignoring case and accents", () => {
+		expect(matching("eleve")).toEqual(["élève"]);
+		expect(matching("COMER")).toEqual(["Manger"]);
+	});
+
+	it("matches a tag with its descendants", () => {
+		expect(matching("type:#verbe")).toEqual(["Manger"]);
+		expect(matching("type=#verbe")).toEqual([]);
+		expect(matching("type=#verbe/1er")).toEqual(["Manger"]);
+	});
+
+	it("compares revisions and ratings as numbers", () => {
+		expect(matching("revision<1")).toEqual(["élève"]);
+		expect(matching("revision>=2")).toEqual(["Manger"]);
+		expect(matching("rating>1")).toEqual(["Manger"]);
+	});
+
+	it("combines terms with NOT, OR and parentheses", () => {
+		expect(matching("-type:#verbe")).toEqual(["élève"]);
+		expect(matching("(type:#nom OR context:#A1) NOT revision>0")).toEqual(["élève"]);
+		expect(matching("type:#nom OR context:#A1")).toEqual(["Manger", "élève"]);
+	});
+});
@@ -0,0 +1,22 @@
+import { DictionaryEntry } from "../types";
+
+/**
+ * Dictionary entry for tests; only the fields a test cares about need to be given
+ */
+export function makeEntry(overrides: Partial<DictionaryEntry> = {}): DictionaryEntry {
+	const targetWord = overrides.targetWord ?? "manger";
+	return {
+		file: { path: `Dictionary/${targetWord}.md`, name: `${targetWord}.md`, basename: targetWord },
+		targetWord,
+		sourceWord: "comer",
+		targetKey: targetWord.toLowerCase(),
+		sourceKey: (overrides.sourceWord ?? "comer").toLowerCase(),
+		type: "",
+		context: "",
+		revision: "",
+		created: new Date(2024, 0, 1).getTime(),
+		modified: new Date(2024, 0, 1).getTime(),
+		isDue: false,
+		...overrides,
+	};
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCHEDULER_SETTINGS, SchedulerSettings, SchedulingState } from "../types";
+import {
+	addDays,
+	buildReviewQueue,
+	daysBetween,
+	formatInterval,
+	getSchedulingState,
+	intervalToRevision,
+	normalizeSchedulerSettings,
+	parseDateKey,
+	revisionToInterval,
+	scheduleReview
+} from "../utils/scheduler";
+import { makeEntry } from "./helpers";
+
+const sm2: SchedulerSettings = { ...DEFAULT_SCHEDULER_SETTINGS, algorithm: "sm2" };
+const fsrs: SchedulerSettings = { ...DEFAULT_SCHEDULER_SETTINGS, algorithm: "fsrs", desiredRetention: 0.9 };
+const today = "2024-03-10";
+
+describe("dates", () => {
+	it("parses valid days only", () => {
+		expect(parseDateKey("2024-02-29")).toBe("2024-02-29");
+		expect(parseDateKey("2024-03-10T08:00")).toBe("2024-03-10");
+		expect(parseDateKey("2023-02-29")).toBeNull();
+		expect(parseDateKey("soon")).toBeNull();
+	});
+
+	it("adds and counts days across months", () => {
+		expect(addDays("2024-02-28", 2)).toBe("2024-03-01");
+		expect(daysBetween("2024-02-28", "2024-03-01")).toBe(2);
+		expect(daysBetween("2024-03-01", "2024-02-28")).toBe(-2);
+	});
+});
+
+describe("Revision levels", () => {
+	it("maps levels to starting intervals and back", () => {
+		expect(revisionToInterval("new")).toBeNull();
+		expect(revisionToInterval("1")).toBe(1);
+		expect(revisionToInterval("3")).toBe(7);
+		expect(revisionToInterval("9")).toBe(30);
+		expect(intervalToRevision(1)).toBe("1");
+		expect(intervalToRevision(10)).toBe("3");
+		expect(intervalToRevision(400)).toBe("5");
+	});
+});
+
+describe("getSchedulingState", () => {
+	it("uses the stored schedule", () => {
+		const entry = makeEntry({ revision: "2", ease: 2.3, difficulty: 6, interval: 12, due: "2024-03-20", lapses: 1 });
+		expect(getSchedulingState(entry)).toEqual({ ease: 2.3, difficulty: 6, interval: 12, due: "2024-03-20", lapses: 1 });
+	});
+
+	it("derives the schedule of a Revision level from the note's creation, not its last edit", () => {
+		const entry = makeEntry({ revision: "2", created: new Date(2024, 2, 1).getTime(), modified: new Date(2024, 5, 1).getTime() });
+		expect(getSchedulingState(entry)).toEqual({ interval: 3, due: "2024-03-04", lapses: 0 });
+	});
+
+	it("is null for entries never studied", () => {
+		expect(getSchedulingState(makeEntry({ revision: "new" }))).toBeNull();
+	});
+});
+
+describe("SM-2", () => {
+	const review = (state: SchedulingState | null, grade: "again" | "hard" | "good" | "easy") =>
+		scheduleReview(state, grade, sm2, today);
+
+	it("steps a new card through 1 and 6 days, then multiplies by the ease", () => {
+		const first = review(null, "good");
+		expect(first).toMatchObject({ ease: 2.5, interval: 1, due: "2024-03-11", lapses: 0 });
+		const second = review(first, "good");
+		expect(second.interval).toBe(6);
+		expect(review(second, "good").interval).toBe(15);
+	});
+
+	it("resets a forgotten card and lowers its ease", () => {
+		const state: SchedulingState = { ease: 2.5, interval: 20, due: today, lapses: 0 };
+		expect(review(state, "again")).toEqual({ ease: 2.3, interval: 1, due: "2024-03-11", lapses: 1 });
+	});
+
+	it("grows hard answers slowly and easy answers faster", () => {
+		const state: SchedulingState = { ease: 2.5, interval: 10, due: today, lapses: 0 };
+		expect(review(state, "hard")).toMatchObject({ ease: 2.35, interval: 12 });
+		expect(review(state, "easy")).toMatchObject({ ease: 2.65, interval: 33 });
+	});
+
+	it("never lets the ease drop below 1.3", () => {
+		const state: SchedulingState = { ease: 1.3, interval: 5, due: today, lapses: 3 };
+		expect(review(state, "again").ease).toBe(1.3);
+	});
+
+	it("caps the interval at the maximum", () => {
+		const state: SchedulingState = { ease: 2.5, interval: 300, due: today, lapses: 0 };
+		expect(scheduleReview(state, "easy", { ...sm2, maximumInterval: 365 }, today).interval).toBe(365);
+	});
+});
+
+describe("FSRS", () => {
+	it("starts new cards from the default stabilities", () => {
+		expect(scheduleReview(null, "again", fsrs, today)).toMatchObject({ interval: 1, difficulty: 7.62 });
+		expect(scheduleReview(null, "good", fsrs, today)).toMatchObject({ interval: 4, difficulty: 5.16 });
+		expect(scheduleReview(null, "easy", fsrs, today)).toMatchObject({ interval: 14, difficulty: 3.93 });
+	});
+
+	it("grows the interval of a recalled card and shrinks a forgotten one", () => {
+		const state: SchedulingState = { difficulty: 5, interval: 10, due: today, lapses: 0 };
+		const good = scheduleReview(state, "good", fsrs, today);
+		const again = scheduleReview(state, "again", fsrs, today);
+		expect(good.interval).toBeGreaterThan(10);
+		expect(again.interval).toBeLessThan(10);
+		expect(again.lapses).toBe(1);
+		expect(again.difficulty!).toBeGreaterThan(5);
+	});
+
+	it("gives longer intervals at a lower desired retention", () => {
+		const state: SchedulingState = { difficulty: 5, interval: 10, due: today, lapses: 0 };
+		const strict = scheduleReview(state, "good", { ...fsrs, desiredRetention: 0.95 }, today);
+		const relaxed = scheduleReview(state, "good", { ...fsrs, desiredRetention: 0.8 }, today);
+		expect(relaxed.interval).toBeGreaterThan(strict.interval);
+	});
+});
+
+describe("switching algorithms", () => {
+	it("keeps the SM-2 ease and the FSRS difficulty apart", () => {
+		const smState = scheduleReview({ ease: 2.2, interval: 6, due: today, lapses: 0 }, "good", sm2, today);
+		const fsrsState = scheduleReview(smState, "good", fsrs, smState.due);
+		expect(fsrsState.ease).toBe(2.2);
+		expect(fsrsState.difficulty).toBeGreaterThanOrEqual(1);
+
+		const back = scheduleReview(fsrsState, "good", sm2, fsrsState.due);
+		expect(back.ease).toBe(2.2);
+		expect(back.difficulty).toBe(fsrsState.difficulty);
+		expect(back.interval).toBe(Math.round(fsrsState.interval * 2.2));
+	});
+});
+
+describe("buildReviewQueue", () => {
+	it("puts due entries first, most overdue first, then a limited number of new ones", () => {
+		const late = makeEntry({ targetWord: "late", revision: "2", interval: 3, due: "2024-03-01" });
+		const dueToday = makeEntry({ targetWord: "today", revision: "2", interval: 3, due: today });
+		const later = makeEntry({ targetWord: "later", revision: "2", interval: 3, due: "2024-04-01" });
+		const fresh = ["a", "b", "c"].map(word => makeEntry({ targetWord: word, revision: "new" }));
+
+		const queue = buildReviewQueue([dueToday, later, late, ...fresh], 2, today);
+		expect(queue.map(card => [card.entry.targetWord, card.isNew])).toEqual([
+			["late", false],
+			["today", false],
+			["a", true],
+			["b", true],
+		]);
+	});
+});
+
+describe("formatInterval and settings", () => {
+	it("formats intervals in days, weeks, months and years", () => {
+		expect(formatInterval(3)).toBe("3d");
+		expect(formatInterval(21)).toBe("3w");
+		expect(formatInterval(120)).toBe("4mo");
+		expect(formatInterval(548)).toBe("1.5y");
+	});
+
+	it("falls back to the defaults for invalid settings", () => {
+		expect(normalizeSchedulerSettings({ algorithm: "leitner", desiredRetention: 2, maximumInterval: 0 }))
+			.toEqual(DEFAULT_SCHEDULER_SETTINGS);
+		expect(normalizeSchedulerSettings({ algorithm: "fsrs", desiredRetention: 0.85 }))
+			.toMatchObject({ algorithm: "fsrs", desiredRetention: 0.85 });
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { isContinuationLine, normalizeVerbKey, parseVerbInlineFields, readVerbFields, toVerbField } from "../utils/verbFields";
+
+describe("toVerbField", () => {
+	it("matches keys regardless of case, spaces and underscores", () => {
+		expect(normalizeVerbKey(" Passé composé ")).toBe("passé-composé");
+		expect(toVerbField("Passé_Composé")).toBe("passé-composé");
+		expect(toVerbField("Gérondif")).toBeNull();
+		expect(toVerbField("Gérondif", ["gérondif"])).toBe("gérondif");
+	});
+});
+
+describe("isContinuationLine", () => {
+	it("continues a value on indented lines and lines starting with HTML", () => {
+		expect(isContinuationLine("  tu manges")).toBe(true);
+		expect(isContinuationLine("\til mange")).toBe(true);
+		expect(isContinuationLine("<br>tu manges")).toBe(true);
+		expect(isContinuationLine("<div class=\"conj\">")).toBe(true);
+		expect(isContinuationLine("</div>")).toBe(true);
+	});
+
+	it("leaves plain paragraphs, headings, rules, tags and fields alone", () => {
+		expect(isContinuationLine("Note: irregular in the future.")).toBe(false);
+		expect(isContinuationLine("## Examples")).toBe(false);
+		expect(isContinuationLine("---")).toBe(false);
+		expect(isContinuationLine("#⭐⭐")).toBe(false);
+		expect(isContinuationLine("Imparfait:: je mangeais")).toBe(false);
+		expect(isContinuationLine("   ")).toBe(false);
+		expect(isContinuationLine("a < b")).toBe(false);
+	});
+});
+
+describe("parseVerbInlineFields", () => {
+	it("joins indented continuation lines with <br>", () => {
+		const content = [
+			"Présent:: je mange",
+			"  tu manges",
+			"  il mange",
+			"Futur:: je mangerai<br>tu mangeras",
+		].join("\n");
+		expect(parseVerbInlineFields(content)).toEqual({
+			"présent": "je mange<br>tu manges<br>il mange",
+			"futur": "je mangerai<br>tu mangeras",
+		});
+	});
+
+	it("does not read a following paragraph into the value", () => {
+		const content = "Présent:: je mange\nRemember the soft g in nous mangeons.";
+		expect(parseVerbInlineFields(content)).toEqual({ "présent": "je mange" });
+	});
+
+	it("adds no <br> around HTML block markup", () => {
+		const content = "Présent::\n<ul>\n<li>je mange</li>\n</ul>";
+		expect(parseVerbInlineFields(content)).toEqual({ "présent": "<ul><li>je mange</li></ul>" });
+	});
+
+	it("ignores unknown fields", () => {
+		expect(parseVerbInlineFields("Type:: #verbe\nRadical:: mang")).toEqual({ "radical": "mang" });
+	});
+});
+
+describe("readVerbFields", () => {
+	it("reads frontmatter lists and lets inline fields win", () => {
+		const fields = readVerbFields(
+			{ "présent": ["je mange", "tu manges"], "futur": "je mangerai", "Type": "#verbe" },
+			"Futur:: je mangerai<br>tu mangeras"
+		);
+		expect(fields).toEqual({
+			"présent": "je mange<br>tu manges",
+			"futur": "je mangerai<br>tu mangeras",
+		});
+	});
+});
@@ -1,10 +1,16 @@
 import React, { useEffect, useCallback, useMemo } from "react";
-import { DictionaryEntry, FilterState } from "../../types";
+import { DictionaryEntry, FilterPreset, FilterState, TableLayout, TableViewState, getLocaleCode } from "../../types";
 import { useLearnLanguage } from "../../context";
-import { useFilters, usePagination, useFilteredEntries } from "../../hooks";
-import { TypeAheadFilter, DropdownFilter, StudyToggle } from "../filters";
-import { DictionaryTable, Pagination } from "../table";
+import { useFilters, usePagination, useFilteredEntries, useTableLayout } from "../../hooks";
+import { TypeAheadFilter, DropdownFilter, StudyToggle, QueryFilter, PresetFilter } from "../filters";
+import { DictionaryTable, Pagination, ColumnChooser } from "../table";
 import { ExportCsvModal } from "../../modals/ExportCsvModal";
+import { parseTagFilter } from "../../utils/tagFilter";
+import { fromFacetList, toFacetList } from "../../utils/facets";
+import { getAvailableColumns } from "../../utils/columns";
+import { getPresetFilterState } from "../../utils/presets";
+
+type DictionaryFacet = "type" | "context" | "revision" | "rating";
 
 export interface DictionaryComponentProps {
 	/** Initial entries to display */
@@ -17,16 +23,34 @@ export interface DictionaryComponentProps {
 	showStudyMode?: boolean;
 	/** Show pagination controls */
 	showPagination?: boolean;
+	/** Show the advanced query box */
+	showQuery?: boolean;
+	/** Show the filter preset picker */
+	showPresets?: boolean;
 	/** Initial page size */
 	pageSize?: number;
+	/** Index of the first entry of the initial page */
+	initialPageStart?: number;
 	/** Initial filters to apply */
 	initialFilters?: Partial<FilterState>;
+	/** Preset the initial filters come from */
+	initialPreset?: string;
+	/** Initial columns and sort of the table */
+	tableLayout?: TableLayout;
 	/** Callback when refresh is requested */
 	onRefresh?: () => Promise<void>;
 	/** Callback when filters change */
 	onFiltersChange?: (filters: Partial<FilterState>) => void;
+	/** Callback when a preset is picked (undefined: none) */
+	onPresetChange?: (name: string | undefined) => void;
+	/** Callback when columns are shown, hidden, moved or resized, or the sort changes */
+	onTableLayoutChange?: (layout: TableLayout) => void;
+	/** Callback when filters, page, page size, sort or preset change (e.g. pane state) */
+	onViewStateChange?: (state: TableViewState) => void;
 	/** Callback to open Ask AI for Term modal */
 	onAskAIForTerm?: () => void;
+	/** Callback to start a review session with the current filters */
+	onStartReview?: (filters: Partial<FilterState>, preset?: string) => void;
 }
 
 /**
@@ -38,19 +62,34 @@ export function DictionaryComponent({
 	showRefresh = true,
 	showStudyMode = true,
 	showPagination = true,
+	showQuery = false,
+	showPresets = true,
 	pageSize = 100,
+	initialPageStart = 0,
 	initialFilters = {},
+	initialPreset,
+	tableLayout,
 	onRefresh,
 	onFiltersChange,
-	onAskAIForTerm
+	onPresetChange,
+	onTableLayoutChange,
+	onViewStateChange,
+	onAskAIForTerm,
+	onStartReview
 }: DictionaryComponentProps) {
 	const { app, settings, filterService, dictionaryService } = useLearnLanguage();
 	const targetLang = settings.targetLanguage;
 	const sourceLang = settings.sourceLanguage;
+	const locale = getLocaleCode(targetLang);
 	const isFirstFiltersEmit = React.useRef(true);
+	const isFirstViewStateEmit = React.useRef(true);
+	const isFirstPageReset = React.useRef(true);
 
 	// State management with hooks
-	const { filters, updateFilter } = useFilters(initialFilters);
+	const { filters, setFilters, updateFilter, setExactAccents } = useFilters(initialFilters);
+	const [activePreset, setActivePreset] = React.useState(initialPreset);
+	// Study rows ask for a typed answer instead of revealing it
+	const [typeAnswers, setTypeAnswers] = React.useState(false);
 	const {
 		pagination,
 		setOutputCount,
@@ -62,28 +101,44 @@ export function DictionaryComponent({
 		totalPages,
 		hasNext,
 		hasPrev
-	} = usePagination(pageSize);
+	} = usePagination(pageSize, initialPageStart);
+	const {
+		layout,
+		setSort,
+		toggleSort,
+		toggleColumn,
+		moveColumn,
+		setColumnWidths,
+		resetLayout
+	} = useTableLayout(tableLayout, onTableLayoutChange);
 
-	// Filter and paginate entries
+	// Filter, sort and paginate entries
 	const { filteredEntries, paginatedEntries } = useFilteredEntries(
 		entries,
 		filters,
 		filterService,
 		pagination,
-		showPagination
+		showPagination,
+		layout.sort
 	);
 
+	const availableColumns = useMemo(() => getAvailableColumns(entries), [entries]);
+
   console.log('JAA DictionaryComponent render:', { entries, filters, filteredEntries, paginatedEntries });
 
 	// Update output count when filtered entries change
 	useEffect(() => {
 		setOutputCount(filteredEntries.length);
-	}, [filteredEntries.length]); // eslint-disable-line react-hooks/exhaustive-deps
+	}, [filteredEntries.length, setOutputCount]);
 
-	// Reset page when filters change
+	// Reset page when filters change; the initial (possibly restored) page is kept
 	useEffect(() => {
+		if (isFirstPageReset.current) {
+			isFirstPageReset.current = false;
+			return;
+		}
 		resetPage();
-	}, [filters.targetWord, filters.sourceWord, filters.type, filters.context, filters.revision, filters.rating, filters.study]); // eslint-disable-line react-hooks/exhaustive-deps
+	}, [filters.targetWord, filters.sourceWord, filters.type, filters.context, filters.revision, filters.rating, filters.study, filters.exactAccents, filters.query, layout.sort, resetPage]);
 
 	// Notify external listeners (e.g. code block processor persistence)
 	useEffect(() => {
@@ -94,60 +149,58 @@ export function DictionaryComponent({
 		onFiltersChange?.(filters);
 	}, [filters, onFiltersChange]);
 
+	// Keep the ref updated with the latest onViewStateChange
+	const onViewStateChangeRef = React.useRef(onViewStateChange);
+	useEffect(() => {
+		onViewStateChangeRef.current = onViewStateChange;
+	});
+
+	useEffect(() => {
+		if (isFirstViewStateEmit.current) {
+			isFirstViewStateEmit.current = false;
+			return;
+		}
+		onViewStateChangeRef.current?.({
+			filters,
+			pageStart: pagination.pageStart,
+			pageSize: pagination.pageSize,
+			sort: layout.sort ?? null,
+			preset: activePreset
+		});
+	}, [filters, pagination.pageStart, pagination.pageSize, layout.sort, activePreset]);
+
 	// Faceted dropdown options:
 	// - Based on the current filtered dataset (by other filters)
 	// - Excluding the dropdown's own filter
 	// - INCLUDING the type-ahead filters (targetWord/sourceWord)
-	const typeOptions = useMemo(() => {
-		const facetEntries = filterService.applyFilters(entries, {
-			...filters,
-			type: "all"
-		});
-		const opts = filterService.getUniqueValues(facetEntries, "type");
-		const selected = filters.type;
-		if (selected && selected !== "all" && !opts.includes(selected)) {
-			return ["all", selected, ...opts.filter(o => o !== "all")];
-		}
-		return opts;
-	}, [entries, filterService, filters]);
-
-	const contextOptions = useMemo(() => {
-		const facetEntries = filterService.applyFilters(entries, {
-			...filters,
-			context: "all"
-		});
-		const opts = filterService.getUniqueValues(facetEntries, "context");
-		const selected = filters.context;
-		if (selected && selected !== "all" && !opts.includes(selected)) {
-			return ["all", selected, ...opts.filter(o => o !== "all")];
-		}
-		return opts;
-	}, [entries, filterService, filters]);
+	// - With the number of entries each option would return
+	const facets = useMemo(() => {
+		const computeFacet = (facet: DictionaryFacet) => {
+			const facetEntries = filterService.applyFilters(entries, {
+				...filters,
+				[facet]: "all"
+			});
+			const opts = facet === "revision"
+				? filterService.getRevisionOptions(facetEntries)
+				: filterService.getUniqueValues(facetEntries, facet);
+			// Keep selections listed even when no entry carries them (tag selections may be "=#tag" / "-#tag")
+			const missing = toFacetList(filters[facet])
+				.map(value => parseTagFilter(value)?.tag ?? value)
+				.filter((value, index, list) => !opts.includes(value) && list.indexOf(value) === index);
+			return {
+				options: missing.length > 0 ? ["all", ...missing, ...opts.filter(o => o !== "all")] : opts,
+				counts: facet === "revision"
+					? filterService.getRevisionCounts(facetEntries)
+					: filterService.getFacetCounts(facetEntries, facet)
+			};
+		};
 
-	const revisionOptions = useMemo(() => {
-		const facetEntries = filterService.applyFilters(entries, {
-			...filters,
-			revision: "all"
-		});
-		const opts = filterService.getUniqueValues(facetEntries, "revision");
-		const selected = filters.revision;
-		if (selected && selected !== "all" && !opts.includes(selected)) {
-			return ["all", selected, ...opts.filter(o => o !== "all")];
-		}
-		return opts;
-	}, [entries, filterService, filters]);
-
-	const ratingOptions = useMemo(() => {
-		const facetEntries = filterService.applyFilters(entries, {
-			...filters,
-			rating: "all"
-		});
-		const opts = filterService.getUniqueValues(facetEntries, "rating");
-		const selected = filters.rating;
-		if (selected && selected !== "all" && !opts.includes(selected)) {
-			return ["all", selected, ...opts.filter(o => o !== "all")];
-		}
-		return opts;
+		return {
+			type: computeFacet("type"),
+			context: computeFacet("context"),
+			revision: computeFacet("revision"),
+			rating: computeFacet("rating")
+		};
 	}, [entries, filterService, filters]);
 
 	// Handlers
@@ -161,6 +214,15 @@ export function DictionaryComponent({
 		updateFilter("study", value);
 	}, [updateFilter]);
 
+	// Picking a preset replaces the filters; study mode is kept
+	const handlePresetChange = useCallback((preset: FilterPreset | null) => {
+		setActivePreset(preset?.name);
+		if (preset) {
+			setFilters(prev => ({ ...prev, ...getPresetFilterState(preset) }));
+		}
+		onPresetChange?.(preset?.name);
+	}, [onPresetChange, setFilters]);
+
 	const handlePageSizeChange = useCallback((size: number) => {
 		setPageSize(size);
 	}, [setPageSize]);
@@ -173,48 +235,83 @@ export function DictionaryComponent({
 			{/* Filters */}
 			<div className="ll-filters">
 				<div className="ll-filter-row">
+					{showPresets && (
+						<PresetFilter
+							filters={filters}
+							value={activePreset}
+							onChange={handlePresetChange}
+						/>
+					)}
 					<TypeAheadFilter
 						label={targetLang}
 						value={filters.targetWord || "all"}
 						onChange={(value) => updateFilter("targetWord", value)}
+						exact={filters.exactAccents?.includes("targetWord")}
+						onExactChange={(exact) => setExactAccents("targetWord", exact)}
 					/>
 					<TypeAheadFilter
 						label={sourceLang}
 						value={filters.sourceWord || "all"}
 						onChange={(value) => updateFilter("sourceWord", value)}
+						exact={filters.exactAccents?.includes("sourceWord")}
+						onExactChange={(exact) => setExactAccents("sourceWord", exact)}
 					/>
 					<DropdownFilter
 						label="Type"
-						value={filters.type || "all"}
-						options={typeOptions}
-						onChange={(value) => updateFilter("type", value)}
+						multiple={true}
+						value={toFacetList(filters.type)}
+						options={facets.type.options}
+						counts={facets.type.counts}
+						onChange={(values) => updateFilter("type", fromFacetList(values))}
+						tree={true}
+						locale={locale}
+						exact={filters.exactAccents?.includes("type")}
+						onExactChange={(exact) => setExactAccents("type", exact)}
 					/>
 					<DropdownFilter
 						label="Context"
-						value={filters.context || "all"}
-						options={contextOptions}
-						onChange={(value) => updateFilter("context", value)}
+						multiple={true}
+						value={toFacetList(filters.context)}
+						options={facets.context.options}
+						counts={facets.context.counts}
+						onChange={(values) => updateFilter("context", fromFacetList(values))}
+						tree={true}
+						locale={locale}
+						exact={filters.exactAccents?.includes("context")}
+						onExactChange={(exact) => setExactAccents("context", exact)}
 					/>
 					<DropdownFilter
 						label="Revision"
-						value={filters.revision || "all"}
-						options={revisionOptions}
-						onChange={(value) => updateFilter("revision", value)}
+						multiple={true}
+						value={toFacetList(filters.revision)}
+						options={facets.revision.options}
+						counts={facets.revision.counts}
+						onChange={(values) => updateFilter("revision", fromFacetList(values))}
 					/>
 					<DropdownFilter
 						label="Rating"
-						value={filters.rating || "all"}
-						options={ratingOptions}
-						onChange={(value) => updateFilter("rating", value)}
+						multiple={true}
+						value={toFacetList(filters.rating)}
+						options={facets.rating.options}
+						counts={facets.rating.counts}
+						onChange={(values) => updateFilter("rating", fromFacetList(values))}
 					/>
 					{showStudyMode && (
 						<StudyToggle
 							value={(filters.study as "yes" | "no" | "source") || "no"}
 							targetLanguage={targetLang}
 							sourceLanguage={sourceLang}
+							typeAnswers={typeAnswers}
+							onTypeAnswersChange={setTypeAnswers}
 							onChange={handleStudyChange}
 						/>
 					)}
+					<ColumnChooser
+						columns={layout.columns}
+						availableColumns={availableColumns}
+						onToggleColumn={toggleColumn}
+						onReset={resetLayout}
+					/>
 					{showRefresh && onRefresh && (
 						<button
 							className="mod-cta"
@@ -224,6 +321,15 @@ export function DictionaryComponent({
 							🔄 Refresh
 						</button>
 					)}
+					{onStartReview && (
+						<button
+							className="mod-cta"
+							onClick={() => onStartReview(filters, activePreset)}
+							aria-label="Review"
+						>
+							▶ Review
+						</button>
+					)}
 					{allowExport && (
 						<button
 							className="mod-cta"
@@ -250,6 +356,12 @@ export function DictionaryComponent({
 						</button>
 					)}
 				</div>
+				{showQuery && (
+					<QueryFilter
+						value={filters.query || "all"}
+						onChange={(value) => updateFilter("query", value)}
+					/>
+				)}
 			</div>
 
 			{/* Pagination */}
@@ -273,6 +385,14 @@ export function DictionaryComponent({
 					entries={paginatedEntries}
 					isStudying={isStudying}
 					showSourceFirst={showSourceFirst}
+					typeAnswers={typeAnswers}
+					filters={filters}
+					layout={layout}
+					onToggleSort={toggleSort}
+					onSortChange={setSort}
+					onMoveColumn={moveColumn}
+					onHideColumn={toggleColumn}
+					onResizeColumns={setColumnWidths}
 				/>
 			</div>
 
@@ -0,0 +1,29 @@
+import React from "react";
+
+interface AccentToggleProps {
+	label: string;
+	exact: boolean;
+	onChange: (exact: boolean) => void;
+}
+
+/**
+ * Switches a text filter between accent-insensitive and exact-accent matching
+ */
+export function AccentToggle({ label, exact, onChange }: AccentToggleProps) {
+	const title = exact
+		? `${label}: accents must match (click to ignore accents)`
+		: `${label}: accents ignored (click to match exactly)`;
+
+	return (
+		<button
+			type="button"
+			className={`ll-accent-toggle ${exact ? "ll-accent-toggle-exact" : ""}`}
+			onClick={() => onChange(!exact)}
+			aria-pressed={exact}
+			aria-label={`Match ${label} accents exactly`}
+			title={title}
+		>
+			é
+		</button>
+	);
+}
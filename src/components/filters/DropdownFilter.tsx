@@ -1,22 +1,55 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useRef, useEffect } from "react";
+import { matchesSearch } from "../../utils/searchKeys";
+import { TagMatchMode, formatTagFilter, getTagDepth, getTagLeaf, parseTagFilter } from "../../utils/tagFilter";
+import { toFacetList } from "../../utils/facets";
+import { HighlightedText } from "../table/HighlightedText";
+import { AccentToggle } from "./AccentToggle";
 
-interface DropdownFilterProps {
+interface DropdownFilterBaseProps {
 	label: string;
-	value: string;
 	options: string[];
+	/** Locale used to fold the option search */
+	locale?: string;
+	/** Match accents exactly instead of ignoring them */
+	exact?: boolean;
+	/** Shows the accent toggle when set */
+	onExactChange?: (exact: boolean) => void;
+	/** Options are tags: show them as an indented tree with exact and exclude actions */
+	tree?: boolean;
+	/** Entries behind each option, shown next to it */
+	counts?: Record<string, number>;
+}
+
+interface SingleDropdownFilterProps extends DropdownFilterBaseProps {
+	multiple?: false;
+	value: string;
 	onChange: (value: string) => void;
 }
 
+/** Options toggle in and out of the selection, which is matched with OR */
+interface MultiDropdownFilterProps extends DropdownFilterBaseProps {
+	multiple: true;
+	value: string[];
+	onChange: (values: string[]) => void;
+}
+
+type DropdownFilterProps = SingleDropdownFilterProps | MultiDropdownFilterProps;
+
 /**
  * Dropdown filter component with search/autosearch functionality
  */
-export function DropdownFilter({
-	label,
-	value,
-	options,
-	onChange
-}: DropdownFilterProps) {
-	const isActive = value !== "all";
+export function DropdownFilter(props: DropdownFilterProps) {
+	const {
+		label,
+		options,
+		locale,
+		exact = false,
+		onExactChange,
+		tree = false,
+		counts
+	} = props;
+	const selection = props.multiple ? props.value : toFacetList(props.value);
+	const isActive = selection.length > 0;
 	const [isOpen, setIsOpen] = useState(false);
 	const [searchText, setSearchText] = useState("");
 	const [highlightedIndex, setHighlightedIndex] = useState(-1);
@@ -26,11 +59,11 @@ export function DropdownFilter({
 
 	// Filter options based on search text
 	const filteredOptions = options.filter(option =>
-		option.toLowerCase().includes(searchText.toLowerCase())
+		matchesSearch(option, searchText, { locale, exact })
 	);
 
 	// Get display text for the input
-	const displayText = isOpen ? searchText : (value === "all" ? "" : value);
+	const displayText = isOpen ? searchText : selection.join(", ");
 
 	// Handle click outside to close dropdown
 	useEffect(() => {
@@ -69,13 +102,46 @@ export function DropdownFilter({
 		setSearchText("");
 	};
 
-	const handleOptionSelect = useCallback((option: string) => {
-		onChange(option);
+	// Selected value behind an option; tag options may be selected as "=#tag" or "-#tag"
+	const selectedValue = (option: string) => selection.find(item =>
+		item === option || (tree && parseTagFilter(item)?.tag === option)
+	);
+
+	const closeList = () => {
 		setIsOpen(false);
 		setSearchText("");
 		setHighlightedIndex(-1);
 		inputRef.current?.blur();
-	}, [onChange]);
+	};
+
+	// A single dropdown replaces the value; a multi-select toggles it, keeping the list open
+	const selectValue = (option: string, value: string) => {
+		if (!props.multiple) {
+			props.onChange(value);
+			closeList();
+			return;
+		}
+
+		if (value === "all") {
+			props.onChange([]);
+			closeList();
+			return;
+		}
+
+		const current = selectedValue(option);
+		const others = selection.filter(item => item !== current);
+		props.onChange(current === value ? others : [...others, value]);
+	};
+
+	const handleOptionSelect = (option: string) => selectValue(option, option);
+
+	const handleTagModeSelect = (e: React.MouseEvent, tag: string, mode: TagMatchMode) => {
+		e.stopPropagation();
+		selectValue(tag, formatTagFilter({ mode, tag }));
+	};
+
+	// The tree is flattened while searching so matches keep their full path
+	const showAsTree = tree && !searchText;
 
 	const handleKeyDown = (e: React.KeyboardEvent) => {
 		if (!isOpen) {
@@ -120,7 +186,11 @@ export function DropdownFilter({
 	};
 
 	const handleClear = () => {
-		onChange("all");
+		if (props.multiple) {
+			props.onChange([]);
+		} else {
+			props.onChange("all");
+		}
 		setSearchText("");
 		setHighlightedIndex(-1);
 	};
@@ -143,7 +213,7 @@ export function DropdownFilter({
 					onChange={handleInputChange}
 					onFocus={handleInputFocus}
 					onKeyDown={handleKeyDown}
-					placeholder={value === "all" ? "all" : ""}
+					placeholder={isActive ? "" : "all"}
 					aria-label={label}
 					aria-expanded={isOpen}
 					aria-haspopup="listbox"
@@ -189,23 +259,72 @@ export function DropdownFilter({
 						aria-label={`${label} options`}
 					>
 						{filteredOptions.length > 0 ? (
-							filteredOptions.map((option, index) => (
-								<li
-									key={option}
-									className={`ll-dropdown-option ${option === value ? "ll-dropdown-option-selected" : ""} ${index === highlightedIndex ? "ll-dropdown-option-highlighted" : ""}`}
-									onClick={() => handleOptionSelect(option)}
-									role="option"
-									aria-selected={option === value ? "true" : "false"}
-								>
-									{option}
-								</li>
-							))
+							filteredOptions.map((option, index) => {
+								const isTag = tree && option.startsWith("#");
+								const depth = showAsTree && isTag ? getTagDepth(option) : 0;
+								const selected = option === "all" ? !isActive : selectedValue(option) !== undefined;
+								const mode = isTag ? parseTagFilter(selectedValue(option) ?? "")?.mode : undefined;
+								return (
+									<li
+										key={option}
+										className={`ll-dropdown-option ${isTag ? "ll-dropdown-tag-option" : ""} ${selected ? "ll-dropdown-option-selected" : ""} ${mode === "exclude" ? "ll-dropdown-option-excluded" : ""} ${index === highlightedIndex ? "ll-dropdown-option-highlighted" : ""}`}
+										style={depth > 0 ? { paddingLeft: `${12 + depth * 14}px` } : undefined}
+										onClick={() => handleOptionSelect(option)}
+										role="option"
+										aria-selected={selected ? "true" : "false"}
+										title={isTag ? `${option} and its subtags` : undefined}
+									>
+										{props.multiple && (
+											<span className="ll-dropdown-check" aria-hidden="true">
+												{selected ? (mode === "exclude" ? "−" : mode === "exact" ? "=" : "✓") : ""}
+											</span>
+										)}
+										<span className="ll-dropdown-option-text">
+											{depth > 0 ? (
+												getTagLeaf(option)
+											) : (
+												<HighlightedText text={option} query={searchText} options={{ locale, exact }} />
+											)}
+										</span>
+										{counts && (
+											<span className="ll-dropdown-count">{counts[option] ?? 0}</span>
+										)}
+										{isTag && (
+											<span className="ll-dropdown-tag-actions">
+												<button
+													type="button"
+													className="ll-dropdown-tag-action"
+													onClick={(e) => handleTagModeSelect(e, option, "exact")}
+													title={`Only ${option}, without subtags`}
+													aria-label={`Only ${option}`}
+													tabIndex={-1}
+												>
+													=
+												</button>
+												<button
+													type="button"
+													className="ll-dropdown-tag-action"
+													onClick={(e) => handleTagModeSelect(e, option, "exclude")}
+													title={`Exclude ${option} and its subtags`}
+													aria-label={`Exclude ${option}`}
+													tabIndex={-1}
+												>
+													−
+												</button>
+											</span>
+										)}
+									</li>
+								);
+							})
 						) : (
 							<li className="ll-dropdown-no-results" role="option" aria-disabled="true">No results found</li>
 						)}
 					</ul>
 				)}
 			</div>
+			{onExactChange && (
+				<AccentToggle label={label} exact={exact} onChange={onExactChange} />
+			)}
 			{isActive && (
 				<button
 					type="button"
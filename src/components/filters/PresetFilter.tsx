@@ -0,0 +1,95 @@
+import React, { useEffect, useState, useCallback } from "react";
+import { Notice } from "obsidian";
+import { FilterPreset, FilterState } from "../../types";
+import { useLearnLanguage } from "../../context";
+import { PresetNameModal } from "../../modals/PresetNameModal";
+import { matchesPreset } from "../../utils/presets";
+
+interface PresetFilterProps {
+	/** Current filters, saved into the preset */
+	filters: Partial<FilterState>;
+	/** Name of the selected preset */
+	value?: string;
+	/** A preset was picked (null: none) or saved */
+	onChange: (preset: FilterPreset | null) => void;
+}
+
+/**
+ * Filter preset picker with save and delete actions
+ */
+export function PresetFilter({ filters, value, onChange }: PresetFilterProps) {
+	const { app, presetService } = useLearnLanguage();
+	const [presets, setPresets] = useState<FilterPreset[]>(() => presetService?.getPresets() ?? []);
+
+	// Follow presets saved from other views and blocks
+	useEffect(() => {
+		if (!presetService) return;
+		setPresets(presetService.getPresets());
+		return presetService.onChange(() => setPresets(presetService.getPresets()));
+	}, [presetService]);
+
+	const selected = value ? presets.find(p => p.name.toLowerCase() === value.toLowerCase()) : undefined;
+	const isModified = selected !== undefined && !matchesPreset(filters, selected);
+
+	const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+		onChange(presets.find(p => p.name === e.target.value) ?? null);
+	};
+
+	const handleSave = useCallback(() => {
+		if (!presetService) return;
+		new PresetNameModal(app, selected?.name ?? "", presets.map(p => p.name), async (name) => {
+			const preset = await presetService.savePreset(name, filters);
+			new Notice(`Filter preset saved: ${preset.name}`);
+			onChange(preset);
+		}).open();
+	}, [app, filters, onChange, presetService, presets, selected]);
+
+	const handleDelete = useCallback(async () => {
+		if (!presetService || !selected) return;
+		await presetService.deletePreset(selected.name);
+		new Notice(`Filter preset deleted: ${selected.name}`);
+		onChange(null);
+	}, [onChange, presetService, selected]);
+
+	if (!presetService) return null;
+
+	return (
+		<div className={`ll-filter-item ll-preset-filter ${selected ? "ll-filter-active" : ""}`}>
+			<span className="ll-filter-label">Preset:</span>
+			<select
+				className="dropdown"
+				value={selected?.name ?? ""}
+				onChange={handleSelect}
+				aria-label="Filter preset"
+			>
+				<option value="">—</option>
+				{presets.map(preset => (
+					<option key={preset.name} value={preset.name}>{preset.name}</option>
+				))}
+			</select>
+			{isModified && (
+				<span className="ll-preset-modified" title="The filters differ from the preset">modified</span>
+			)}
+			<button
+				type="button"
+				className="ll-preset-action"
+				onClick={handleSave}
+				aria-label="Save filters as preset"
+				title={selected ? `Update "${selected.name}" or save as a new preset` : "Save filters as preset"}
+			>
+				💾
+			</button>
+			{selected && (
+				<button
+					type="button"
+					className="ll-preset-action"
+					onClick={handleDelete}
+					aria-label={`Delete preset ${selected.name}`}
+					title={`Delete preset "${selected.name}"`}
+				>
+					🗑
+				</button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { useLearnLanguage } from "../../context";
+
+interface QueryFilterProps {
+	value: string;
+	onChange: (value: string) => void;
+}
+
+const QUERY_PLACEHOLDER = "(type:#verbe OR type:#expression) NOT context:#A1 revision<3";
+
+/**
+ * Advanced query input; applies on Enter or blur and reports syntax errors
+ */
+export function QueryFilter({ value, onChange }: QueryFilterProps) {
+	const { filterService } = useLearnLanguage();
+	const external = value === "all" ? "" : value;
+	const [inputValue, setInputValue] = useState(external);
+
+	// Follow queries set from outside (e.g. a code block re-render)
+	useEffect(() => {
+		setInputValue(external);
+	}, [external]);
+
+	const error = useMemo(() => filterService.parseQuery(inputValue).error, [filterService, inputValue]);
+
+	const commit = useCallback((next: string) => {
+		if (filterService.parseQuery(next).error) return;
+		const normalized = next.trim() || "all";
+		if (normalized !== (value || "all")) onChange(normalized);
+	}, [filterService, onChange, value]);
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			commit(inputValue);
+		} else if (e.key === "Escape") {
+			setInputValue(external);
+		}
+	};
+
+	const handleClear = () => {
+		setInputValue("");
+		commit("");
+	};
+
+	const isActive = external !== "";
+
+	return (
+		<div className={`ll-query-filter ${isActive ? "ll-filter-active" : ""}`}>
+			<div className="ll-filter-item">
+				<span className="ll-filter-label">Query:</span>
+				<input
+					type="text"
+					className={`ll-filter-input ll-query-input ${error ? "ll-query-invalid" : ""}`}
+					placeholder={QUERY_PLACEHOLDER}
+					value={inputValue}
+					onChange={(e) => setInputValue(e.target.value)}
+					onKeyDown={handleKeyDown}
+					onBlur={() => commit(inputValue)}
+					aria-label="Filter query"
+					aria-invalid={error ? "true" : "false"}
+					spellCheck={false}
+				/>
+				{(isActive || inputValue) && (
+					<button
+						type="button"
+						className="ll-filter-clear"
+						onClick={handleClear}
+						aria-label="Clear query"
+						title="Clear query"
+					>
+						✕
+					</button>
+				)}
+			</div>
+			{error && (
+				<div className="ll-query-error" role="alert">
+					{error.message} (column {error.position + 1})
+				</div>
+			)}
+		</div>
+	);
+}
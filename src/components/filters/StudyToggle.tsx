@@ -4,6 +4,13 @@ interface StudyToggleProps {
 	value: "yes" | "no" | "source";
 	targetLanguage: string;
 	sourceLanguage: string;
+	/** Label of the "yes" option (defaults to "target → source") */
+	yesLabel?: string;
+	/** Offer the reversed "source → target" option */
+	showSource?: boolean;
+	/** Whether answers are typed; the checkbox is only offered with this handler */
+	typeAnswers?: boolean;
+	onTypeAnswersChange?: (value: boolean) => void;
 	onChange: (value: "yes" | "no" | "source") => void;
 }
 
@@ -14,6 +21,10 @@ export function StudyToggle({
 	value,
 	targetLanguage,
 	sourceLanguage,
+	yesLabel,
+	showSource = true,
+	typeAnswers = false,
+	onTypeAnswersChange,
 	onChange
 }: StudyToggleProps) {
 	const isActive = value !== "no";
@@ -28,9 +39,21 @@ export function StudyToggle({
 				aria-label="Study mode"
 			>
 				<option value="no">No</option>
-				<option value="yes">{targetLanguage} → {sourceLanguage}</option>
-				<option value="source">{sourceLanguage} → {targetLanguage}</option>
+				<option value="yes">{yesLabel ?? `${targetLanguage} → ${sourceLanguage}`}</option>
+				{showSource && (
+					<option value="source">{sourceLanguage} → {targetLanguage}</option>
+				)}
 			</select>
+			{isActive && onTypeAnswersChange && (
+				<label className="ll-study-type-answers" title="Type each answer and grade it for the scheduler">
+					<input
+						type="checkbox"
+						checked={typeAnswers}
+						onChange={(e) => onTypeAnswersChange(e.target.checked)}
+					/>
+					Type answers
+				</label>
+			)}
 			{isActive && (
 				<button
 					type="button"
@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useCallback } from "react";
 import { useTypeAhead } from "../../hooks";
+import { AccentToggle } from "./AccentToggle";
 
 let lastFocusedLabel: string | null = null;
 let lastFocusAtMs = 0;
@@ -9,6 +10,10 @@ interface TypeAheadFilterProps {
 	value: string;
 	placeholder?: string;
 	onChange: (value: string) => void;
+	/** Match accents exactly instead of ignoring them */
+	exact?: boolean;
+	/** Shows the accent toggle when set */
+	onExactChange?: (exact: boolean) => void;
 }
 
 /**
@@ -18,7 +23,9 @@ export function TypeAheadFilter({
 	label,
 	value,
 	placeholder,
-	onChange
+	onChange,
+	exact = false,
+	onExactChange
 }: TypeAheadFilterProps) {
 	const inputRef = useRef<HTMLInputElement>(null);
 
@@ -120,6 +127,9 @@ export function TypeAheadFilter({
 				onCompositionStart={handleCompositionStart}
 				onCompositionEnd={handleCompositionEnd}
 			/>
+			{onExactChange && (
+				<AccentToggle label={label} exact={exact} onChange={onExactChange} />
+			)}
 			{isActive && (
 				<button
 					type="button"
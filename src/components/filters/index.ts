@@ -1,3 +1,6 @@
 export { TypeAheadFilter } from "./TypeAheadFilter";
 export { DropdownFilter } from "./DropdownFilter";
 export { StudyToggle } from "./StudyToggle";
+export { AccentToggle } from "./AccentToggle";
+export { QueryFilter } from "./QueryFilter";
+export { PresetFilter } from "./PresetFilter";
@@ -0,0 +1,239 @@
+import React, { useEffect, useCallback, useMemo, useState } from "react";
+import { GrammarPage, getLocaleCode } from "../../types";
+import { useLearnLanguage } from "../../context";
+import { usePagination } from "../../hooks";
+import { TypeAheadFilter, DropdownFilter, StudyToggle } from "../filters";
+import { Pagination } from "../table";
+import { GrammarTable } from "./GrammarTable";
+import { SearchOptions, matchesSearch } from "../../utils/searchKeys";
+import { parseTagFilter } from "../../utils/tagFilter";
+
+interface GrammarFilterState {
+	page: string;
+	type: string;
+	context: string;
+	tag: string;
+	study: "yes" | "no" | "source";
+	/** Match the page name's accents exactly */
+	exactPage: boolean;
+}
+
+type GrammarFacet = "type" | "context" | "tag";
+
+// Grammar page property behind each dropdown filter
+const FACET_PROPERTIES: Record<GrammarFacet, keyof GrammarPage> = {
+	type: "Type",
+	context: "Context",
+	tag: "Tags",
+};
+
+export interface GrammarComponentProps {
+	/** Initial pages to display */
+	pages: GrammarPage[];
+	/** Show the refresh button */
+	showRefresh?: boolean;
+	/** Show the study mode toggle */
+	showStudyMode?: boolean;
+	/** Show pagination controls */
+	showPagination?: boolean;
+	/** Initial page size */
+	pageSize?: number;
+	/** Callback when refresh is requested */
+	onRefresh?: () => Promise<void>;
+}
+
+/**
+ * GrammarComponent - React component for displaying and filtering grammar pages
+ */
+export function GrammarComponent({
+	pages,
+	showRefresh = true,
+	showStudyMode = true,
+	showPagination = true,
+	pageSize = 25,
+	onRefresh
+}: GrammarComponentProps) {
+	const { settings, filterService } = useLearnLanguage();
+
+	// Filter state
+	const [filters, setFilters] = useState<GrammarFilterState>({
+		page: "all",
+		type: "all",
+		context: "all",
+		tag: "all",
+		study: "no",
+		exactPage: false
+	});
+
+	// Pagination
+	const {
+		pagination,
+		setOutputCount,
+		setPageSize,
+		nextPage,
+		prevPage,
+		resetPage,
+		currentPage,
+		totalPages,
+		hasNext,
+		hasPrev
+	} = usePagination(pageSize);
+
+	const pageSearch = useMemo<SearchOptions>(() => ({
+		locale: getLocaleCode(settings.targetLanguage),
+		exact: filters.exactPage
+	}), [settings.targetLanguage, filters.exactPage]);
+
+	// Apply every filter except the excluded facet (used for faceted dropdown options)
+	const applyFilters = useCallback((source: GrammarPage[], exclude?: GrammarFacet) => {
+		let result = source;
+
+		if (filters.page && filters.page !== "all") {
+			result = result.filter(p => matchesSearch(p.file.basename, filters.page, pageSearch));
+		}
+
+		for (const facet of Object.keys(FACET_PROPERTIES) as GrammarFacet[]) {
+			if (facet === exclude) continue;
+			result = filterService.filterByProperty(result, FACET_PROPERTIES[facet], filters[facet]);
+		}
+
+		return result;
+	}, [filters, filterService, pageSearch]);
+
+	const filteredPages = useMemo(() => applyFilters(pages), [pages, applyFilters]);
+
+	// Paginate
+	const paginatedPages = useMemo(() => {
+		if (!showPagination) return filteredPages;
+		return filterService.paginate(
+			filteredPages,
+			pagination.pageStart,
+			pagination.pageSize
+		);
+	}, [filteredPages, pagination, showPagination, filterService]);
+
+	// Update output count when filtered pages change
+	useEffect(() => {
+		setOutputCount(filteredPages.length);
+	}, [filteredPages.length, setOutputCount]);
+
+	// Reset page when filters change
+	useEffect(() => {
+		resetPage();
+	}, [filters.page, filters.type, filters.context, filters.tag, filters.study, filters.exactPage, resetPage]);
+
+	// Faceted dropdown options, keeping the current selection visible
+	const facetOptions = useCallback((facet: GrammarFacet) => {
+		const opts = filterService.getUniqueValues(applyFilters(pages, facet), FACET_PROPERTIES[facet]);
+		// Keep the bare tag of "=#tag" / "-#tag" selections in the list
+		const selected = parseTagFilter(filters[facet])?.tag ?? filters[facet];
+		if (selected && selected !== "all" && !opts.includes(selected)) {
+			return ["all", selected, ...opts.filter(o => o !== "all")];
+		}
+		return opts;
+	}, [pages, applyFilters, filterService, filters]);
+
+	const typeOptions = useMemo(() => facetOptions("type"), [facetOptions]);
+	const contextOptions = useMemo(() => facetOptions("context"), [facetOptions]);
+	const tagOptions = useMemo(() => facetOptions("tag"), [facetOptions]);
+
+	// Handlers
+	const updateFilter = useCallback(<K extends keyof GrammarFilterState>(key: K, value: GrammarFilterState[K]) => {
+		setFilters(prev => ({ ...prev, [key]: value }));
+	}, []);
+
+	const handleRefresh = useCallback(async () => {
+		if (onRefresh) {
+			await onRefresh();
+		}
+	}, [onRefresh]);
+
+	const handlePageSizeChange = useCallback((size: number) => {
+		setPageSize(size);
+	}, [setPageSize]);
+
+	return (
+		<div className="ll-grammar-component">
+			{/* Filters */}
+			<div className="ll-filters">
+				<div className="ll-filter-row">
+					<TypeAheadFilter
+						label="Page"
+						value={filters.page}
+						onChange={(value) => updateFilter("page", value)}
+						exact={filters.exactPage}
+						onExactChange={(exact) => updateFilter("exactPage", exact)}
+					/>
+					<DropdownFilter
+						label="Type"
+						value={filters.type}
+						options={typeOptions}
+						onChange={(value) => updateFilter("type", value)}
+						locale={pageSearch.locale}
+						tree={true}
+					/>
+					<DropdownFilter
+						label="Context"
+						value={filters.context}
+						options={contextOptions}
+						onChange={(value) => updateFilter("context", value)}
+						locale={pageSearch.locale}
+						tree={true}
+					/>
+					<DropdownFilter
+						label="Tags"
+						value={filters.tag}
+						options={tagOptions}
+						onChange={(value) => updateFilter("tag", value)}
+						locale={pageSearch.locale}
+						tree={true}
+					/>
+					{showStudyMode && (
+						<StudyToggle
+							value={filters.study}
+							targetLanguage={settings.targetLanguage}
+							sourceLanguage={settings.sourceLanguage}
+							yesLabel="Yes"
+							showSource={false}
+							onChange={(value) => updateFilter("study", value)}
+						/>
+					)}
+					{showRefresh && onRefresh && (
+						<button
+							className="mod-cta"
+							onClick={handleRefresh}
+							aria-label="Refresh"
+						>
+							🔄 Refresh
+						</button>
+					)}
+				</div>
+			</div>
+
+			{/* Table */}
+			<div className="ll-table-container">
+				<GrammarTable
+					pages={paginatedPages}
+					isStudying={filters.study !== "no"}
+					pageQuery={filters.page}
+					pageSearch={pageSearch}
+				/>
+			</div>
+
+			{/* Pagination */}
+			{showPagination && (
+				<Pagination
+					pagination={pagination}
+					currentPage={currentPage}
+					totalPages={totalPages}
+					hasNext={hasNext}
+					hasPrev={hasPrev}
+					onNext={nextPage}
+					onPrev={prevPage}
+					onPageSizeChange={handlePageSizeChange}
+					entityName="pages"
+				/>
+			)}
+		</div>
+	);
+}
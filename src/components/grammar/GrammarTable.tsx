@@ -0,0 +1,162 @@
+import React, { useCallback } from "react";
+import { GrammarLinkedEntry, GrammarPage } from "../../types";
+import { useLearnLanguage } from "../../context";
+import { SearchOptions } from "../../utils/searchKeys";
+import { HighlightedText } from "../table";
+
+interface GrammarTableProps {
+	pages: GrammarPage[];
+	isStudying: boolean;
+	/** Active page filter, highlighted in the page names */
+	pageQuery?: string;
+	pageSearch?: SearchOptions;
+}
+
+/**
+ * Grammar pages table component
+ */
+export function GrammarTable({ pages, isStudying, pageQuery, pageSearch }: GrammarTableProps) {
+	const { app, settings } = useLearnLanguage();
+
+	const openFile = useCallback((path: string) => {
+		app.workspace.openLinkText(path, "");
+	}, [app]);
+
+	if (pages.length === 0) {
+		return (
+			<div className="ll-no-results">
+				No grammar pages found matching the filters.
+			</div>
+		);
+	}
+
+	return (
+		<table className="ll-table ll-grammar-table">
+			{!isStudying && (
+				<thead>
+					<tr>
+						<th>Page</th>
+						<th>Type</th>
+						<th>Context</th>
+						<th>{settings.targetLanguage} entries</th>
+					</tr>
+				</thead>
+			)}
+			<tbody>
+				{pages.map((page) => (
+					isStudying ? (
+						<StudyRow key={page.file.path} page={page} onOpenFile={openFile} />
+					) : (
+						<NormalRow
+							key={page.file.path}
+							page={page}
+							pageQuery={pageQuery}
+							pageSearch={pageSearch}
+							onOpenFile={openFile}
+						/>
+					)
+				))}
+			</tbody>
+		</table>
+	);
+}
+
+interface RowProps {
+	page: GrammarPage;
+	onOpenFile: (path: string) => void;
+}
+
+interface NormalRowProps extends RowProps {
+	pageQuery?: string;
+	pageSearch?: SearchOptions;
+}
+
+const NormalRow = React.memo(function NormalRow({ page, pageQuery, pageSearch, onOpenFile }: NormalRowProps) {
+	return (
+		<tr>
+			<td>
+				<FileLink
+					path={page.file.path}
+					text={<HighlightedText text={page.file.basename} query={pageQuery} options={pageSearch} />}
+					onOpenFile={onOpenFile}
+				/>
+			</td>
+			<td>{page.Type}</td>
+			<td>{page.Context}</td>
+			<td>
+				<LinkedEntries entries={page.linkedEntries} onOpenFile={onOpenFile} />
+			</td>
+		</tr>
+	);
+});
+
+const StudyRow = React.memo(function StudyRow({ page, onOpenFile }: RowProps) {
+	const [isExpanded, setIsExpanded] = React.useState(false);
+
+	return (
+		<tr className="ll-study-row">
+			<td colSpan={4}>
+				<div
+					className="ll-study-question"
+					onClick={() => setIsExpanded(!isExpanded)}
+				>
+					<h4 className="ll-collapsible">{page.file.basename}</h4>
+				</div>
+				<div className={`ll-study-answer ${isExpanded ? "" : "ll-hidden"}`}>
+					<FileLink path={page.file.path} text="Open page" onOpenFile={onOpenFile} />
+					{page.Type && (
+						<span className="ll-answer-type"> ({page.Type})</span>
+					)}
+					{page.linkedEntries.length > 0 && (
+						<div className="ll-answer-examples">
+							<LinkedEntries entries={page.linkedEntries} onOpenFile={onOpenFile} />
+						</div>
+					)}
+				</div>
+			</td>
+		</tr>
+	);
+});
+
+interface FileLinkProps {
+	path: string;
+	text: React.ReactNode;
+	onOpenFile: (path: string) => void;
+}
+
+function FileLink({ path, text, onOpenFile }: FileLinkProps) {
+	const handleClick = useCallback((e: React.MouseEvent) => {
+		e.preventDefault();
+		onOpenFile(path);
+	}, [path, onOpenFile]);
+
+	return (
+		<a className="internal-link" href={path} onClick={handleClick}>
+			{text}
+		</a>
+	);
+}
+
+interface LinkedEntriesProps {
+	entries: GrammarLinkedEntry[];
+	onOpenFile: (path: string) => void;
+}
+
+function LinkedEntries({ entries, onOpenFile }: LinkedEntriesProps) {
+	if (entries.length === 0) {
+		return <span className="ll-empty">—</span>;
+	}
+
+	return (
+		<span className="ll-grammar-linked-entries">
+			{entries.map((entry, index) => (
+				<React.Fragment key={entry.path}>
+					{index > 0 && ", "}
+					<span title={entry.sourceWord}>
+						<FileLink path={entry.path} text={entry.targetWord} onOpenFile={onOpenFile} />
+					</span>
+				</React.Fragment>
+			))}
+		</span>
+	);
+}
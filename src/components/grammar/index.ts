@@ -0,0 +1,3 @@
+export { GrammarComponent } from "./GrammarComponent";
+export { GrammarTable } from "./GrammarTable";
+export type { GrammarComponentProps } from "./GrammarComponent";
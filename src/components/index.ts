@@ -3,6 +3,13 @@ export { DictionaryComponent } from "./dictionary";
 export type { DictionaryComponentProps } from "./dictionary";
 export { VerbsComponent } from "./verbs";
 export type { VerbsComponentProps } from "./verbs";
+export { GrammarComponent } from "./grammar";
+export type { GrammarComponentProps } from "./grammar";
+export { ReviewComponent } from "./review";
+export type { ReviewComponentProps } from "./review";
+export { StatisticsComponent } from "./statistics";
+export type { StatisticsComponentProps } from "./statistics";
 export { TypeAheadFilter, DropdownFilter, StudyToggle } from "./filters";
 export { DictionaryTable, Pagination } from "./table";
 export { VerbsTable } from "./verbs";
+export { GrammarTable } from "./grammar";
@@ -0,0 +1,57 @@
+import React from "react";
+import { useLearnLanguage } from "../../context";
+import type { ConjugationReport, ConjugationReportItem } from "../../services/ConjugationService";
+
+export interface ConjugationReportModalContentProps {
+	report: ConjugationReport;
+	/** Callback when modal should close */
+	onClose: () => void;
+}
+
+/**
+ * React component summarising a "fill missing conjugations" run
+ */
+export function ConjugationReportModalContent({ report, onClose }: ConjugationReportModalContentProps) {
+	const { app } = useLearnLanguage();
+
+	const openNote = (path: string) => {
+		app.workspace.openLinkText(path, "");
+		onClose();
+	};
+
+	const renderSection = (title: string, items: ConjugationReportItem[], open: boolean = false) => {
+		if (items.length === 0) return null;
+		return (
+			<details className="ll-conjugation-report-section" open={open}>
+				<summary>{title} ({items.length})</summary>
+				<ul>
+					{items.map(item => (
+						<li key={item.path}>
+							<a className="internal-link" onClick={() => openNote(item.path)}>{item.verb}</a>
+							{item.detail && <span className="ll-conjugation-report-detail"> — {item.detail}</span>}
+						</li>
+					))}
+				</ul>
+			</details>
+		);
+	};
+
+	return (
+		<div className="ll-conjugation-report">
+			<h2>Conjugation Report</h2>
+			<p>
+				Filled {report.filled.length} verbs; {report.complete} regular verbs were already complete.
+			</p>
+
+			{renderSection("Filled", report.filled)}
+			{renderSection("Irregular verbs (left unchanged)", report.irregular, true)}
+			{renderSection("Regular verbs not handled by the rules", report.skipped, true)}
+
+			<div className="ll-modal-buttons">
+				<button className="mod-cta" onClick={onClose}>
+					Close
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -1,4 +1,7 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo } from "react";
+import { VERB_FIELDS, VerbField, VerbFields } from "../../types";
+import { useLearnLanguage } from "../../context";
+import { getProfileVerbFields, getTenseColumns } from "../../utils/tenseProfiles";
 
 export interface TermFormValues {
 	targetTerm: string;
@@ -6,6 +9,21 @@ export interface TermFormValues {
 	type: string;
 	context: string;
 	examples: string;
+	verbFields?: VerbFields;
+}
+
+// Conjugation fields edited as multi-line text (stored with <br> separators)
+const MULTILINE_VERB_FIELDS: VerbField[] = [
+	"présent",
+	"imparfait",
+	"passé-composé",
+	"futur",
+	"présent-subjonctif",
+	"conditionnel-présent",
+];
+
+function brToNewlines(value?: string): string {
+	return (value || "").replace(/<br\s*\/?>/gi, "\n");
 }
 
 export interface TermModalContentProps {
@@ -45,12 +63,33 @@ export function TermModalContent({
 	onSubmit,
 	onClose
 }: TermModalContentProps) {
+	const { settings, dictionaryService } = useLearnLanguage();
+
+	// Built-in verb fields plus the fields of the current language profile
+	const tenseColumns = useMemo(() => getTenseColumns(settings), [settings]);
+	const verbFieldList = useMemo(
+		() => Array.from(new Set<VerbField>([...VERB_FIELDS, ...getProfileVerbFields(settings)])),
+		[settings]
+	);
+
 	// Form state
 	const [targetTerm, setTargetTerm] = useState(initialValues.targetTerm);
 	const [sourceTerm, setSourceTerm] = useState(initialValues.sourceTerm);
 	const [type, setType] = useState(initialValues.type);
 	const [context, setContext] = useState(initialValues.context);
 	const [examples, setExamples] = useState(initialValues.examples);
+	const [verbFields, setVerbFields] = useState<VerbFields>(() => {
+		const initial: VerbFields = {};
+		for (const field of verbFieldList) {
+			initial[field] = brToNewlines(initialValues.verbFields?.[field]);
+		}
+		return initial;
+	});
+	const isVerb = dictionaryService.isVerbType(type);
+
+	const updateVerbField = useCallback((field: VerbField, value: string) => {
+		setVerbFields(prev => ({ ...prev, [field]: value }));
+	}, []);
 	const [isLoading, setIsLoading] = useState(false);
 
 	// Handle Ask AI
@@ -82,12 +121,14 @@ export function TermModalContent({
 				sourceTerm: sourceTerm.trim(),
 				type: type.trim(),
 				context: context.trim(),
-				examples: examples.trim()
+				examples: examples.trim(),
+				// Only verbs carry conjugations
+				verbFields: isVerb ? verbFields : undefined
 			});
 		} finally {
 			setIsLoading(false);
 		}
-	}, [targetTerm, sourceTerm, type, context, examples, onSubmit]);
+	}, [targetTerm, sourceTerm, type, context, examples, verbFields, isVerb, onSubmit]);
 
 	return (
 		<div className="ll-term-modal-content">
@@ -184,6 +225,37 @@ export function TermModalContent({
 						/>
 					</div>
 				</div>
+
+				{/* Conjugation fields (verbs only) */}
+				{isVerb && (
+					<details className="ll-term-verb-fields">
+						<summary>Conjugations</summary>
+						{verbFieldList.map(field => (
+							<div className="setting-item" key={field}>
+								<div className="setting-item-info">
+									<div className="setting-item-name">{field}</div>
+								</div>
+								<div className="setting-item-control">
+									{MULTILINE_VERB_FIELDS.includes(field) || tenseColumns.some(c => c.field === field) ? (
+										<textarea
+											title={field}
+											value={verbFields[field] || ""}
+											onChange={(e) => updateVerbField(field, e.target.value)}
+											rows={6}
+										/>
+									) : (
+										<input
+											type="text"
+											title={field}
+											value={verbFields[field] || ""}
+											onChange={(e) => updateVerbField(field, e.target.value)}
+										/>
+									)}
+								</div>
+							</div>
+						))}
+					</details>
+				)}
 			</div>
 
 			{/* Buttons */}
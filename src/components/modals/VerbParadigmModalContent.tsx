@@ -0,0 +1,189 @@
+import React, { useState, useCallback, useMemo } from "react";
+import { TenseColumn, VerbEntry, VerbField, VerbFields, VerbParadigmProfile } from "../../types";
+import { joinPersonLines, splitPersonLines } from "../../utils/verbFields";
+
+export interface VerbParadigmModalContentProps {
+	/** Verb to display */
+	entry: VerbEntry;
+	/** Tense columns of the grid */
+	tenseColumns: TenseColumn[];
+	/** Persons, participles and auxiliary of the target language */
+	paradigm: VerbParadigmProfile;
+	/** Whether edits can be saved */
+	canEdit: boolean;
+	/** Callback with the changed fields only */
+	onSave: (fields: VerbFields) => Promise<void>;
+	/** Callback to open the verb note */
+	onOpenNote: () => void;
+	/** Callback when modal should close */
+	onClose: () => void;
+}
+
+/**
+ * React component for the verb paradigm modal: tenses × persons grid plus participles and markers
+ */
+export function VerbParadigmModalContent({
+	entry,
+	tenseColumns,
+	paradigm,
+	canEdit,
+	onSave,
+	onOpenNote,
+	onClose
+}: VerbParadigmModalContentProps) {
+	const initialFields = useMemo(() => entry.verbFields ?? {}, [entry]);
+
+	// Scalar fields shown above the grid
+	const singleFields = useMemo(() => {
+		const fields: TenseColumn[] = [...paradigm.participles];
+		if (paradigm.auxiliaryField) {
+			fields.push({ field: paradigm.auxiliaryField, label: "Auxiliary" });
+		}
+		fields.push({ field: "model", label: "Model" });
+		fields.push({ field: "irregular", label: "Irregular" });
+		return fields;
+	}, [paradigm]);
+
+	const [grid, setGrid] = useState<Record<VerbField, string[]>>(() => {
+		const initial: Record<VerbField, string[]> = {};
+		for (const { field } of tenseColumns) {
+			initial[field] = splitPersonLines(initialFields[field]);
+		}
+		return initial;
+	});
+	const [singles, setSingles] = useState<VerbFields>(() => {
+		const initial: VerbFields = {};
+		for (const { field } of singleFields) {
+			initial[field] = initialFields[field] ?? "";
+		}
+		return initial;
+	});
+	const [isSaving, setIsSaving] = useState(false);
+
+	// Lines beyond the configured persons are kept as extra, unlabelled rows
+	const rowCount = Math.max(
+		paradigm.persons.length,
+		...tenseColumns.map(({ field }) => grid[field]?.length ?? 0)
+	);
+
+	const updateCell = useCallback((field: VerbField, row: number, value: string) => {
+		setGrid(prev => {
+			const lines = [...(prev[field] ?? [])];
+			while (lines.length <= row) lines.push("");
+			lines[row] = value;
+			return { ...prev, [field]: lines };
+		});
+	}, []);
+
+	const updateSingle = useCallback((field: VerbField, value: string) => {
+		setSingles(prev => ({ ...prev, [field]: value }));
+	}, []);
+
+	const changedFields = useMemo(() => {
+		const changed: VerbFields = {};
+		for (const { field } of tenseColumns) {
+			const value = joinPersonLines(grid[field] ?? []);
+			if (value !== joinPersonLines(splitPersonLines(initialFields[field]))) {
+				changed[field] = value;
+			}
+		}
+		for (const { field } of singleFields) {
+			const value = (singles[field] ?? "").trim();
+			if (value !== (initialFields[field] ?? "")) {
+				changed[field] = value;
+			}
+		}
+		return changed;
+	}, [grid, singles, tenseColumns, singleFields, initialFields]);
+
+	const hasChanges = Object.keys(changedFields).length > 0;
+
+	const handleSave = useCallback(async () => {
+		setIsSaving(true);
+		try {
+			await onSave(changedFields);
+		} finally {
+			setIsSaving(false);
+		}
+	}, [changedFields, onSave]);
+
+	return (
+		<div className="ll-paradigm-modal-content">
+			<h2>
+				{entry.F}
+				<span className="ll-paradigm-translation">{entry.S}</span>
+			</h2>
+
+			{/* Classification markers */}
+			<div className="ll-paradigm-markers">
+				{entry.Group && <span className="ll-paradigm-badge">Group {entry.Group}</span>}
+				{entry.Irregular && <span className="ll-paradigm-badge mod-warning">Irregular</span>}
+				<a className="ll-paradigm-open-note" onClick={onOpenNote}>Open note</a>
+			</div>
+
+			{/* Participles, auxiliary and markers */}
+			<div className="ll-paradigm-fields">
+				{singleFields.map(({ field, label }) => (
+					<label key={field} className="ll-paradigm-field">
+						<span>{label}</span>
+						<input
+							type="text"
+							title={field}
+							value={singles[field] ?? ""}
+							onChange={(e) => updateSingle(field, e.target.value)}
+							disabled={!canEdit}
+						/>
+					</label>
+				))}
+			</div>
+
+			{/* Tenses × persons grid */}
+			<div className="ll-table-container">
+				<table className="ll-table ll-paradigm-grid">
+					<thead>
+						<tr>
+							<th></th>
+							{tenseColumns.map(({ field, label }) => (
+								<th key={field}>{label}</th>
+							))}
+						</tr>
+					</thead>
+					<tbody>
+						{Array.from({ length: rowCount }, (_, row) => (
+							<tr key={row}>
+								<th className="ll-paradigm-person">{paradigm.persons[row] ?? ""}</th>
+								{tenseColumns.map(({ field }) => (
+									<td key={field}>
+										<input
+											type="text"
+											title={`${field} (${paradigm.persons[row] ?? row + 1})`}
+											value={grid[field]?.[row] ?? ""}
+											onChange={(e) => updateCell(field, row, e.target.value)}
+											disabled={!canEdit}
+										/>
+									</td>
+								))}
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+
+			{/* Buttons */}
+			<div className="ll-modal-buttons">
+				<button onClick={onClose} disabled={isSaving}>
+					Close
+				</button>
+				{canEdit && (
+					<button
+						className="mod-cta"
+						onClick={handleSave}
+						disabled={isSaving || !hasChanges}
+					>
+						{isSaving ? "..." : "Save"}
+					</button>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,134 @@
+import React from "react";
+import { AnswerCheck, REVIEW_GRADES, ReviewCard, ReviewDirection, ReviewGrade } from "../../types";
+import { examplesHtml } from "../../utils/examples";
+import { clozeHtml } from "../../utils/cloze";
+import { AnswerFeedback, TypedAnswerInput } from "./TypedAnswer";
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+	again: "Again",
+	hard: "Hard",
+	good: "Good",
+	easy: "Easy",
+};
+
+interface FlashCardProps {
+	card: ReviewCard;
+	direction: ReviewDirection;
+	revealed: boolean;
+	/** Cloze cards: show the source translation before the answer */
+	hintShown?: boolean;
+	/** Interval each grade would give, e.g. "6d" */
+	intervals: Record<ReviewGrade, string>;
+	/** Typed-answer cards: the answer box shown instead of the reveal button */
+	answerInput?: {
+		value: string;
+		placeholder: string;
+		onChange: (value: string) => void;
+		onSubmit: () => void;
+	};
+	/** Typed-answer cards: the checked answer, once revealed */
+	feedback?: { typed: string; check: AnswerCheck };
+	/** Grade the checked answer suggests; Enter picks it */
+	suggestedGrade?: ReviewGrade;
+	onReveal: () => void;
+	onShowHint?: () => void;
+	onGrade: (grade: ReviewGrade) => void;
+	onOpenFile: (path: string) => void;
+}
+
+/**
+ * One review card: the question, then the answer and the grade buttons once revealed.
+ * Cloze cards ask for the starred term of an example, with the source translation as a hint.
+ */
+export function FlashCard({
+	card,
+	direction,
+	revealed,
+	hintShown = false,
+	intervals,
+	answerInput,
+	feedback,
+	suggestedGrade,
+	onReveal,
+	onShowHint,
+	onGrade,
+	onOpenFile
+}: FlashCardProps) {
+	const { entry, cloze } = card;
+	const question = direction === "source" ? entry.sourceWord : entry.targetWord;
+	const answer = cloze
+		? `${entry.targetWord} — ${entry.sourceWord}`
+		: direction === "source" ? entry.targetWord : entry.sourceWord;
+
+	return (
+		<div className="ll-flashcard">
+			<div className="ll-flashcard-question">
+				{card.isNew && <span className="ll-flashcard-badge">new</span>}
+				{cloze ? (
+					<p
+						className="ll-cloze-text"
+						dangerouslySetInnerHTML={{ __html: clozeHtml(cloze.text, revealed) }}
+					/>
+				) : (
+					<h2>{question}</h2>
+				)}
+				{cloze && !revealed && hintShown && (
+					<div className="ll-cloze-hint">{entry.sourceWord}</div>
+				)}
+				{cloze && !revealed && !hintShown && onShowHint && (
+					<button className="ll-cloze-hint-button" onClick={onShowHint} title="Show hint (H)">
+						Hint
+					</button>
+				)}
+			</div>
+
+			{revealed ? (
+				<>
+					{feedback && <AnswerFeedback typed={feedback.typed} check={feedback.check} />}
+					<div className="ll-flashcard-answer">
+						<h3>
+							<a
+								className="internal-link"
+								href={entry.file.path}
+								onClick={(e) => {
+									e.preventDefault();
+									onOpenFile(entry.file.path);
+								}}
+							>
+								{answer}
+							</a>
+						</h3>
+						{(entry.type || entry.context) && (
+							<div className="ll-answer-type">{[entry.type, entry.context].filter(Boolean).join(" · ")}</div>
+						)}
+						{entry.examples && !cloze && (
+							<div
+								className="ll-answer-examples"
+								dangerouslySetInnerHTML={{ __html: examplesHtml(entry.examples) }}
+							/>
+						)}
+					</div>
+					<div className="ll-flashcard-grades">
+						{REVIEW_GRADES.map((grade, index) => (
+							<button
+								key={grade}
+								className={`ll-grade-button ll-grade-${grade}${grade === suggestedGrade ? " ll-grade-suggested" : ""}`}
+								onClick={() => onGrade(grade)}
+								title={`${GRADE_LABELS[grade]} (${index + 1}${grade === suggestedGrade ? " or Enter" : ""})`}
+							>
+								<span className="ll-grade-label">{GRADE_LABELS[grade]}</span>
+								<span className="ll-grade-interval">{intervals[grade]}</span>
+							</button>
+						))}
+					</div>
+				</>
+			) : answerInput ? (
+				<TypedAnswerInput {...answerInput} />
+			) : (
+				<button className="mod-cta ll-flashcard-reveal" onClick={onReveal} title="Show answer (Space)">
+					Show answer
+				</button>
+			)}
+		</div>
+	);
+}
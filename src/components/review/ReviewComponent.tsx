@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Notice } from "obsidian";
+import {
+	AnswerCheck,
+	DictionaryEntry,
+	FilterState,
+	REVIEW_GRADES,
+	ReviewAnswerMode,
+	ReviewCard,
+	ReviewDirection,
+	ReviewGrade,
+	ReviewMode,
+	ReviewSessionOptions,
+	ReviewSummary,
+	getLocaleCode
+} from "../../types";
+import { useLearnLanguage } from "../../context";
+import { useReviewSession } from "../../hooks";
+import { formatInterval } from "../../utils/scheduler";
+import { checkAnswer, getAcceptedAnswers, gradeForAnswer } from "../../utils/answers";
+import { ReviewSetup } from "./ReviewSetup";
+import { FlashCard } from "./FlashCard";
+import { ReviewSummaryPanel } from "./ReviewSummaryPanel";
+
+export interface ReviewComponentProps {
+	entries: DictionaryEntry[];
+	/** Filters the session was opened with */
+	filters?: Partial<FilterState>;
+	preset?: string;
+	direction?: ReviewDirection;
+	mode?: ReviewMode;
+	answer?: ReviewAnswerMode;
+	onOptionsChange?: (options: ReviewSessionOptions) => void;
+}
+
+interface RunningSession {
+	id: number;
+	cards: ReviewCard[];
+	direction: ReviewDirection;
+	answer: ReviewAnswerMode;
+}
+
+/**
+ * ReviewComponent - Flashcard review: setup, one card at a time, then a summary.
+ * Keys: Space/Enter shows the answer, 1-4 grade it, H shows the hint of a cloze card,
+ * Escape ends the session. Typed answers are checked with Enter, and Enter then takes the suggested grade.
+ */
+export function ReviewComponent({ entries, filters, preset, direction, mode, answer, onOptionsChange }: ReviewComponentProps) {
+	const { app } = useLearnLanguage();
+	const [session, setSession] = useState<RunningSession | null>(null);
+	const [summary, setSummary] = useState<ReviewSummary | null>(null);
+	const sessionCount = useRef(0);
+
+	const start = (cards: ReviewCard[], cardDirection: ReviewDirection, answerMode: ReviewAnswerMode) => {
+		sessionCount.current++;
+		setSummary(null);
+		setSession({ id: sessionCount.current, cards, direction: cardDirection, answer: answerMode });
+	};
+
+	const restart = () => {
+		setSession(null);
+		setSummary(null);
+	};
+
+	if (summary) {
+		return (
+			<ReviewSummaryPanel
+				summary={summary}
+				onOpenFile={(path) => app.workspace.openLinkText(path, "", "tab")}
+				onRestart={restart}
+			/>
+		);
+	}
+
+	if (session) {
+		return (
+			<ReviewSession
+				key={session.id}
+				cards={session.cards}
+				direction={session.direction}
+				answer={session.answer}
+				onFinish={setSummary}
+			/>
+		);
+	}
+
+	return (
+		<ReviewSetup
+			entries={entries}
+			filters={filters}
+			preset={preset}
+			direction={direction}
+			mode={mode}
+			answer={answer}
+			onStart={start}
+			onOptionsChange={onOptionsChange}
+		/>
+	);
+}
+
+interface ReviewSessionProps {
+	cards: ReviewCard[];
+	direction: ReviewDirection;
+	answer: ReviewAnswerMode;
+	onFinish: (summary: ReviewSummary) => void;
+}
+
+function ReviewSession({ cards, direction, answer, onFinish }: ReviewSessionProps) {
+	const { app, settings, schedulerService } = useLearnLanguage();
+	const rootRef = useRef<HTMLDivElement>(null);
+
+	const onGrade = useCallback(async (card: ReviewCard, grade: ReviewGrade, durationMs: number) => {
+		if (!schedulerService) return;
+		try {
+			await schedulerService.reviewCard(card, grade, { direction, durationMs });
+		} catch (error) {
+			console.error("Failed to schedule review:", error);
+			new Notice(`Could not save the review of ${card.entry.targetWord}`);
+		}
+	}, [direction, schedulerService]);
+
+	const { current, revealed, remaining, done, reveal, grade, finish, summary } = useReviewSession(cards, onGrade);
+	const [hintShown, setHintShown] = useState(false);
+	const [typed, setTyped] = useState("");
+	const [check, setCheck] = useState<AnswerCheck | null>(null);
+
+	useEffect(() => {
+		setHintShown(false);
+		setTyped("");
+		setCheck(null);
+	}, [current, remaining]);
+
+	const suggestedGrade = check ? gradeForAnswer(check) : undefined;
+
+	// Check a typed answer against the word asked for (or the cloze blanks) and show the verdict
+	const submitAnswer = () => {
+		if (!current || revealed) return;
+		const language = current.cloze || direction === "source" ? settings.targetLanguage : settings.sourceLanguage;
+		setCheck(checkAnswer(
+			typed,
+			getAcceptedAnswers(current, direction),
+			settings.typedAnswers,
+			language,
+			getLocaleCode(language)
+		));
+		reveal();
+		rootRef.current?.focus();
+	};
+
+	useEffect(() => {
+		rootRef.current?.focus();
+	}, []);
+
+	// Report the summary as of the last render once, when the session ends
+	const finishRef = useRef(() => onFinish(summary));
+	useEffect(() => {
+		finishRef.current = () => onFinish(summary);
+	});
+
+	useEffect(() => {
+		if (done) finishRef.current();
+	}, [done]);
+
+	const intervals = useMemo(() => {
+		const result = {} as Record<ReviewGrade, string>;
+		REVIEW_GRADES.forEach(g => {
+			result[g] = current && schedulerService
+				? formatInterval(schedulerService.previewCard(current, g).interval)
+				: "";
+		});
+		return result;
+	}, [current, schedulerService]);
+
+	const handleKeyDown = (e: React.KeyboardEvent) => {
+		if (e.key === "Escape") {
+			e.preventDefault();
+			finish();
+		} else if (e.key === "Enter" && revealed && suggestedGrade) {
+			e.preventDefault();
+			grade(suggestedGrade);
+		} else if ((e.key === " " || e.key === "Enter") && answer === "reveal") {
+			e.preventDefault();
+			reveal();
+		} else if (e.key.toLowerCase() === "h" && current?.cloze && !revealed) {
+			e.preventDefault();
+			setHintShown(true);
+		} else if (revealed) {
+			const index = parseInt(e.key, 10) - 1;
+			if (index >= 0 && index < REVIEW_GRADES.length) {
+				e.preventDefault();
+				grade(REVIEW_GRADES[index]);
+			}
+		}
+	};
+
+	if (!current) return null;
+
+	return (
+		<div className="ll-review-session" tabIndex={0} ref={rootRef} onKeyDown={handleKeyDown}>
+			<div className="ll-review-progress">
+				<span>{remaining} left</span>
+				<button className="ll-review-end" onClick={finish} title="End session (Escape)">
+					End session
+				</button>
+			</div>
+			<FlashCard
+				card={current}
+				direction={direction}
+				revealed={revealed}
+				hintShown={hintShown}
+				intervals={intervals}
+				answerInput={answer === "type" ? {
+					value: typed,
+					placeholder: current.cloze || direction === "source" ? settings.targetLanguage : settings.sourceLanguage,
+					onChange: setTyped,
+					onSubmit: submitAnswer
+				} : undefined}
+				feedback={check ? { typed, check } : undefined}
+				suggestedGrade={suggestedGrade}
+				onReveal={() => {
+					reveal();
+					rootRef.current?.focus();
+				}}
+				onShowHint={() => {
+					setHintShown(true);
+					rootRef.current?.focus();
+				}}
+				onGrade={(g) => {
+					grade(g);
+					rootRef.current?.focus();
+				}}
+				onOpenFile={(path) => app.workspace.openLinkText(path, "", "tab")}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+	DictionaryEntry,
+	FilterPreset,
+	FilterState,
+	ReviewAnswerMode,
+	ReviewCard,
+	ReviewDirection,
+	ReviewMode,
+	ReviewSessionOptions,
+	SchedulingState
+} from "../../types";
+import { useLearnLanguage } from "../../context";
+import { getPresetFilterState } from "../../utils/presets";
+import { buildReviewQueue, toDateKey } from "../../utils/scheduler";
+import { buildClozeQueue } from "../../utils/cloze";
+
+// Value of the source dropdown for the filters the session was opened with
+const CURRENT_FILTERS = "__current__";
+
+interface ReviewSetupProps {
+	entries: DictionaryEntry[];
+	/** Filters the session was opened with (e.g. from a Dictionary view) */
+	filters?: Partial<FilterState>;
+	preset?: string;
+	direction?: ReviewDirection;
+	mode?: ReviewMode;
+	answer?: ReviewAnswerMode;
+	onStart: (cards: ReviewCard[], direction: ReviewDirection, answer: ReviewAnswerMode) => void;
+	/** Source or direction changed */
+	onOptionsChange?: (options: ReviewSessionOptions) => void;
+}
+
+/**
+ * Picks the cards of a review session: a preset or the given filters, words or cloze examples,
+ * the direction, revealed or typed answers and new cards
+ */
+export function ReviewSetup({
+	entries,
+	filters,
+	preset,
+	direction = "target",
+	mode = "words",
+	answer = "reveal",
+	onStart,
+	onOptionsChange
+}: ReviewSetupProps) {
+	const { settings, filterService, presetService, schedulerService } = useLearnLanguage();
+	const [presets, setPresets] = useState<FilterPreset[]>(() => presetService?.getPresets() ?? []);
+	const hasFilters = !!filters;
+	const [source, setSource] = useState(preset ?? (hasFilters ? CURRENT_FILTERS : ""));
+	const [cardDirection, setCardDirection] = useState<ReviewDirection>(direction);
+	const [cardMode, setCardMode] = useState<ReviewMode>(mode);
+	const [answerMode, setAnswerMode] = useState<ReviewAnswerMode>(answer);
+	const [newLimit, setNewLimit] = useState(settings.scheduler.newCardsPerSession);
+	// Cloze schedules live in plugin data and are read once the cloze mode is picked
+	const [clozeStates, setClozeStates] = useState<Record<string, SchedulingState> | null>(null);
+
+	useEffect(() => {
+		if (cardMode !== "cloze" || clozeStates || !schedulerService) return;
+		let cancelled = false;
+		void schedulerService.getClozeStates().then(states => {
+			if (!cancelled) setClozeStates({ ...states });
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [cardMode, clozeStates, schedulerService]);
+
+	useEffect(() => {
+		if (!presetService) return;
+		return presetService.onChange(() => setPresets(presetService.getPresets()));
+	}, [presetService]);
+
+	// Keep the ref updated with the latest onOptionsChange
+	const onOptionsChangeRef = useRef(onOptionsChange);
+	useEffect(() => {
+		onOptionsChangeRef.current = onOptionsChange;
+	});
+
+	useEffect(() => {
+		onOptionsChangeRef.current?.({
+			filters: source === CURRENT_FILTERS ? filters : undefined,
+			preset: source && source !== CURRENT_FILTERS ? source : undefined,
+			direction: cardDirection,
+			mode: cardMode,
+			answer: answerMode
+		});
+	}, [source, filters, cardDirection, cardMode, answerMode]);
+
+	const cards = useMemo(() => {
+		let sessionFilters: Partial<FilterState> = {};
+		if (source === CURRENT_FILTERS) {
+			sessionFilters = filters ?? {};
+		} else if (source) {
+			const picked = presets.find(p => p.name.toLowerCase() === source.toLowerCase());
+			if (picked) sessionFilters = getPresetFilterState(picked);
+		}
+		const matching = filterService.applyFilters(entries, sessionFilters);
+		const today = toDateKey(new Date());
+		if (cardMode === "cloze") {
+			return clozeStates ? buildClozeQueue(matching, clozeStates, newLimit, today) : [];
+		}
+		return buildReviewQueue(matching, newLimit, today);
+	}, [cardMode, clozeStates, entries, filterService, filters, newLimit, presets, source]);
+
+	const newCount = cards.filter(card => card.isNew).length;
+	const dueCount = cards.length - newCount;
+
+	return (
+		<div className="ll-review-setup">
+			<h2>Review session</h2>
+			<div className="ll-filter-row">
+				<div className="ll-filter-item">
+					<span className="ll-filter-label">Cards from:</span>
+					<select
+						className="dropdown"
+						value={source}
+						onChange={(e) => setSource(e.target.value)}
+						aria-label="Cards from"
+					>
+						<option value="">All entries</option>
+						{hasFilters && <option value={CURRENT_FILTERS}>Current filters</option>}
+						{presets.map(p => (
+							<option key={p.name} value={p.name}>Preset: {p.name}</option>
+						))}
+					</select>
+				</div>
+				<div className="ll-filter-item">
+					<span className="ll-filter-label">Cards:</span>
+					<select
+						className="dropdown"
+						value={cardMode}
+						onChange={(e) => setCardMode(e.target.value as ReviewMode)}
+						aria-label="Cards"
+					>
+						<option value="words">Words</option>
+						<option value="cloze">Cloze (examples)</option>
+					</select>
+				</div>
+				{cardMode === "words" && (
+					<div className="ll-filter-item">
+						<span className="ll-filter-label">Direction:</span>
+						<select
+							className="dropdown"
+							value={cardDirection}
+							onChange={(e) => setCardDirection(e.target.value as ReviewDirection)}
+							aria-label="Direction"
+						>
+							<option value="target">{settings.targetLanguage} → {settings.sourceLanguage}</option>
+							<option value="source">{settings.sourceLanguage} → {settings.targetLanguage}</option>
+						</select>
+					</div>
+				)}
+				<div className="ll-filter-item">
+					<span className="ll-filter-label">Answer:</span>
+					<select
+						className="dropdown"
+						value={answerMode}
+						onChange={(e) => setAnswerMode(e.target.value as ReviewAnswerMode)}
+						aria-label="Answer"
+					>
+						<option value="reveal">Reveal and grade</option>
+						<option value="type">Type the answer</option>
+					</select>
+				</div>
+				<div className="ll-filter-item">
+					<span className="ll-filter-label">New cards:</span>
+					<input
+						type="number"
+						min={0}
+						className="ll-review-new-limit"
+						value={newLimit}
+						onChange={(e) => setNewLimit(Math.max(0, parseInt(e.target.value, 10) || 0))}
+						aria-label="New cards"
+					/>
+				</div>
+			</div>
+			<p className="ll-review-counts">
+				{dueCount} due · {newCount} new
+			</p>
+			<button
+				className="mod-cta"
+				disabled={cards.length === 0}
+				onClick={() => onStart(cards, cardDirection, answerMode)}
+			>
+				▶ Start review
+			</button>
+			{cards.length === 0 && (
+				<p className="ll-no-results">Nothing to review with these cards. Pick another source or add new cards.</p>
+			)}
+		</div>
+	);
+}
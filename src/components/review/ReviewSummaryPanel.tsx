@@ -0,0 +1,61 @@
+import React from "react";
+import { REVIEW_GRADES, ReviewSummary } from "../../types";
+
+interface ReviewSummaryPanelProps {
+	summary: ReviewSummary;
+	onOpenFile: (path: string) => void;
+	onRestart: () => void;
+}
+
+/**
+ * End-of-session summary: answers per grade, time spent and the words to look at again
+ */
+export function ReviewSummaryPanel({ summary, onOpenFile, onRestart }: ReviewSummaryPanelProps) {
+	const minutes = Math.floor(summary.durationMs / 60000);
+	const seconds = Math.round((summary.durationMs % 60000) / 1000);
+	const remembered = summary.reviewed - summary.counts.again;
+	const retention = summary.reviewed > 0 ? Math.round((remembered / summary.reviewed) * 100) : 0;
+
+	return (
+		<div className="ll-review-summary">
+			<h2>Session complete</h2>
+			<p>
+				{summary.reviewed} {summary.reviewed === 1 ? "card" : "cards"} in {minutes > 0 ? `${minutes} min ` : ""}{seconds} s
+				{summary.reviewed > 0 && ` · ${retention}% remembered`}
+			</p>
+			<table className="ll-table ll-review-summary-table">
+				<tbody>
+					{REVIEW_GRADES.map(grade => (
+						<tr key={grade}>
+							<td className={`ll-grade-${grade}`}>{grade}</td>
+							<td>{summary.counts[grade]}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+			{summary.forgotten.length > 0 && (
+				<div className="ll-review-forgotten">
+					<h3>To look at again</h3>
+					<ul>
+						{summary.forgotten.map(entry => (
+							<li key={entry.file.path}>
+								<a
+									className="internal-link"
+									href={entry.file.path}
+									onClick={(e) => {
+										e.preventDefault();
+										onOpenFile(entry.file.path);
+									}}
+								>
+									{entry.targetWord}
+								</a>
+								{entry.sourceWord && ` — ${entry.sourceWord}`}
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+			<button className="mod-cta" onClick={onRestart}>New session</button>
+		</div>
+	);
+}
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from "react";
+import { AnswerCheck } from "../../types";
+
+interface TypedAnswerInputProps {
+	value: string;
+	placeholder: string;
+	/** Focus the box when it appears (default true) */
+	autoFocus?: boolean;
+	onChange: (value: string) => void;
+	onSubmit: () => void;
+}
+
+/**
+ * Answer box of a typed-answer card; Enter checks the answer
+ */
+export function TypedAnswerInput({ value, placeholder, autoFocus = true, onChange, onSubmit }: TypedAnswerInputProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	useEffect(() => {
+		if (autoFocus) inputRef.current?.focus();
+	}, [autoFocus]);
+
+	return (
+		<div className="ll-typed-answer">
+			<input
+				ref={inputRef}
+				type="text"
+				value={value}
+				placeholder={placeholder}
+				autoComplete="off"
+				spellCheck={false}
+				onChange={(e) => onChange(e.target.value)}
+				onKeyDown={(e) => {
+					// Keep typing keys away from the session shortcuts; Escape still ends the session
+					if (e.key !== "Escape") e.stopPropagation();
+					if (e.key === "Enter") {
+						e.preventDefault();
+						onSubmit();
+					}
+				}}
+				aria-label="Answer"
+			/>
+			<button className="mod-cta" onClick={onSubmit}>Check</button>
+		</div>
+	);
+}
+
+const REASONS: Record<NonNullable<AnswerCheck["reason"]>, string> = {
+	accents: "check the accents",
+	case: "check upper and lower case",
+	article: "check the article",
+	typo: "check the spelling",
+};
+
+interface AnswerFeedbackProps {
+	typed: string;
+	check: AnswerCheck;
+}
+
+/**
+ * Verdict of a typed answer, with the accepted answer when it was not exactly right
+ */
+export function AnswerFeedback({ typed, check }: AnswerFeedbackProps) {
+	return (
+		<div className={`ll-answer-feedback ll-answer-${check.verdict}`}>
+			{check.verdict === "correct" && <span>✓ Correct</span>}
+			{check.verdict === "almost" && (
+				<span>≈ Almost right{check.reason ? `: ${REASONS[check.reason]}` : ""}</span>
+			)}
+			{check.verdict === "wrong" && <span>✗ Not quite</span>}
+			{check.verdict !== "correct" && (
+				<div className="ll-answer-comparison">
+					<del>{typed || "(no answer)"}</del> → <strong>{check.expected}</strong>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,5 @@
+export { ReviewComponent } from "./ReviewComponent";
+export { ReviewSetup } from "./ReviewSetup";
+export { FlashCard } from "./FlashCard";
+export { ReviewSummaryPanel } from "./ReviewSummaryPanel";
+export type { ReviewComponentProps } from "./ReviewComponent";
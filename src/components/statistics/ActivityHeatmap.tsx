@@ -0,0 +1,45 @@
+import React, { useMemo } from "react";
+import { addDays } from "../../utils/scheduler";
+
+// Weeks shown, ending with the current one
+const WEEKS = 53;
+
+interface ActivityHeatmapProps {
+	/** Reviews per day, by YYYY-MM-DD */
+	activity: Record<string, number>;
+	today: string;
+}
+
+/**
+ * Reviews per day of the last year, one column per week (Monday first)
+ */
+export function ActivityHeatmap({ activity, today }: ActivityHeatmapProps) {
+	const cells = useMemo(() => {
+		// Monday of the first week
+		const weekday = (new Date(`${today}T00:00:00`).getDay() + 6) % 7;
+		const start = addDays(today, -(WEEKS - 1) * 7 - weekday);
+		const days: string[] = [];
+		for (let day = start; day <= today; day = addDays(day, 1)) {
+			days.push(day);
+		}
+		return days;
+	}, [today]);
+
+	const max = Math.max(1, ...cells.map(day => activity[day] ?? 0));
+
+	return (
+		<div className="ll-stats-heatmap">
+			{cells.map(day => {
+				const count = activity[day] ?? 0;
+				const level = count === 0 ? 0 : Math.min(4, Math.ceil((count / max) * 4));
+				return (
+					<div
+						key={day}
+						className={`ll-stats-heatmap-cell ll-heat-${level}`}
+						title={`${day}: ${count} ${count === 1 ? "review" : "reviews"}`}
+					/>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,37 @@
+import React from "react";
+import { ReviewBreakdownRow } from "../../types";
+
+interface BreakdownTableProps {
+	title: string;
+	rows: ReviewBreakdownRow[];
+}
+
+/**
+ * Reviews and retention per value of an entry field
+ */
+export function BreakdownTable({ title, rows }: BreakdownTableProps) {
+	return (
+		<table className="ll-table ll-stats-breakdown">
+			<thead>
+				<tr>
+					<th>{title}</th>
+					<th>Reviews</th>
+					<th>Retention</th>
+				</tr>
+			</thead>
+			<tbody>
+				{rows.length === 0 ? (
+					<tr>
+						<td colSpan={3} className="ll-no-results">No reviews</td>
+					</tr>
+				) : rows.map(row => (
+					<tr key={row.value}>
+						<td>{row.value}</td>
+						<td>{row.reviews}</td>
+						<td>{Math.round(row.retention * 100)}%</td>
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
@@ -0,0 +1,27 @@
+import React from "react";
+
+interface DayBarChartProps {
+	days: { date: string; count: number }[];
+	/** Describes a bar in its tooltip, e.g. "reviews" */
+	unit: string;
+}
+
+/**
+ * Bar per day, scaled to the busiest day
+ */
+export function DayBarChart({ days, unit }: DayBarChartProps) {
+	const max = Math.max(1, ...days.map(day => day.count));
+
+	return (
+		<div className="ll-stats-bars">
+			{days.map(day => (
+				<div key={day.date} className="ll-stats-bar" title={`${day.date}: ${day.count} ${unit}`}>
+					<div
+						className="ll-stats-bar-fill"
+						style={{ height: `${(day.count / max) * 100}%` }}
+					/>
+				</div>
+			))}
+		</div>
+	);
+}
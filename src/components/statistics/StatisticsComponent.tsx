@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from "react";
+import { DictionaryEntry, ReviewLogEntry } from "../../types";
+import { computeReviewStatistics } from "../../utils/statistics";
+import { toDateKey } from "../../utils/scheduler";
+import { DayBarChart } from "./DayBarChart";
+import { ActivityHeatmap } from "./ActivityHeatmap";
+import { BreakdownTable } from "./BreakdownTable";
+
+const PERIODS = [7, 30, 90, 365];
+const FORECAST_DAYS = 30;
+
+export interface StatisticsComponentProps {
+	log: ReviewLogEntry[];
+	entries: DictionaryEntry[];
+	/** Show the refresh button */
+	showRefresh?: boolean;
+	onRefresh?: () => Promise<void>;
+}
+
+/**
+ * StatisticsComponent - Study history from the review log: activity, retention,
+ * streaks, upcoming due cards and a breakdown by entry type, context and rating
+ */
+export function StatisticsComponent({ log, entries, showRefresh = true, onRefresh }: StatisticsComponentProps) {
+	const [period, setPeriod] = useState(30);
+	const today = toDateKey(new Date());
+
+	const stats = useMemo(
+		() => computeReviewStatistics(log, entries, today, period, FORECAST_DAYS),
+		[log, entries, today, period]
+	);
+
+	const dueToday = stats.forecast[0]?.count ?? 0;
+	const dueSoon = stats.forecast.reduce((total, day) => total + day.count, 0);
+	const minutes = Math.round(stats.durationMs / 60000);
+
+	return (
+		<div className="ll-statistics-component">
+			<div className="ll-filter-row">
+				<div className="ll-filter-item">
+					<span className="ll-filter-label">Period:</span>
+					<select
+						className="dropdown"
+						value={period}
+						onChange={(e) => setPeriod(parseInt(e.target.value, 10))}
+						aria-label="Period"
+					>
+						{PERIODS.map(days => (
+							<option key={days} value={days}>Last {days} days</option>
+						))}
+					</select>
+				</div>
+				{showRefresh && onRefresh && (
+					<button className="mod-cta" onClick={() => void onRefresh()} aria-label="Refresh">
+						🔄 Refresh
+					</button>
+				)}
+			</div>
+
+			<div className="ll-stats-summary">
+				<div className="ll-stats-tile">
+					<span className="ll-stats-value">{stats.reviews}</span>
+					<span className="ll-stats-label">reviews ({minutes} min)</span>
+				</div>
+				<div className="ll-stats-tile">
+					<span className="ll-stats-value">
+						{stats.retention === null ? "–" : `${Math.round(stats.retention * 100)}%`}
+					</span>
+					<span className="ll-stats-label">retention</span>
+				</div>
+				<div className="ll-stats-tile">
+					<span className="ll-stats-value">{stats.currentStreak}</span>
+					<span className="ll-stats-label">day streak (best {stats.longestStreak})</span>
+				</div>
+				<div className="ll-stats-tile">
+					<span className="ll-stats-value">{dueToday}</span>
+					<span className="ll-stats-label">due today</span>
+				</div>
+			</div>
+
+			<h3>Reviews per day</h3>
+			<DayBarChart days={stats.reviewsPerDay} unit="reviews" />
+
+			<h3>Activity</h3>
+			<ActivityHeatmap activity={stats.activity} today={today} />
+
+			<h3>Due in the next {FORECAST_DAYS} days ({dueSoon})</h3>
+			<DayBarChart days={stats.forecast} unit="cards due" />
+
+			<h3>Breakdown</h3>
+			<div className="ll-stats-breakdowns">
+				<BreakdownTable title="Type" rows={stats.byType} />
+				<BreakdownTable title="Context" rows={stats.byContext} />
+				<BreakdownTable title="Rating" rows={stats.byRating} />
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,5 @@
+export { StatisticsComponent } from "./StatisticsComponent";
+export { DayBarChart } from "./DayBarChart";
+export { ActivityHeatmap } from "./ActivityHeatmap";
+export { BreakdownTable } from "./BreakdownTable";
+export type { StatisticsComponentProps } from "./StatisticsComponent";
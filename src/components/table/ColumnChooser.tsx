@@ -0,0 +1,62 @@
+import React, { useCallback } from "react";
+import { Menu } from "obsidian";
+import { TableColumn } from "../../types";
+import { useLearnLanguage } from "../../context";
+import { FIELD_COLUMN_PREFIX, getColumnLabel } from "../../utils/columns";
+
+interface ColumnChooserProps {
+	/** Visible columns */
+	columns: TableColumn[];
+	/** Every column that can be shown */
+	availableColumns: string[];
+	onToggleColumn: (id: string) => void;
+	onReset: () => void;
+}
+
+/**
+ * Button opening a menu to show and hide table columns
+ */
+export function ColumnChooser({ columns, availableColumns, onToggleColumn, onReset }: ColumnChooserProps) {
+	const { settings } = useLearnLanguage();
+
+	const openMenu = useCallback((e: React.MouseEvent) => {
+		const languages = { target: settings.targetLanguage, source: settings.sourceLanguage };
+		const menu = new Menu();
+
+		availableColumns.forEach((id, index) => {
+			const visible = columns.some(column => column.id === id);
+			// Note fields are listed after the built-in columns
+			const isFirstField = id.startsWith(FIELD_COLUMN_PREFIX) &&
+				!availableColumns[index - 1]?.startsWith(FIELD_COLUMN_PREFIX);
+			if (isFirstField) menu.addSeparator();
+
+			menu.addItem(item => item
+				.setTitle(getColumnLabel(id, languages))
+				.setChecked(visible)
+				// The last visible column cannot be hidden
+				.setDisabled(visible && columns.length === 1)
+				.onClick(() => onToggleColumn(id))
+			);
+		});
+
+		menu.addSeparator();
+		menu.addItem(item => item
+			.setTitle("Reset columns")
+			.setIcon("rotate-ccw")
+			.onClick(onReset)
+		);
+		menu.showAtMouseEvent(e.nativeEvent);
+	}, [availableColumns, columns, onReset, onToggleColumn, settings]);
+
+	return (
+		<button
+			type="button"
+			className="ll-column-chooser"
+			onClick={openMenu}
+			aria-label="Choose columns"
+			title="Show, hide and reset columns"
+		>
+			Columns
+		</button>
+	);
+}
@@ -1,6 +1,14 @@
-import React, { useCallback, useState } from "react";
-import { DictionaryEntry } from "../../types";
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { Menu, Notice } from "obsidian";
+import { AnswerCheck, DictionaryEntry, FilterState, ReviewDirection, TableLayout, TableSort, getLocaleCode } from "../../types";
 import { useLearnLanguage } from "../../context";
+import { SearchOptions } from "../../utils/searchKeys";
+import { MIN_COLUMN_WIDTH, getColumnLabel, getColumnText, getDefaultTableLayout } from "../../utils/columns";
+import { examplesHtml } from "../../utils/examples";
+import { checkAnswer, getAcceptedAnswers, gradeForAnswer } from "../../utils/answers";
+import { intervalToRevision } from "../../utils/scheduler";
+import { AnswerFeedback, TypedAnswerInput } from "../review/TypedAnswer";
+import { HighlightedText } from "./HighlightedText";
 
 // Available revision options
 const REVISION_OPTIONS = ["new", "1", "2", "3", "4", "5"];
@@ -8,10 +16,29 @@ const REVISION_OPTIONS = ["new", "1", "2", "3", "4", "5"];
 // Available rating options (star patterns)
 const RATING_OPTIONS = ["", "#⭐", "#⭐⭐", "#⭐⭐⭐"];
 
+// Width given to columns without one once the table has fixed widths
+const DEFAULT_COLUMN_WIDTH = 150;
+
 interface DictionaryTableProps {
 	entries: DictionaryEntry[];
 	isStudying: boolean;
 	showSourceFirst: boolean;
+	/** Study rows ask for a typed answer, graded and scheduled once checked */
+	typeAnswers?: boolean;
+	/** Active filters; matched parts of the words are highlighted */
+	filters?: Partial<FilterState>;
+	/** Visible columns, their widths and the sort (defaults to the six standard columns) */
+	layout?: TableLayout;
+	/** Header click: cycle the sort of a column */
+	onToggleSort?: (column: string) => void;
+	/** Sort picked from a header menu */
+	onSortChange?: (sort: TableSort | undefined) => void;
+	/** Header dropped on another header */
+	onMoveColumn?: (id: string, toIndex: number) => void;
+	/** Column hidden from its header menu */
+	onHideColumn?: (id: string) => void;
+	/** Widths after a resize, keyed by column id */
+	onResizeColumns?: (widths: Record<string, number>) => void;
 	/** Callback when an entry field is updated */
 	onEntryUpdate?: (filePath: string, field: string, value: string) => void;
 }
@@ -23,16 +50,136 @@ export function DictionaryTable({
 	entries,
 	isStudying,
 	showSourceFirst,
+	typeAnswers = false,
+	filters,
+	layout,
+	onToggleSort,
+	onSortChange,
+	onMoveColumn,
+	onHideColumn,
+	onResizeColumns,
 	onEntryUpdate
 }: DictionaryTableProps) {
-	const { app, settings, termService } = useLearnLanguage();
+	const { app, settings, filterService, termService } = useLearnLanguage();
 	const targetLang = settings.targetLanguage;
 	const sourceLang = settings.sourceLanguage;
+	const tableRef = useRef<HTMLTableElement>(null);
+	const draggedColumn = useRef<string | null>(null);
+	// Widths while a resize is in progress; committed on mouse up
+	const [draftWidths, setDraftWidths] = useState<Record<string, number> | null>(null);
+
+	const columns = (layout ?? getDefaultTableLayout()).columns;
+	const sort = layout?.sort;
+
+	// Rows only re-render when the visible columns change, not their widths
+	const columnKey = columns.map(column => column.id).join("\n");
+	const columnIds = useMemo(() => columnKey.split("\n"), [columnKey]);
 
 	const openFile = useCallback((path: string) => {
 		app.workspace.openLinkText(path, "");
 	}, [app]);
 
+	const highlight = useMemo<WordHighlight>(() => ({
+		targetWord: filters?.targetWord,
+		sourceWord: filters?.sourceWord,
+		targetOptions: filterService.getSearchOptions(filters ?? {}, "targetWord"),
+		sourceOptions: filterService.getSearchOptions(filters ?? {}, "sourceWord"),
+	}), [filters, filterService]);
+
+	const startResize = useCallback((e: React.MouseEvent, id: string) => {
+		const table = tableRef.current;
+		if (!table || !onResizeColumns) return;
+		e.preventDefault();
+		e.stopPropagation();
+
+		// Every column gets its rendered width so the others do not jump once widths are fixed
+		const startWidths: Record<string, number> = {};
+		table.querySelectorAll<HTMLTableCellElement>("th[data-column]").forEach(th => {
+			startWidths[th.dataset.column ?? ""] = th.getBoundingClientRect().width;
+		});
+		const startX = e.clientX;
+		const startWidth = startWidths[id] ?? DEFAULT_COLUMN_WIDTH;
+		let current = startWidths;
+		const doc = table.ownerDocument;
+
+		const handleMove = (event: MouseEvent) => {
+			current = { ...startWidths, [id]: Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX) };
+			setDraftWidths(current);
+		};
+		const handleUp = () => {
+			doc.removeEventListener("mousemove", handleMove);
+			doc.removeEventListener("mouseup", handleUp);
+			setDraftWidths(null);
+			onResizeColumns(current);
+		};
+
+		doc.addEventListener("mousemove", handleMove);
+		doc.addEventListener("mouseup", handleUp);
+		setDraftWidths(startWidths);
+	}, [onResizeColumns]);
+
+	// Double-clicking a resize handle lets the column size to its content again
+	const resetWidth = useCallback((e: React.MouseEvent, id: string) => {
+		e.stopPropagation();
+		if (!onResizeColumns) return;
+		const widths: Record<string, number> = {};
+		for (const column of columns) {
+			if (column.width && column.id !== id) widths[column.id] = column.width;
+		}
+		onResizeColumns(widths);
+	}, [columns, onResizeColumns]);
+
+	const openHeaderMenu = useCallback((e: React.MouseEvent, id: string, index: number) => {
+		if (!onSortChange && !onMoveColumn && !onHideColumn) return;
+		e.preventDefault();
+
+		const menu = new Menu();
+		if (onSortChange) {
+			menu.addItem(item => item
+				.setTitle("Sort ascending")
+				.setIcon("arrow-up")
+				.setChecked(sort?.column === id && sort.direction === "asc")
+				.onClick(() => onSortChange({ column: id, direction: "asc" }))
+			);
+			menu.addItem(item => item
+				.setTitle("Sort descending")
+				.setIcon("arrow-down")
+				.setChecked(sort?.column === id && sort.direction === "desc")
+				.onClick(() => onSortChange({ column: id, direction: "desc" }))
+			);
+			if (sort) {
+				menu.addItem(item => item
+					.setTitle("Clear sort")
+					.onClick(() => onSortChange(undefined))
+				);
+			}
+			menu.addSeparator();
+		}
+		if (onMoveColumn) {
+			menu.addItem(item => item
+				.setTitle("Move left")
+				.setIcon("arrow-left")
+				.setDisabled(index === 0)
+				.onClick(() => onMoveColumn(id, index - 1))
+			);
+			menu.addItem(item => item
+				.setTitle("Move right")
+				.setIcon("arrow-right")
+				.setDisabled(index === columns.length - 1)
+				.onClick(() => onMoveColumn(id, index + 1))
+			);
+		}
+		if (onHideColumn) {
+			menu.addItem(item => item
+				.setTitle("Hide column")
+				.setIcon("eye-off")
+				.setDisabled(columns.length === 1)
+				.onClick(() => onHideColumn(id))
+			);
+		}
+		menu.showAtMouseEvent(e.nativeEvent);
+	}, [columns.length, onHideColumn, onMoveColumn, onSortChange, sort]);
+
 	if (entries.length === 0) {
 		return (
 			<div className="ll-no-results">
@@ -41,17 +188,72 @@ export function DictionaryTable({
 		);
 	}
 
+	// Once a column has been resized, every column gets a width and the table stops stretching them
+	const isFixed = draftWidths !== null || columns.some(column => column.width);
+	const widthOf = (id: string, width?: number) =>
+		draftWidths?.[id] ?? width ?? DEFAULT_COLUMN_WIDTH;
+	const tableStyle = isFixed
+		? { width: `${columns.reduce((total, column) => total + widthOf(column.id, column.width), 0)}px` }
+		: undefined;
+	const languages = { target: targetLang, source: sourceLang };
+
 	return (
-		<table className="ll-table">
+		<table
+			ref={tableRef}
+			className={`ll-table ${isFixed ? "ll-table-fixed" : ""}`}
+			style={isStudying ? undefined : tableStyle}
+		>
 			{!isStudying && (
 				<thead>
 					<tr>
-						<th>{targetLang}</th>
-						<th>{sourceLang}</th>
-						<th>Type</th>
-						<th>Context</th>
-						<th>Rating</th>
-						<th>Examples</th>
+						{columns.map((column, index) => {
+							const sorted = sort?.column === column.id ? sort.direction : undefined;
+							return (
+								<th
+									key={column.id}
+									data-column={column.id}
+									className={`ll-th ${onToggleSort ? "ll-th-sortable" : ""} ${sorted ? "ll-th-sorted" : ""}`}
+									style={isFixed ? { width: `${widthOf(column.id, column.width)}px` } : undefined}
+									aria-sort={sorted === "asc" ? "ascending" : sorted === "desc" ? "descending" : undefined}
+									title={onToggleSort ? "Click to sort, drag to move, right-click for more" : undefined}
+									onClick={() => onToggleSort?.(column.id)}
+									onContextMenu={(e) => openHeaderMenu(e, column.id, index)}
+									draggable={Boolean(onMoveColumn)}
+									onDragStart={(e) => {
+										draggedColumn.current = column.id;
+										e.dataTransfer.effectAllowed = "move";
+									}}
+									onDragOver={(e) => {
+										if (draggedColumn.current) e.preventDefault();
+									}}
+									onDrop={(e) => {
+										e.preventDefault();
+										const dragged = draggedColumn.current;
+										draggedColumn.current = null;
+										if (dragged && dragged !== column.id) onMoveColumn?.(dragged, index);
+									}}
+									onDragEnd={() => {
+										draggedColumn.current = null;
+									}}
+								>
+									<span className="ll-th-label">{getColumnLabel(column.id, languages)}</span>
+									{sorted && (
+										<span className="ll-sort-indicator" aria-hidden="true">
+											{sorted === "asc" ? "▲" : "▼"}
+										</span>
+									)}
+									{onResizeColumns && (
+										<span
+											className="ll-column-resizer"
+											onMouseDown={(e) => startResize(e, column.id)}
+											onClick={(e) => e.stopPropagation()}
+											onDoubleClick={(e) => resetWidth(e, column.id)}
+											aria-hidden="true"
+										/>
+									)}
+								</th>
+							);
+						})}
 					</tr>
 				</thead>
 			)}
@@ -61,13 +263,17 @@ export function DictionaryTable({
 						<StudyRow
 							key={entry.file.path}
 							entry={entry}
+							columnCount={columnIds.length}
 							showSourceFirst={showSourceFirst}
+							typeAnswer={typeAnswers}
 							termService={termService}
 						/>
 					) : (
 						<NormalRow
 							key={entry.file.path}
 							entry={entry}
+							columns={columnIds}
+							highlight={highlight}
 							onOpenFile={openFile}
 						/>
 					)
@@ -77,38 +283,21 @@ export function DictionaryTable({
 	);
 }
 
+interface WordHighlight {
+	targetWord?: string;
+	sourceWord?: string;
+	targetOptions: SearchOptions;
+	sourceOptions: SearchOptions;
+}
+
 interface NormalRowProps {
 	entry: DictionaryEntry;
+	/** Ids of the visible columns, in order */
+	columns: string[];
+	highlight: WordHighlight;
 	onOpenFile: (path: string) => void;
 }
 
-function escapeHtml(text: string): string {
-	return text
-		.replace(/&/g, "&amp;")
-		.replace(/</g, "&lt;")
-		.replace(/>/g, "&gt;")
-		.replace(/\"/g, "&quot;")
-		.replace(/'/g, "&#039;");
-}
-
-function examplesHtml(input?: string): string {
-	if (!input) return "";
-
-	// Normalize <br> variants to newlines for easier processing
-	const normalized = input.replace(/<br\s*\/?>/gi, "\n");
-	const escaped = escapeHtml(normalized);
-
-	// Minimal emphasis:
-	// - *text* -> <em>text</em>
-	// - _text_ -> <em>text</em>
-	// Avoid converting underscores inside words like "dès_lors".
-	let emphasized = escaped.replace(/\*([^*\n]+)\*/g, "<em>$1</em>");
-	emphasized = emphasized.replace(/(^|[^\w])_([^_\n]+)_(?=[^\w]|$)/g, "$1<em>$2</em>");
-
-	// Wrap in a span like the legacy DOM and restore <br>
-	return `<span>${emphasized.replace(/\n/g, "<br>")}</span>`;
-}
-
 function tagsHtml(input?: string): React.ReactNode {
 	if (!input) return null;
 
@@ -138,7 +327,8 @@ function tagsHtml(input?: string): React.ReactNode {
 	);
 }
 
-function NormalRow({ entry, onOpenFile }: NormalRowProps) {
+// Rows are memoized so index updates only re-render the entries that changed
+const NormalRow = React.memo(function NormalRow({ entry, columns, highlight, onOpenFile }: NormalRowProps) {
 	const { app } = useLearnLanguage();
 
 	const hasMetadataMenu = Boolean(
@@ -167,77 +357,135 @@ function NormalRow({ entry, onOpenFile }: NormalRowProps) {
 		onOpenFile(entry.file.path);
 	}, [entry.file.path, onOpenFile]);
 
-	return (
-		<tr>
-			<td>
-				<a
-					className="internal-link"
-					href={entry.file.path}
-					onClick={handleClick}
-				>
-					{entry.file.basename}
-				</a>
-				{hasMetadataMenu && (
-					<a
-						className="metadata-menu fileclass-icon"
-						onClick={openMetadataMenuFieldsModal}
-						aria-label="Open Metadata Menu fields"
-					>
-						<svg
-							xmlns="http://www.w3.org/2000/svg"
-							width="24"
-							height="24"
-							viewBox="0 0 24 24"
-							fill="none"
-							stroke="currentColor"
-							strokeWidth="2"
-							strokeLinecap="round"
-							strokeLinejoin="round"
-							className="svg-icon lucide-clipboard-list"
+	const renderCell = (id: string) => {
+		switch (id) {
+			case "target":
+				return (
+					<td key={id}>
+						<a
+							className="internal-link"
+							href={entry.file.path}
+							onClick={handleClick}
 						>
-							<rect x="8" y="2" width="8" height="4" rx="1" ry="1"></rect>
-							<path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"></path>
-							<path d="M12 11h4"></path>
-							<path d="M12 16h4"></path>
-							<path d="M8 11h.01"></path>
-							<path d="M8 16h.01"></path>
-						</svg>
-					</a>
-				)}
-
+							<HighlightedText
+								text={entry.file.basename}
+								query={highlight.targetWord}
+								options={highlight.targetOptions}
+							/>
+						</a>
+						{hasMetadataMenu && (
+							<a
+								className="metadata-menu fileclass-icon"
+								onClick={openMetadataMenuFieldsModal}
+								aria-label="Open Metadata Menu fields"
+							>
+								<svg
+									xmlns="http://www.w3.org/2000/svg"
+									width="24"
+									height="24"
+									viewBox="0 0 24 24"
+									fill="none"
+									stroke="currentColor"
+									strokeWidth="2"
+									strokeLinecap="round"
+									strokeLinejoin="round"
+									className="svg-icon lucide-clipboard-list"
+								>
+									<rect x="8" y="2" width="8" height="4" rx="1" ry="1"></rect>
+									<path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"></path>
+									<path d="M12 11h4"></path>
+									<path d="M12 16h4"></path>
+									<path d="M8 11h.01"></path>
+									<path d="M8 16h.01"></path>
+								</svg>
+							</a>
+						)}
+					</td>
+				);
+			case "source":
+				return (
+					<td key={id}>
+						<HighlightedText
+							text={entry.sourceWord}
+							query={highlight.sourceWord}
+							options={highlight.sourceOptions}
+						/>
+					</td>
+				);
+			case "type":
+			case "context":
+				return <td key={id} className="ll-tags">{tagsHtml(entry[id])}</td>;
+			case "rating":
+				return <td key={id}>{tagsHtml(entry.rating || "")}</td>;
+			case "examples":
+				return (
+					<td
+						key={id}
+						className="ll-examples"
+						dangerouslySetInnerHTML={{
+							__html: examplesHtml(entry.examples)
+						}}
+					/>
+				);
+			case "created":
+			case "modified":
+				return <td key={id} className="ll-date">{getColumnText(entry, id)}</td>;
+			default:
+				return <td key={id}>{getColumnText(entry, id)}</td>;
+		}
+	};
 
-			</td>
-			<td>{entry.sourceWord}</td>
-			<td className="ll-tags">{tagsHtml(entry.type)}</td>
-			<td className="ll-tags">{tagsHtml(entry.context)}</td>
-			<td>{tagsHtml(entry.rating || "")}</td>
-			<td
-				className="ll-examples"
-				dangerouslySetInnerHTML={{
-					__html: examplesHtml(entry.examples)
-				}}
-			/>
-		</tr>
-	);
-}
+	return <tr>{columns.map(renderCell)}</tr>;
+});
 
 interface StudyRowProps {
 	entry: DictionaryEntry;
+	/** Number of table columns the row spans */
+	columnCount: number;
 	showSourceFirst: boolean;
+	/** Ask for a typed answer; the verdict grades the entry in the scheduler */
+	typeAnswer: boolean;
 	termService?: import("../../services").TermService;
 }
 
-function StudyRow({ entry, showSourceFirst, termService }: StudyRowProps) {
+const StudyRow = React.memo(function StudyRow({ entry, columnCount, showSourceFirst, typeAnswer, termService }: StudyRowProps) {
+	const { settings, schedulerService } = useLearnLanguage();
 	const [isExpanded, setIsExpanded] = React.useState(false);
 	const [revision, setRevision] = useState(entry.revision || "new");
 	const [rating, setRating] = useState(entry.rating || "");
+	const [typed, setTyped] = useState("");
+	const [check, setCheck] = useState<AnswerCheck | null>(null);
+
+	// Check the typed answer, reveal the card and grade it like a review session would
+	const submitAnswer = useCallback(async () => {
+		if (check) return;
+		const direction: ReviewDirection = showSourceFirst ? "source" : "target";
+		const language = showSourceFirst ? settings.targetLanguage : settings.sourceLanguage;
+		const result = checkAnswer(
+			typed,
+			getAcceptedAnswers({ entry, isNew: false }, direction),
+			settings.typedAnswers,
+			language,
+			getLocaleCode(language)
+		);
+		setCheck(result);
+		setIsExpanded(true);
+		if (!schedulerService) return;
+		try {
+			const next = await schedulerService.review(entry, gradeForAnswer(result), { direction });
+			setRevision(intervalToRevision(next.interval));
+		} catch (error) {
+			console.error("Failed to schedule review:", error);
+			new Notice(`Could not save the review of ${entry.targetWord}`);
+		}
+	}, [check, typed, entry, showSourceFirst, settings, schedulerService]);
 
 	const handleRevisionChange = useCallback(async (e: React.ChangeEvent<HTMLSelectElement>) => {
 		e.stopPropagation();
 		const newValue = e.target.value;
 		setRevision(newValue);
 		if (termService) {
-			await termService.updateField(entry.file.path, "Revision", newValue);
+			await termService.updateField(entry.file.path, "revision", newValue);
 		}
 	}, [termService, entry.file.path]);
 
@@ -246,7 +494,7 @@ function StudyRow({ entry, showSourceFirst, termService }: StudyRowProps) {
 		const newValue = e.target.value;
 		setRating(newValue);
 		if (termService) {
-			await termService.updateField(entry.file.path, "Rating", newValue);
+			await termService.updateField(entry.file.path, "rating", newValue);
 		}
 	}, [termService, entry.file.path]);
 
@@ -266,7 +514,7 @@ function StudyRow({ entry, showSourceFirst, termService }: StudyRowProps) {
 
 	return (
 		<tr className="ll-study-row">
-			<td colSpan={6}>
+			<td colSpan={columnCount}>
 				<div
 					className="ll-study-question"
 					onClick={() => setIsExpanded(!isExpanded)}
@@ -297,7 +545,19 @@ function StudyRow({ entry, showSourceFirst, termService }: StudyRowProps) {
 						</div>
 					</div>
 				</div>
+				{typeAnswer && !check && (
+					<div className="ll-study-typed">
+						<TypedAnswerInput
+							value={typed}
+							placeholder={showSourceFirst ? settings.targetLanguage : settings.sourceLanguage}
+							autoFocus={false}
+							onChange={setTyped}
+							onSubmit={() => void submitAnswer()}
+						/>
+					</div>
+				)}
 				<div className={`ll-study-answer ${isExpanded ? "" : "ll-hidden"}`}>
+					{check && <AnswerFeedback typed={typed} check={check} />}
 					<span className="ll-answer-text">{answerText}</span>
 					{entry.type && (
 						<span className="ll-answer-type"> (type: {entry.type} | context: {entry.context})</span>
@@ -314,4 +574,4 @@ function StudyRow({ entry, showSourceFirst, termService }: StudyRowProps) {
 			</td>
 		</tr>
 	);
-}
+});
@@ -0,0 +1,35 @@
+import React, { useMemo } from "react";
+import { SearchOptions, findMatchRanges } from "../../utils/searchKeys";
+
+interface HighlightedTextProps {
+	text: string;
+	/** Active filter value; "all" or empty shows the plain text */
+	query?: string;
+	options?: SearchOptions;
+}
+
+/**
+ * Text with the substrings matched by a filter wrapped in <mark>
+ */
+export function HighlightedText({ text, query, options }: HighlightedTextProps) {
+	const locale = options?.locale;
+	const exact = options?.exact;
+
+	const parts = useMemo(() => {
+		if (!query || query === "all") return null;
+		const ranges = findMatchRanges(text, query, { locale, exact });
+		if (ranges.length === 0) return null;
+
+		const nodes: React.ReactNode[] = [];
+		let position = 0;
+		for (const [start, end] of ranges) {
+			if (start > position) nodes.push(text.slice(position, start));
+			nodes.push(<mark key={start} className="ll-match">{text.slice(start, end)}</mark>);
+			position = end;
+		}
+		if (position < text.length) nodes.push(text.slice(position));
+		return nodes;
+	}, [text, query, locale, exact]);
+
+	return <>{parts ?? text}</>;
+}
@@ -34,6 +34,8 @@ export function Pagination({
 	const { pageStart, pageSize, outputCount } = pagination;
 	const showStart = pageStart + 1;
 	const showEnd = Math.min(pageStart + pageSize, outputCount);
+	// Page sizes from code blocks or saved panes may not be one of the usual ones
+	const pageSizes = Array.from(new Set([25, 50, 100, 200, pageSize])).sort((a, b) => a - b);
 
 	return (
 		<div className={"ll-pagination" + (showBorderTop ? "" : " ll-pagination-no-border-top")}>
@@ -59,7 +61,7 @@ export function Pagination({
 						onChange={(e) => onPageSizeChange(parseInt(e.target.value, 10))}
 						aria-label="Page size"
 					>
-						{[25, 50, 100, 200].map(size => (
+						{pageSizes.map(size => (
 							<option key={size} value={size}>{size}</option>
 						))}
 					</select>
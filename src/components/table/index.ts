@@ -1,2 +1,4 @@
 export { DictionaryTable } from "./DictionaryTable";
 export { Pagination } from "./Pagination";
+export { HighlightedText } from "./HighlightedText";
+export { ColumnChooser } from "./ColumnChooser";
@@ -1,12 +1,13 @@
 import React, { useEffect, useCallback, useMemo, useState } from "react";
-import { VerbEntry, FilterState, PaginationState } from "../../types";
+import { VerbEntry, FilterState, PaginationState, TableViewState, TextFilterKey, getLocaleCode } from "../../types";
 import { useLearnLanguage } from "../../context";
 import { usePagination } from "../../hooks";
 import { DropdownFilter, StudyToggle } from "../filters";
 import { VerbsTable } from "./VerbsTable";
 import { Pagination } from "../table";
 
-interface VerbFilterState extends Partial<FilterState> {
+export interface VerbFilterState extends Partial<FilterState> {
+	revision?: string;
 	group?: string;
 	irregular?: string;
 	F?: string;
@@ -24,8 +25,14 @@ export interface VerbsComponentProps {
 	showPagination?: boolean;
 	/** Initial page size */
 	pageSize?: number;
+	/** Index of the first entry of the initial page */
+	initialPageStart?: number;
+	/** Initial filters to apply */
+	initialFilters?: VerbFilterState;
 	/** Callback when refresh is requested */
 	onRefresh?: () => Promise<void>;
+	/** Callback when filters, page or page size change (e.g. pane state) */
+	onViewStateChange?: (state: TableViewState<VerbFilterState>) => void;
 }
 
 /**
@@ -37,7 +44,10 @@ export function VerbsComponent({
 	showStudyMode = true,
 	showPagination = true,
 	pageSize = 25,
-	onRefresh
+	initialPageStart = 0,
+	initialFilters = {},
+	onRefresh,
+	onViewStateChange
 }: VerbsComponentProps) {
 	const { settings, filterService } = useLearnLanguage();
 	const targetLang = settings.targetLanguage;
@@ -50,8 +60,11 @@ export function VerbsComponent({
 		group: "all",
 		irregular: "all",
 		revision: "all",
-		study: "no"
+		study: "no",
+		...initialFilters
 	});
+	const isFirstViewStateEmit = React.useRef(true);
+	const isFirstPageReset = React.useRef(true);
 
 	// Pagination
 	const {
@@ -65,39 +78,24 @@ export function VerbsComponent({
 		totalPages,
 		hasNext,
 		hasPrev
-	} = usePagination(pageSize);
+	} = usePagination(pageSize, initialPageStart);
+
+	// The verb columns map onto the word filters, so they share matching and highlighting
+	const wordFilters = useMemo<Partial<FilterState>>(() => ({
+		targetWord: filters.F,
+		sourceWord: filters.S,
+		exactAccents: filters.exactAccents
+	}), [filters.F, filters.S, filters.exactAccents]);
 
 	// Apply verb filters
 	const filteredEntries = useMemo(() => {
-		let result = [...entries];
-
-		if (filters.F && filters.F !== "all") {
-			result = result.filter(e => e.F.toLowerCase().includes(filters.F!.toLowerCase()));
-		}
-
-		if (filters.S && filters.S !== "all") {
-			result = result.filter(e => e.S.toLowerCase().includes(filters.S!.toLowerCase()));
-		}
-
-		if (filters.group && filters.group !== "all") {
-			result = result.filter(e => e.Group === filters.group);
-		}
-
-		if (filters.irregular && filters.irregular !== "all") {
-			result = result.filter(e => {
-				if (filters.irregular === "i1") {
-					return e.Irregular.startsWith("i");
-				}
-				return e.Irregular === filters.irregular;
-			});
-		}
-
-		if (filters.revision && filters.revision !== "all") {
-			result = result.filter(e => e.revision === filters.revision);
-		}
-
-		return result;
-	}, [entries, filters]);
+		return filterService.applyFilters(entries, {
+			...wordFilters,
+			group: filters.group,
+			irregular: filters.irregular,
+			revision: filters.revision
+		});
+	}, [entries, wordFilters, filters, filterService]);
 
 	// Paginate
 	const paginatedEntries = useMemo(() => {
@@ -112,12 +110,34 @@ export function VerbsComponent({
 	// Update output count when filtered entries change
 	useEffect(() => {
 		setOutputCount(filteredEntries.length);
-	}, [filteredEntries.length]); // eslint-disable-line react-hooks/exhaustive-deps
+	}, [filteredEntries.length, setOutputCount]);
 
-	// Reset page when filters change
+	// Reset page when filters change; the initial (possibly restored) page is kept
 	useEffect(() => {
+		if (isFirstPageReset.current) {
+			isFirstPageReset.current = false;
+			return;
+		}
 		resetPage();
-	}, [filters.targetWord, filters.sourceWord, filters.type, filters.context, filters.revision, filters.study]); // eslint-disable-line react-hooks/exhaustive-deps
+	}, [filters.F, filters.S, filters.group, filters.irregular, filters.revision, filters.study, filters.exactAccents, resetPage]);
+
+	// Keep the ref updated with the latest onViewStateChange
+	const onViewStateChangeRef = React.useRef(onViewStateChange);
+	useEffect(() => {
+		onViewStateChangeRef.current = onViewStateChange;
+	});
+
+	useEffect(() => {
+		if (isFirstViewStateEmit.current) {
+			isFirstViewStateEmit.current = false;
+			return;
+		}
+		onViewStateChangeRef.current?.({
+			filters,
+			pageStart: pagination.pageStart,
+			pageSize: pagination.pageSize
+		});
+	}, [filters, pagination.pageStart, pagination.pageSize]);
 
 	// Get unique values for dropdowns
 	const fOptions = useMemo(
@@ -129,15 +149,15 @@ export function VerbsComponent({
 		[entries, filterService]
 	);
 	const groupOptions = useMemo(
-		() => filterService.getUniqueValues(entries, "Group"),
-		[entries, filterService]
+		() => filterService.getVerbGroupOptions(),
+		[filterService, settings.verbTaxonomy]
 	);
 	const irregularOptions = useMemo(
 		() => filterService.getUniqueValues(entries, "Irregular"),
 		[entries, filterService]
 	);
 	const revisionOptions = useMemo(
-		() => filterService.getUniqueValues(entries, "revision"),
+		() => filterService.getRevisionOptions(entries),
 		[entries, filterService]
 	);
 
@@ -146,6 +166,13 @@ export function VerbsComponent({
 		setFilters(prev => ({ ...prev, [key]: value }));
 	}, []);
 
+	const setExactAccents = useCallback((key: TextFilterKey, exact: boolean) => {
+		setFilters(prev => {
+			const others = (prev.exactAccents ?? []).filter(k => k !== key);
+			return { ...prev, exactAccents: exact ? [...others, key] : others };
+		});
+	}, []);
+
 	const handleRefresh = useCallback(async () => {
 		if (onRefresh) {
 			await onRefresh();
@@ -173,12 +200,18 @@ export function VerbsComponent({
 						value={filters.F || "all"}
 						options={fOptions}
 						onChange={(value) => updateFilter("F", value)}
+						locale={getLocaleCode(targetLang)}
+						exact={filters.exactAccents?.includes("targetWord")}
+						onExactChange={(exact) => setExactAccents("targetWord", exact)}
 					/>
 					<DropdownFilter
 						label={sourceLang}
 						value={filters.S || "all"}
 						options={sOptions}
 						onChange={(value) => updateFilter("S", value)}
+						locale={getLocaleCode(sourceLang)}
+						exact={filters.exactAccents?.includes("sourceWord")}
+						onExactChange={(exact) => setExactAccents("sourceWord", exact)}
 					/>
 					<DropdownFilter
 						label="Group"
@@ -224,6 +257,7 @@ export function VerbsComponent({
 					entries={paginatedEntries}
 					isStudying={isStudying}
 					showSourceFirst={showSourceFirst}
+					filters={wordFilters}
 				/>
 			</div>
 
@@ -1,11 +1,17 @@
-import React, { useCallback } from "react";
-import { VerbEntry } from "../../types";
+import React, { useCallback, useMemo } from "react";
+import { FilterState, TenseColumn, VerbEntry } from "../../types";
 import { useLearnLanguage } from "../../context";
+import { getTenseColumns } from "../../utils/tenseProfiles";
+import { VerbParadigmModal } from "../../modals/VerbParadigmModal";
+import { SearchOptions } from "../../utils/searchKeys";
+import { HighlightedText } from "../table";
 
 interface VerbsTableProps {
 	entries: VerbEntry[];
 	isStudying: boolean;
 	showSourceFirst: boolean;
+	/** Active word filters; matched parts of the verbs are highlighted */
+	filters?: Partial<FilterState>;
 }
 
 /**
@@ -14,16 +20,33 @@ interface VerbsTableProps {
 export function VerbsTable({
 	entries,
 	isStudying,
-	showSourceFirst
+	showSourceFirst,
+	filters
 }: VerbsTableProps) {
-	const { app, settings } = useLearnLanguage();
+	const { app, settings, filterService, dictionaryService, termService } = useLearnLanguage();
 	const targetLang = settings.targetLanguage;
 	const sourceLang = settings.sourceLanguage;
+	const tenseColumns = useMemo(() => getTenseColumns(settings), [settings]);
 
 	const openFile = useCallback((path: string) => {
 		app.workspace.openLinkText(path, "");
 	}, [app]);
 
+	const highlight = useMemo<VerbHighlight>(() => ({
+		F: filters?.targetWord,
+		S: filters?.sourceWord,
+		targetOptions: filterService.getSearchOptions(filters ?? {}, "targetWord"),
+		sourceOptions: filterService.getSearchOptions(filters ?? {}, "sourceWord"),
+	}), [filters, filterService]);
+
+	const openParadigm = useCallback((entry: VerbEntry) => {
+		new VerbParadigmModal(
+			app,
+			{ settings, filterService, dictionaryService, termService },
+			entry
+		).open();
+	}, [app, settings, filterService, dictionaryService, termService]);
+
 	if (entries.length === 0) {
 		return (
 			<div className="ll-no-results">
@@ -39,11 +62,9 @@ export function VerbsTable({
 					<th>{targetLang}</th>
 					<th>{sourceLang}</th>
 					<th>G</th>
-					<th>Présent</th>
-					<th>Subjonctif</th>
-					<th>Imparfait</th>
-					<th>Passé composé</th>
-					<th>Futur</th>
+					{tenseColumns.map(column => (
+						<th key={column.field}>{column.label}</th>
+					))}
 				</tr>
 			</thead>
 			<tbody>
@@ -52,13 +73,17 @@ export function VerbsTable({
 						<StudyRow
 							key={entry.file.path}
 							entry={entry}
+							tenseColumns={tenseColumns}
 							showSourceFirst={showSourceFirst}
 						/>
 					) : (
 						<NormalRow
 							key={entry.file.path}
 							entry={entry}
+							tenseColumns={tenseColumns}
+							highlight={highlight}
 							onOpenFile={openFile}
+							onOpenParadigm={openParadigm}
 						/>
 					)
 				))}
@@ -67,18 +92,31 @@ export function VerbsTable({
 	);
 }
 
+interface VerbHighlight {
+	F?: string;
+	S?: string;
+	targetOptions: SearchOptions;
+	sourceOptions: SearchOptions;
+}
+
 interface NormalRowProps {
 	entry: VerbEntry;
+	tenseColumns: TenseColumn[];
+	highlight: VerbHighlight;
 	onOpenFile: (path: string) => void;
+	onOpenParadigm: (entry: VerbEntry) => void;
 }
 
-function NormalRow({ entry, onOpenFile }: NormalRowProps) {
+const NormalRow = React.memo(function NormalRow({ entry, tenseColumns, highlight, onOpenFile, onOpenParadigm }: NormalRowProps) {
+	// Click shows the paradigm; Ctrl/Cmd-click opens the note directly
 	const handleClick = useCallback((e: React.MouseEvent) => {
 		e.preventDefault();
-		onOpenFile(entry.file.path);
-	}, [entry.file.path, onOpenFile]);
-
-	const conjugationFields = ["présent", "présent-subjonctif", "imparfait", "passé-composé", "futur"] as const;
+		if (e.ctrlKey || e.metaKey) {
+			onOpenFile(entry.file.path);
+		} else {
+			onOpenParadigm(entry);
+		}
+	}, [entry, onOpenFile, onOpenParadigm]);
 
 	return (
 		<tr>
@@ -88,17 +126,19 @@ function NormalRow({ entry, onOpenFile }: NormalRowProps) {
 					href={entry.file.path}
 					onClick={handleClick}
 				>
-					{entry.F}
+					<HighlightedText text={entry.F} query={highlight.F} options={highlight.targetOptions} />
 				</a>
 			</td>
-			<td>{entry.S}</td>
+			<td>
+				<HighlightedText text={entry.S} query={highlight.S} options={highlight.sourceOptions} />
+			</td>
 			<td>{entry.Group}</td>
-			{conjugationFields.map((field) => {
-				const value = (entry as unknown as Record<string, unknown>)[field];
+			{tenseColumns.map(({ field }) => {
+				const value = entry.verbFields?.[field];
 				return (
 					<td key={field} className="ll-conjugation">
 						{value ? (
-							<span dangerouslySetInnerHTML={{ __html: String(value) }} />
+							<span dangerouslySetInnerHTML={{ __html: value }} />
 						) : (
 							<span className="ll-empty">—</span>
 						)}
@@ -107,14 +147,15 @@ function NormalRow({ entry, onOpenFile }: NormalRowProps) {
 			})}
 		</tr>
 	);
-}
+});
 
 interface StudyRowProps {
 	entry: VerbEntry;
+	tenseColumns: TenseColumn[];
 	showSourceFirst: boolean;
 }
 
-function StudyRow({ entry, showSourceFirst }: StudyRowProps) {
+const StudyRow = React.memo(function StudyRow({ entry, tenseColumns, showSourceFirst }: StudyRowProps) {
 	const [isExpanded, setIsExpanded] = React.useState(false);
 
 	const questionText = showSourceFirst ? entry.S : entry.F;
@@ -122,7 +163,7 @@ function StudyRow({ entry, showSourceFirst }: StudyRowProps) {
 
 	return (
 		<tr className="ll-study-row">
-			<td colSpan={8}>
+			<td colSpan={3 + tenseColumns.length}>
 				<div
 					className="ll-study-question"
 					onClick={() => setIsExpanded(!isExpanded)}
@@ -134,8 +175,18 @@ function StudyRow({ entry, showSourceFirst }: StudyRowProps) {
 					{entry.Group && (
 						<span className="ll-answer-type"> (Group {entry.Group})</span>
 					)}
+					{tenseColumns.map(({ field, label }) => {
+						const value = entry.verbFields?.[field];
+						if (!value) return null;
+						return (
+							<div key={field} className="ll-answer-conjugation">
+								<strong>{label}</strong>
+								<div dangerouslySetInnerHTML={{ __html: value }} />
+							</div>
+						);
+					})}
 				</div>
 			</td>
 		</tr>
 	);
-}
+});
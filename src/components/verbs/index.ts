@@ -1,3 +1,3 @@
 export { VerbsComponent } from "./VerbsComponent";
 export { VerbsTable } from "./VerbsTable";
-export type { VerbsComponentProps } from "./VerbsComponent";
+export type { VerbsComponentProps, VerbFilterState } from "./VerbsComponent";
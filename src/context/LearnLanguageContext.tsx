@@ -1,7 +1,7 @@
 import { createContext, useContext } from "react";
 import { App } from "obsidian";
 import { LearnLanguageSettings } from "../types";
-import { FilterService, DictionaryService, TermService } from "../services";
+import { FilterService, DictionaryService, TermService, PresetService, SchedulerService } from "../services";
 
 /**
  * Context value for Learn Language plugin
@@ -12,6 +12,8 @@ export interface LearnLanguageContextValue {
 	filterService: FilterService;
 	dictionaryService: DictionaryService;
 	termService?: TermService;
+	presetService?: PresetService;
+	schedulerService?: SchedulerService;
 }
 
 /**
@@ -5,3 +5,5 @@ export {
 	useDebounce,
 	useTypeAhead
 } from "./useFilters";
+export { useTableLayout } from "./useTableLayout";
+export { useReviewSession } from "./useReviewSession";
@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
-import { FilterState, PaginationState, DictionaryEntry } from "../types";
+import { FilterState, PaginationState, DictionaryEntry, TableSort, TextFilterKey } from "../types";
 import { FilterService } from "../services";
 
 /**
@@ -16,10 +16,17 @@ export function useFilters(initialFilters: Partial<FilterState> = {}) {
 		...initialFilters
 	});
 
-	const updateFilter = useCallback((key: keyof FilterState, value: string) => {
+	const updateFilter = useCallback(<K extends keyof FilterState>(key: K, value: FilterState[K]) => {
 		setFilters(prev => ({ ...prev, [key]: value }));
 	}, []);
 
+	const setExactAccents = useCallback((key: TextFilterKey, exact: boolean) => {
+		setFilters(prev => {
+			const others = (prev.exactAccents ?? []).filter(k => k !== key);
+			return { ...prev, exactAccents: exact ? [...others, key] : others };
+		});
+	}, []);
+
 	const resetFilters = useCallback(() => {
 		setFilters({
 			targetWord: "all",
@@ -31,15 +38,15 @@ export function useFilters(initialFilters: Partial<FilterState> = {}) {
 		});
 	}, []);
 
-	return { filters, setFilters, updateFilter, resetFilters };
+	return { filters, setFilters, updateFilter, setExactAccents, resetFilters };
 }
 
 /**
  * Hook for managing pagination state
  */
-export function usePagination(initialPageSize: number = 100) {
+export function usePagination(initialPageSize: number = 100, initialPageStart: number = 0) {
 	const [pagination, setPagination] = useState<PaginationState>({
-		pageStart: 0,
+		pageStart: initialPageStart,
 		pageSize: initialPageSize,
 		outputCount: 0
 	});
@@ -52,8 +59,13 @@ export function usePagination(initialPageSize: number = 100) {
 		setPagination(prev => ({ ...prev, pageSize, pageStart: 0 }));
 	}, []);
 
+	// A restored page past the end moves to the last page
 	const setOutputCount = useCallback((outputCount: number) => {
-		setPagination(prev => ({ ...prev, outputCount }));
+		setPagination(prev => {
+			const lastPageStart = Math.max(0, Math.ceil(outputCount / prev.pageSize) - 1) * prev.pageSize;
+			const pageStart = outputCount > 0 && prev.pageStart > lastPageStart ? lastPageStart : prev.pageStart;
+			return { ...prev, outputCount, pageStart };
+		});
 	}, []);
 
 	const nextPage = useCallback(() => {
@@ -98,19 +110,24 @@ export function usePagination(initialPageSize: number = 100) {
 }
 
 /**
- * Hook for filtering and paginating dictionary entries
+ * Hook for filtering, sorting and paginating dictionary entries
  */
 export function useFilteredEntries(
 	entries: DictionaryEntry[],
 	filters: Partial<FilterState>,
 	filterService: FilterService,
 	pagination: PaginationState,
-	showPagination: boolean = true
+	showPagination: boolean = true,
+	sort?: TableSort
 ) {
-	const filteredEntries = useMemo(() => {
+	const matchingEntries = useMemo(() => {
 		return filterService.applyFilters(entries, filters);
 	}, [entries, filters, filterService]);
 
+	const filteredEntries = useMemo(() => {
+		return filterService.sortEntries(matchingEntries, sort);
+	}, [matchingEntries, sort, filterService]);
+
 	const paginatedEntries = useMemo(() => {
 		if (!showPagination) return filteredEntries;
 		return filterService.paginate(
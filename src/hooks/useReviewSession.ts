@@ -0,0 +1,104 @@
+import { useState, useCallback, useRef } from "react";
+import { REVIEW_GRADES, ReviewCard, ReviewGrade, ReviewSummary } from "../types";
+import { getReviewCardKey } from "../utils/cloze";
+
+interface ReviewSessionState {
+	queue: ReviewCard[];
+	position: number;
+	revealed: boolean;
+	/** First answer of each card, by card key */
+	answers: Map<string, ReviewGrade>;
+	finishedAt: number | null;
+}
+
+/**
+ * Hook for a flashcard review session. Cards answered "again" come back at the end
+ * of the queue; only the first answer of a card is passed to onGrade (and scheduled),
+ * with the time the card was shown for.
+ */
+export function useReviewSession(
+	cards: ReviewCard[],
+	onGrade: (card: ReviewCard, grade: ReviewGrade, durationMs: number) => Promise<void> | void
+) {
+	const startedAt = useRef(Date.now());
+	const shownAt = useRef(Date.now());
+	// Position already graded, so a repeated key press cannot grade the next card unseen
+	const gradedPosition = useRef(-1);
+	const [state, setState] = useState<ReviewSessionState>(() => ({
+		queue: cards,
+		position: 0,
+		revealed: false,
+		answers: new Map(),
+		finishedAt: cards.length === 0 ? Date.now() : null
+	}));
+
+	const current = state.finishedAt === null ? state.queue[state.position] ?? null : null;
+
+	const reveal = useCallback(() => {
+		setState(prev => (prev.revealed ? prev : { ...prev, revealed: true }));
+	}, []);
+
+	const grade = useCallback((value: ReviewGrade) => {
+		if (!current || !state.revealed || gradedPosition.current === state.position) return;
+		gradedPosition.current = state.position;
+
+		const key = getReviewCardKey(current);
+		const isFirstAnswer = !state.answers.has(key);
+		if (isFirstAnswer) void onGrade(current, value, Date.now() - shownAt.current);
+		shownAt.current = Date.now();
+
+		setState(prev => {
+			const answers = new Map(prev.answers);
+			if (isFirstAnswer) answers.set(key, value);
+			const queue = value === "again" ? [...prev.queue, current] : prev.queue;
+			const position = prev.position + 1;
+			return {
+				queue,
+				position,
+				revealed: false,
+				answers,
+				finishedAt: position >= queue.length ? Date.now() : null
+			};
+		});
+	}, [current, onGrade, state.answers, state.position, state.revealed]);
+
+	// Stop early; the cards answered so far stay scheduled
+	const finish = useCallback(() => {
+		setState(prev => (prev.finishedAt !== null ? prev : { ...prev, finishedAt: Date.now() }));
+	}, []);
+
+	const getSummary = (): ReviewSummary => {
+		const counts = {} as Record<ReviewGrade, number>;
+		REVIEW_GRADES.forEach(g => {
+			counts[g] = 0;
+		});
+		state.answers.forEach(g => {
+			counts[g]++;
+		});
+
+		// Entries with several cloze cards are listed once
+		const forgotten = cards
+			.filter(card => state.answers.get(getReviewCardKey(card)) === "again")
+			.map(card => card.entry)
+			.filter((entry, index, list) => list.findIndex(e => e.file.path === entry.file.path) === index);
+
+		return {
+			reviewed: state.answers.size,
+			counts,
+			forgotten,
+			durationMs: (state.finishedAt ?? Date.now()) - startedAt.current
+		};
+	};
+
+	return {
+		current,
+		revealed: state.revealed,
+		/** Cards left, including the current one and repeats */
+		remaining: Math.max(0, state.queue.length - state.position),
+		done: state.finishedAt !== null,
+		reveal,
+		grade,
+		finish,
+		summary: getSummary()
+	};
+}
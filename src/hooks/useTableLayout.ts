@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { TableLayout, TableSort } from "../types";
+import { MIN_COLUMN_WIDTH, getDefaultTableLayout } from "../utils/columns";
+
+/**
+ * Hook for the columns, widths and sort of a table.
+ * onLayoutChange is called after each user change, not on mount.
+ */
+export function useTableLayout(
+	initialLayout?: TableLayout,
+	onLayoutChange?: (layout: TableLayout) => void
+) {
+	const [layout, setLayout] = useState<TableLayout>(() => initialLayout ?? getDefaultTableLayout());
+	const onLayoutChangeRef = useRef(onLayoutChange);
+	const isFirstEmit = useRef(true);
+
+	useEffect(() => {
+		onLayoutChangeRef.current = onLayoutChange;
+	});
+
+	useEffect(() => {
+		if (isFirstEmit.current) {
+			isFirstEmit.current = false;
+			return;
+		}
+		onLayoutChangeRef.current?.(layout);
+	}, [layout]);
+
+	const setSort = useCallback((sort: TableSort | undefined) => {
+		setLayout(prev => {
+			const { sort: _previous, ...rest } = prev;
+			return sort ? { ...rest, sort } : rest;
+		});
+	}, []);
+
+	// Header clicks cycle through ascending, descending and the index order
+	const toggleSort = useCallback((column: string) => {
+		setLayout(prev => {
+			const { sort, ...rest } = prev;
+			if (sort?.column !== column) return { ...rest, sort: { column, direction: "asc" } };
+			if (sort.direction === "asc") return { ...rest, sort: { column, direction: "desc" } };
+			return rest;
+		});
+	}, []);
+
+	const toggleColumn = useCallback((id: string) => {
+		setLayout(prev => {
+			const visible = prev.columns.some(column => column.id === id);
+			if (!visible) return { ...prev, columns: [...prev.columns, { id }] };
+			// Keep at least one column
+			if (prev.columns.length === 1) return prev;
+			return { ...prev, columns: prev.columns.filter(column => column.id !== id) };
+		});
+	}, []);
+
+	const moveColumn = useCallback((id: string, toIndex: number) => {
+		setLayout(prev => {
+			const from = prev.columns.findIndex(column => column.id === id);
+			const to = Math.max(0, Math.min(toIndex, prev.columns.length - 1));
+			if (from < 0 || from === to) return prev;
+			const columns = [...prev.columns];
+			const [moved] = columns.splice(from, 1);
+			columns.splice(to, 0, moved);
+			return { ...prev, columns };
+		});
+	}, []);
+
+	// Widths missing from the map are cleared (the column sizes to its content again)
+	const setColumnWidths = useCallback((widths: Record<string, number>) => {
+		setLayout(prev => ({
+			...prev,
+			columns: prev.columns.map(column => {
+				const width = widths[column.id];
+				return width ? { id: column.id, width: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) } : { id: column.id };
+			})
+		}));
+	}, []);
+
+	const resetLayout = useCallback(() => {
+		setLayout(getDefaultTableLayout());
+	}, []);
+
+	return { layout, setSort, toggleSort, toggleColumn, moveColumn, setColumnWidths, resetLayout };
+}
@@ -4,22 +4,42 @@ import {
 	DEFAULT_SETTINGS,
 	VIEW_TYPE_DICTIONARY,
 	VIEW_TYPE_VERBS,
+	VIEW_TYPE_GRAMMAR,
+	VIEW_TYPE_REVIEW,
+	VIEW_TYPE_STATISTICS,
 	LearnLanguageAPI,
 	DictionaryEntry,
 	VerbEntry,
 	GrammarPage,
-	FilterState
+	FilterState,
+	ReviewSessionOptions
 } from "./types";
 import {
 	DictionaryService,
 	OpenAIService,
 	TermService,
-	FilterService
+	FilterService,
+	ConjugationService,
+	ProfileService,
+	ProfileServices,
+	PresetService,
+	SchedulerService,
+	ReviewLogService
 } from "./services";
-import { DictionaryView, VerbsView } from "./views";
-import { TermModal, AskAIModal } from "./modals";
+import { DictionaryView, VerbsView, GrammarView, ReviewView, StatisticsView } from "./views";
+import { TermModal, AskAIModal, VerbParadigmModal, ConjugationReportModal, ProfileSuggestModal } from "./modals";
 import { LearnLanguageSettingTab } from "./settings";
 import { registerDictionaryCodeBlockProcessor } from "./processors";
+import { normalizeFieldSchema } from "./utils/fieldSchema";
+import { normalizeVerbTaxonomy } from "./utils/verbTaxonomy";
+import { getProfileVerbFields, normalizeParadigmProfiles, normalizeTenseProfiles } from "./utils/tenseProfiles";
+import { pickVerbFields } from "./utils/verbFields";
+import { normalizeDiscoveryRules } from "./utils/discovery";
+import { getEditableProfile, getProfileNames, normalizeProfiles } from "./utils/profiles";
+import { normalizeTableLayouts } from "./utils/columns";
+import { getPresetFilterState, normalizeFilterPresets } from "./utils/presets";
+import { normalizeSchedulerSettings } from "./utils/scheduler";
+import { normalizeTypedAnswerSettings } from "./utils/answers";
 
 export default class LearnLanguagePlugin extends Plugin {
 	settings: LearnLanguageSettings = DEFAULT_SETTINGS;
@@ -27,11 +47,8 @@ export default class LearnLanguagePlugin extends Plugin {
 	// Refreshers for embedded processors currently mounted in markdown documents
 	private embeddedDictionaryRefreshers = new Map<HTMLElement, () => Promise<void> | void>();
 
-	// Services
-	dictionaryService!: DictionaryService;
-	openAIService!: OpenAIService;
-	termService!: TermService;
-	filterService!: FilterService;
+	// Services of each language-pair profile
+	profileService!: ProfileService;
 
 	// Modals
 	termModal!: TermModal;
@@ -41,17 +58,58 @@ export default class LearnLanguagePlugin extends Plugin {
 	// Usage: app.plugins.plugins["learn-language"].api
 	public api!: LearnLanguageAPI;
 
+	// Services and settings of the active profile
+	get profileSettings(): LearnLanguageSettings {
+		return this.profileService.getActive().settings;
+	}
+
+	get dictionaryService(): DictionaryService {
+		return this.profileService.getActive().dictionaryService;
+	}
+
+	get openAIService(): OpenAIService {
+		return this.profileService.getActive().openAIService;
+	}
+
+	get termService(): TermService {
+		return this.profileService.getActive().termService;
+	}
+
+	get filterService(): FilterService {
+		return this.profileService.getActive().filterService;
+	}
+
+	get conjugationService(): ConjugationService {
+		return this.profileService.getActive().conjugationService;
+	}
+
+	get schedulerService(): SchedulerService {
+		return this.profileService.getActive().schedulerService;
+	}
+
+	get reviewLogService(): ReviewLogService {
+		return this.profileService.getActive().reviewLogService;
+	}
+
+	get presetService(): PresetService {
+		return this.profileService.presetService;
+	}
+
+	/**
+	 * Services of a profile (default: the active one), or null for an unknown name
+	 */
+	getProfileServices(name?: string): ProfileServices | null {
+		return this.profileService.get(name);
+	}
+
 	async onload(): Promise<void> {
 		console.log("Loading Learn Language plugin");
 
 		// Load settings
 		await this.loadSettings();
 
-		// Initialize services
-		this.dictionaryService = new DictionaryService(this.app, this.settings);
-		this.openAIService = new OpenAIService(this.app, this.settings, () => this.saveSettings());
-		this.termService = new TermService(this.app, this.settings);
-		this.filterService = new FilterService(this.app, this.settings);
+		// Initialize services (created per profile on first use)
+		this.profileService = new ProfileService(this.app, this.settings, () => this.saveSettings());
 
 		// Initialize modals
 		this.termModal = new TermModal(this.app, this);
@@ -68,18 +126,31 @@ export default class LearnLanguagePlugin extends Plugin {
 			(leaf) => new VerbsView(leaf, this)
 		);
 
+		this.registerView(
+			VIEW_TYPE_GRAMMAR,
+			(leaf) => new GrammarView(leaf, this)
+		);
+
+		this.registerView(
+			VIEW_TYPE_REVIEW,
+			(leaf) => new ReviewView(leaf, this)
+		);
+
+		this.registerView(
+			VIEW_TYPE_STATISTICS,
+			(leaf) => new StatisticsView(leaf, this)
+		);
+
 		// Register code block processor for embedding dictionary in notes
 		this.registerMarkdownCodeBlockProcessor(
 			"learn-dictionary",
 			registerDictionaryCodeBlockProcessor(
 				this.app,
-				this.settings,
-				this.dictionaryService,
-				this.filterService,
-				this.termService,
+				(profile?: string) => this.getProfileServices(profile),
 				() => this.askAIModal.open(),
 				(el: HTMLElement, refresher: () => Promise<void> | void) =>
-					this.registerEmbeddedDictionaryRefresher(el, refresher)
+					this.registerEmbeddedDictionaryRefresher(el, refresher),
+				(options: ReviewSessionOptions) => this.openReviewSession(options)
 			)
 		);
 
@@ -92,27 +163,32 @@ export default class LearnLanguagePlugin extends Plugin {
 		// Add settings tab
 		this.addSettingTab(new LearnLanguageSettingTab(this.app, this));
 
-		// Register file change events for cache invalidation
+		// Keep the dictionary index of every loaded profile up to date one file at a time
 		this.registerEvent(
-			this.app.vault.on("modify", (file) => {
-				if (file instanceof TFile && file.path.startsWith(this.settings.dictionaryFolder)) {
-					this.dictionaryService.invalidateCache();
+			this.app.metadataCache.on("changed", (file, data) => {
+				for (const { dictionaryService } of this.profileService.getLoaded()) {
+					void dictionaryService.handleFileChanged(file, data);
 				}
 			})
 		);
 
 		this.registerEvent(
-			this.app.vault.on("create", (file) => {
-				if (file instanceof TFile && file.path.startsWith(this.settings.dictionaryFolder)) {
-					this.dictionaryService.invalidateCache();
+			this.app.metadataCache.on("deleted", (file) => {
+				for (const { dictionaryService } of this.profileService.getLoaded()) {
+					void dictionaryService.handleFileDeleted(file.path);
 				}
 			})
 		);
 
 		this.registerEvent(
-			this.app.vault.on("delete", (file) => {
-				if (file instanceof TFile && file.path.startsWith(this.settings.dictionaryFolder)) {
-					this.dictionaryService.invalidateCache();
+			this.app.vault.on("rename", (file, oldPath) => {
+				for (const { dictionaryService } of this.profileService.getLoaded()) {
+					void dictionaryService.handleFileRenamed(file, oldPath);
+				}
+				// Review logs and cloze schedules are stored by path, also for profiles not opened yet
+				for (const { schedulerService, reviewLogService } of this.profileService.getAll()) {
+					void schedulerService.handleFileRenamed(file.path, oldPath);
+					void reviewLogService.handleFileRenamed(file.path, oldPath);
 				}
 			})
 		);
@@ -122,13 +198,16 @@ export default class LearnLanguagePlugin extends Plugin {
 			this.registerEvent(
 				this.app.vault.on("modify", async (file) => {
 					if (file instanceof TFile) {
-						if (file.path === this.settings.termTypesFile ||
-							file.path === this.settings.contextTypesFile) {
-							// Debounce sync
-							setTimeout(async () => {
-								await this.openAIService.syncClassificationFilesWithOpenAI();
-								await this.saveSettings();
-							}, 5000);
+						for (const name of getProfileNames(this.settings)) {
+							const profile = getEditableProfile(this.settings, name);
+							if (file.path === profile?.termTypesFile ||
+								file.path === profile?.contextTypesFile) {
+								// Debounce sync
+								setTimeout(async () => {
+									await this.getProfileServices(name)?.openAIService.syncClassificationFilesWithOpenAI();
+									await this.saveSettings();
+								}, 5000);
+							}
 						}
 					}
 				})
@@ -155,20 +234,17 @@ export default class LearnLanguagePlugin extends Plugin {
 
 	/**
 	 * Best-effort refresh after a term is created/updated.
-	 * - Invalidates dictionary cache
-	 * - Refreshes open dictionary/verbs views
-	 * - Refreshes mounted embedded dictionary processors
+	 * The index itself is kept current by metadataCache events; this only
+	 * re-renders open views and mounted embedded dictionary processors.
 	 */
 	async refreshOpenUIsAfterTermUpsert(): Promise<void> {
-		// Ensure fresh data
-		this.dictionaryService.invalidateCache();
-
 		// Refresh open views (if any)
 		const dictionaryLeaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_DICTIONARY);
 		const verbsLeaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_VERBS);
+		const grammarLeaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_GRAMMAR);
 
 		const viewRefreshes: Array<Promise<void>> = [];
-		for (const leaf of [...dictionaryLeaves, ...verbsLeaves]) {
+		for (const leaf of [...dictionaryLeaves, ...verbsLeaves, ...grammarLeaves]) {
 			const view = (leaf as any)?.view;
 			const refresh = (view as any)?.refresh;
 			if (typeof refresh === "function") {
@@ -199,6 +275,11 @@ export default class LearnLanguagePlugin extends Plugin {
 	onunload(): void {
 		console.log("Unloading Learn Language plugin");
 
+		// Best-effort write of pending index changes
+		for (const { dictionaryService } of this.profileService.getLoaded()) {
+			void dictionaryService.flushSnapshot();
+		}
+
 		// Remove global API
 		if (window.learnLanguage) {
 			delete (window as Partial<Window>).learnLanguage;
@@ -246,8 +327,31 @@ export default class LearnLanguagePlugin extends Plugin {
 					: DEFAULT_SETTINGS.askTermAssistant.previousResponseId,
 		};
 
+		const profileName = typeof merged.profileName === "string" && merged.profileName.trim()
+			? merged.profileName.trim()
+			: DEFAULT_SETTINGS.profileName;
+		const profiles = normalizeProfiles((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.profiles, profileName);
+		const activeProfile = [profileName, ...profiles.map(p => p.name)].includes(merged.activeProfile)
+			? merged.activeProfile
+			: profileName;
+
 		this.settings = {
 			...merged,
+			profileName,
+			profiles,
+			activeProfile,
+			discoveryRules: normalizeDiscoveryRules(
+				(loadedData as Partial<LearnLanguageSettings> | null | undefined)?.discoveryRules,
+				!!loadedData
+			),
+			fieldSchema: normalizeFieldSchema((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.fieldSchema),
+			verbTaxonomy: normalizeVerbTaxonomy((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.verbTaxonomy),
+			tenseProfiles: normalizeTenseProfiles((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.tenseProfiles),
+			paradigmProfiles: normalizeParadigmProfiles((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.paradigmProfiles),
+			tableLayouts: normalizeTableLayouts((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.tableLayouts),
+			filterPresets: normalizeFilterPresets((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.filterPresets),
+			scheduler: normalizeSchedulerSettings((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.scheduler),
+			typedAnswers: normalizeTypedAnswerSettings((loadedData as Partial<LearnLanguageSettings> | null | undefined)?.typedAnswers),
 			askTermAssistant: normalizedAskTermAssistant,
 		};
 
@@ -257,11 +361,38 @@ export default class LearnLanguagePlugin extends Plugin {
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
 
-		// Update services with new settings
-		this.dictionaryService.updateSettings(this.settings);
-		this.openAIService.updateSettings(this.settings);
-		this.termService.updateSettings(this.settings);
-		this.filterService.updateSettings(this.settings);
+		// Update services of every profile with new settings
+		this.profileService.updateSettings(this.settings);
+	}
+
+	/**
+	 * Switch the profile used by views, commands and code blocks without a "profile:" option
+	 */
+	async setActiveProfile(name: string): Promise<void> {
+		if (!getProfileNames(this.settings).includes(name)) {
+			throw new Error(`Unknown language profile: ${name}`);
+		}
+		if (name === this.settings.activeProfile) return;
+
+		this.settings.activeProfile = name;
+		await this.saveSettings();
+		await this.reloadViews();
+		new Notice(`Language profile: ${name}`);
+	}
+
+	/**
+	 * Re-mount open views against the active profile's services
+	 */
+	async reloadViews(): Promise<void> {
+		const leaves = [VIEW_TYPE_DICTIONARY, VIEW_TYPE_VERBS, VIEW_TYPE_GRAMMAR, VIEW_TYPE_REVIEW, VIEW_TYPE_STATISTICS]
+			.flatMap(type => this.app.workspace.getLeavesOfType(type));
+
+		for (const leaf of leaves) {
+			const view = leaf.view as DictionaryView | VerbsView | GrammarView | ReviewView | StatisticsView;
+			if (typeof view.reload === "function") {
+				await view.reload();
+			}
+		}
 	}
 
 	/**
@@ -277,6 +408,15 @@ export default class LearnLanguagePlugin extends Plugin {
 			},
 		});
 
+		// Open another Dictionary pane with its own filters
+		this.addCommand({
+			id: "open-new-dictionary-pane",
+			name: "Open New Dictionary Pane",
+			callback: () => {
+				this.openNewPane(VIEW_TYPE_DICTIONARY);
+			},
+		});
+
 		// Open Verbs View
 		this.addCommand({
 			id: "open-verbs-view",
@@ -286,6 +426,48 @@ export default class LearnLanguagePlugin extends Plugin {
 			},
 		});
 
+		// Open Grammar View
+		this.addCommand({
+			id: "open-grammar-view",
+			name: "Open Grammar View",
+			callback: () => {
+				this.activateView(VIEW_TYPE_GRAMMAR);
+			},
+		});
+
+		// Start a flashcard review session
+		this.addCommand({
+			id: "start-review-session",
+			name: "Start Review Session",
+			callback: () => {
+				this.openReviewSession();
+			},
+		});
+
+		// Open Statistics View
+		this.addCommand({
+			id: "open-statistics-view",
+			name: "Open Statistics View",
+			callback: () => {
+				this.activateView(VIEW_TYPE_STATISTICS);
+			},
+		});
+
+		// Switch Language Profile
+		this.addCommand({
+			id: "switch-language-profile",
+			name: "Switch Language Profile",
+			checkCallback: (checking) => {
+				if (this.settings.profiles.length === 0) return false;
+				if (!checking) {
+					new ProfileSuggestModal(this.app, getProfileNames(this.settings), this.settings.activeProfile, (name) => {
+						void this.setActiveProfile(name);
+					}).open();
+				}
+				return true;
+			},
+		});
+
 		// Create New Term
 		this.addCommand({
 			id: "create-new-term",
@@ -314,7 +496,7 @@ export default class LearnLanguagePlugin extends Plugin {
 			name: "Edit Current Term",
 			checkCallback: (checking) => {
 				const activeFile = this.app.workspace.getActiveFile();
-				if (activeFile && activeFile.path.startsWith(this.settings.dictionaryFolder)) {
+				if (activeFile && this.dictionaryService.isDictionaryFile(activeFile.path)) {
 					if (!checking) {
 						this.editTermFromFile(activeFile);
 					}
@@ -324,12 +506,53 @@ export default class LearnLanguagePlugin extends Plugin {
 			},
 		});
 
+		// Show Verb Paradigm (when viewing a verb file)
+		this.addCommand({
+			id: "show-verb-paradigm",
+			name: "Show Verb Paradigm",
+			checkCallback: (checking) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && this.dictionaryService.isDictionaryFile(activeFile.path)) {
+					if (!checking) {
+						this.showVerbParadigm(activeFile);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		// Fill Missing Conjugations (regular verbs only)
+		this.addCommand({
+			id: "fill-missing-conjugations",
+			name: "Fill Missing Conjugations",
+			callback: async () => {
+				new Notice("Generating conjugations...");
+				const report = await this.conjugationService.fillMissingConjugations();
+				new ConjugationReportModal(this.app, this, report).open();
+			},
+		});
+
+		// Write the schedule implied by existing Revision levels
+		this.addCommand({
+			id: "schedule-existing-revisions",
+			name: "Schedule Existing Revisions",
+			callback: async () => {
+				new Notice("Scheduling existing revisions...");
+				const count = await this.schedulerService.migrateRevisions();
+				new Notice(count > 0
+					? `Scheduled ${count} ${count === 1 ? "entry" : "entries"} from their Revision level`
+					: "Every studied entry already has a schedule");
+			},
+		});
+
 		// Refresh Dictionary Cache
 		this.addCommand({
 			id: "refresh-dictionary-cache",
 			name: "Refresh Dictionary Cache",
-			callback: () => {
-				this.dictionaryService.invalidateCache();
+			callback: async () => {
+				this.dictionaryService.invalidateCache(true);
+				await this.refreshOpenUIsAfterTermUpsert();
 				new Notice("Dictionary cache refreshed!");
 			},
 		});
@@ -364,6 +587,11 @@ export default class LearnLanguagePlugin extends Plugin {
 			this.activateView(VIEW_TYPE_VERBS);
 		});
 
+		// Grammar icon
+		this.addRibbonIcon("graduation-cap", "Open Grammar", () => {
+			this.activateView(VIEW_TYPE_GRAMMAR);
+		});
+
 		// Quick add term icon
 		this.addRibbonIcon("plus-circle", "Create New Term", () => {
 			this.termModal.openForCreate();
@@ -396,33 +624,67 @@ export default class LearnLanguagePlugin extends Plugin {
 	}
 
 	/**
-	 * Edit term from file
+	 * Open a view in a new pane next to the current one
 	 */
-	private async editTermFromFile(file: TFile): Promise<void> {
-		const cache = this.app.metadataCache.getFileCache(file);
-		const fm = cache?.frontmatter || {};
+	async openNewPane(viewType: string): Promise<void> {
+		const { workspace } = this.app;
+		const leaf = workspace.getLeaf("split", "vertical");
+		await leaf.setViewState({ type: viewType, active: true });
+		workspace.revealLeaf(leaf);
+	}
 
-		// Read inline fields from file
-		const content = await this.app.vault.read(file);
-		const inlineFields: Record<string, string> = {};
+	/**
+	 * Open a review session in a new tab, starting from the given cards
+	 */
+	async openReviewSession(options: ReviewSessionOptions = {}): Promise<void> {
+		const { workspace } = this.app;
+		const leaf = workspace.getLeaf("tab");
+		await leaf.setViewState({ type: VIEW_TYPE_REVIEW, active: true, state: { ...options } });
+		workspace.revealLeaf(leaf);
+	}
 
-		content.split("\n").forEach(line => {
-			const match = line.match(/^([A-Za-z_-]+)::\s*(.*)$/);
-			if (match) {
-				inlineFields[match[1]] = match[2].trim();
-			}
-		});
+	/**
+	 * Open the paradigm modal for a verb file
+	 */
+	private async showVerbParadigm(file: TFile): Promise<void> {
+		const verbs = await this.dictionaryService.getVerbs();
+		const entry = verbs.find(v => v.file.path === file.path);
+		if (!entry) {
+			new Notice(`"${file.basename}" is not a verb`);
+			return;
+		}
 
-    const sourceLanguage = this.settings.sourceLanguage || "Spanish";
+		new VerbParadigmModal(
+			this.app,
+			{
+				settings: this.profileSettings,
+				filterService: this.filterService,
+				dictionaryService: this.dictionaryService,
+				termService: this.termService,
+			},
+			entry
+		).open();
+	}
+
+	/**
+	 * Edit term from file
+	 */
+	private async editTermFromFile(file: TFile): Promise<void> {
+		// Read fields through the configured field schema
+		const fields = await this.termService.readTermFields(file);
+		const verbFields = this.dictionaryService.isVerbType(fields.type)
+			? await this.termService.readVerbFields(file)
+			: undefined;
 
 		this.termModal.openForEdit(
 			file.path,
 			{
 				target: file.basename,
-				source: fm[sourceLanguage] || fm[sourceLanguage.toLowerCase()] || "",
-				type: inlineFields.Type || "",
-				context: inlineFields.Context || "",
-				examples: inlineFields.Examples || "",
+				source: fields.source,
+				type: fields.type,
+				context: fields.context,
+				examples: fields.examples,
+				verbFields,
 			}
 		);
 	}
@@ -434,39 +696,76 @@ export default class LearnLanguagePlugin extends Plugin {
 	 *   - window.learnLanguage (legacy/compatibility)
 	 */
 	private exposeGlobalAPI(): void {
+		// Services of the requested profile; unknown names are reported to the caller
+		const servicesFor = (profile?: string): ProfileServices => {
+			const services = this.getProfileServices(profile);
+			if (!services) throw new Error(`Unknown language profile: ${profile}`);
+			return services;
+		};
+		const plugin = this;
+
 		this.api = {
-			// Language settings
-			targetLanguage: this.settings.targetLanguage,
-			sourceLanguage: this.settings.sourceLanguage,
+			// Language settings of the active profile
+			get targetLanguage() {
+				return plugin.profileSettings.targetLanguage;
+			},
+			get sourceLanguage() {
+				return plugin.profileSettings.sourceLanguage;
+			},
+
+			// Language-pair profiles
+			getProfiles: () => getProfileNames(this.settings),
+			getActiveProfile: () => this.settings.activeProfile,
+			setActiveProfile: (name) => this.setActiveProfile(name),
 
 			// Data access
-			getDictionary: () => this.dictionaryService.getDictionary(),
-			getVerbs: () => this.dictionaryService.getVerbs(),
-			getGrammarPages: () => this.dictionaryService.getGrammarPages(),
-			createTerm: async (term) => {
-				await this.termService.createOrUpdateTermPage({
+			getDictionary: (profile) => servicesFor(profile).dictionaryService.getDictionary(),
+			getVerbs: (profile) => servicesFor(profile).dictionaryService.getVerbs(),
+			getGrammarPages: (profile) => servicesFor(profile).dictionaryService.getGrammarPages(),
+			createTerm: async (term, profile) => {
+				const { settings, termService } = servicesFor(profile);
+				const verbFields = pickVerbFields(term as Record<string, unknown>, getProfileVerbFields(settings));
+				await termService.createOrUpdateTermPage({
 					targetTerm: term.targetWord || term.file?.basename || "",
 					sourceTerm: term.sourceWord,
 					type: term.type,
 					context: term.context,
 					examples: term.examples,
+					verbFields: Object.keys(verbFields).length > 0 ? verbFields : undefined,
 				});
 			},
-			updateTerm: async (filePath, updates) => {
+			updateTerm: async (filePath, updates, profile) => {
+				const { settings, termService } = servicesFor(profile);
 				const file = this.app.vault.getAbstractFileByPath(filePath);
 				if (file instanceof TFile) {
-					await this.termService.updateTermFile(file, {
+					const verbFields = pickVerbFields(updates as Record<string, unknown>, getProfileVerbFields(settings));
+					await termService.updateTermFile(file, {
 						targetTerm: file.basename,
 						sourceTerm: updates.sourceWord,
 						type: updates.type,
 						context: updates.context,
 						examples: updates.examples,
+						verbFields: Object.keys(verbFields).length > 0 ? verbFields : undefined,
 					}, true);
 				}
 			},
-			askAI: (term) => this.openAIService.askForTerm(term),
-			filterEntries: (entries, filters) => this.filterService.applyFilters(entries, filters),
+			askAI: (term, profile) => servicesFor(profile).openAIService.askForTerm(term),
+			filterEntries: (entries, filters) => {
+				if (typeof filters !== "string") return this.filterService.applyFilters(entries, filters);
+				const preset = this.presetService.getPreset(filters);
+				if (!preset) throw new Error(`Unknown filter preset: ${filters}`);
+				return this.filterService.applyFilters(entries, getPresetFilterState(preset));
+			},
 			paginateEntries: (entries, start, size) => this.filterService.paginate(entries, start, size),
+
+			// Filter presets
+			getFilterPresets: () => this.presetService.getPresets(),
+			getFilterPreset: (name) => this.presetService.getPreset(name),
+			saveFilterPreset: (name, filters) => this.presetService.savePreset(name, filters),
+			deleteFilterPreset: (name) => this.presetService.deletePreset(name),
+
+			// Study history
+			getReviewLog: (profile) => servicesFor(profile).reviewLogService.getEntries(),
 		};
 
 		// Also expose on window for legacy/compatibility
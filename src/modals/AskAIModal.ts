@@ -28,11 +28,11 @@ export class AskAIModal extends Modal {
 		contentEl.createEl("h2", { text: "Ask AI for Term" });
 
 		new Setting(contentEl)
-			.setName(`${this.plugin.settings.targetLanguage || "French"} term`)
-			.setDesc(`Enter the ${this.plugin.settings.targetLanguage || "French"} term or expression to look up`)
+			.setName(`${this.plugin.profileSettings.targetLanguage || "French"} term`)
+			.setDesc(`Enter the ${this.plugin.profileSettings.targetLanguage || "French"} term or expression to look up`)
 			.addText(text => {
 				text
-					.setPlaceholder(`Enter ${this.plugin.settings.targetLanguage || "French"} term`)
+					.setPlaceholder(`Enter ${this.plugin.profileSettings.targetLanguage || "French"} term`)
 					.onChange(value => {
 						this.termValue = value;
 					});
@@ -65,7 +65,7 @@ export class AskAIModal extends Modal {
 
 	private async handleAsk(): Promise<void> {
 		if (!this.termValue.trim()) {
-			new Notice(`Please enter a ${this.plugin.settings.targetLanguage || "French"} term`);
+			new Notice(`Please enter a ${this.plugin.profileSettings.targetLanguage || "French"} term`);
 			return;
 		}
 
@@ -86,7 +86,7 @@ export class AskAIModal extends Modal {
 			return;
 		}
 
-		const sourceLanguage = this.plugin.settings.sourceLanguage || "Spanish";
+		const sourceLanguage = this.plugin.profileSettings.sourceLanguage || "Spanish";
 		if (response && typeof response === 'object') {
 			const ai = response as AITermResponse;
 			const sourceKey = sourceLanguage.toLowerCase();
@@ -113,19 +113,9 @@ export class AskAIModal extends Modal {
 
       const debugging = true;
 			if (file && debugging) {
-				const cache = this.app.metadataCache.getFileCache(file);
-				const frontmatter = cache?.frontmatter || {};
-
-				const content = await this.app.vault.cachedRead(file);
-				const inlineProperties: Record<string, string> = {};
-				content.split(/\r?\n/).forEach(line => {
-					const match = line.match(/^([A-Za-z_-]+)::\s*(.*)$/);
-					if (match) {
-						inlineProperties[match[1]] = match[2].trim();
-					}
-				});
+				const fields = await this.plugin.termService.readTermFields(file);
 
-				console.log("JAA created/updated term file with:", `frontmatter: ${JSON.stringify(frontmatter, null, 2)} and inline properties: ${JSON.stringify(inlineProperties, null, 2)}`);
+				console.log("JAA created/updated term file with:", `fields: ${JSON.stringify(fields, null, 2)}`);
 			}
 
 			if (file) {
@@ -0,0 +1,49 @@
+import React from "react";
+import { App, Modal } from "obsidian";
+import type LearnLanguagePlugin from "../main";
+import { createReactRoot, ReactMountPoint } from "../utils/reactMount";
+import type { ConjugationReport } from "../services/ConjugationService";
+import { ConjugationReportModalContent } from "../components/modals/ConjugationReportModalContent";
+
+/**
+ * ConjugationReportModal - Result of filling missing conjugations
+ */
+export class ConjugationReportModal extends Modal {
+	plugin: LearnLanguagePlugin;
+	private reactMount: ReactMountPoint | null = null;
+	private report: ConjugationReport;
+
+	constructor(app: App, plugin: LearnLanguagePlugin, report: ConjugationReport) {
+		super(app);
+		this.plugin = plugin;
+		this.report = report;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.reactMount = createReactRoot(
+			contentEl,
+			this.app,
+			this.plugin.profileSettings,
+			this.plugin.filterService,
+			this.plugin.dictionaryService
+		);
+
+		this.reactMount.render(
+			<ConjugationReportModalContent
+				report={this.report}
+				onClose={() => this.close()}
+			/>
+		);
+	}
+
+	onClose(): void {
+		if (this.reactMount) {
+			this.reactMount.unmount();
+			this.reactMount = null;
+		}
+		this.contentEl.empty();
+	}
+}
@@ -3,7 +3,7 @@ import { App, Modal, Notice } from "obsidian";
 import { createReactRoot, ReactMountPoint } from "../utils/reactMount";
 import type { LearnLanguageSettings, DictionaryEntry } from "../types";
 import type { FilterService, DictionaryService } from "../services";
-import { entriesToCsv, getDictionaryExportFields } from "../utils/csv";
+import { entriesToCsv, getDictionaryExportFields, isTenseExportField } from "../utils/csv";
 import { pickFolderPath, joinPathAbsolute, writeTextFileAbsolute } from "../utils/folderPicker";
 import { ExportCsvModalContent, ExportCsvModalResult } from "../components/modals/ExportCsvModalContent";
 
@@ -91,6 +91,7 @@ export class ExportCsvModal extends Modal {
 		this.reactMount.render(
 			<ExportCsvModalContent
 				exportFields={exportFields}
+				defaultSelectedFields={exportFields.filter(f => !isTenseExportField(f.id)).map(f => f.id)}
 				totalPages={totalPages}
 				defaultFileName={defaultFileName}
 				defaultSeparator="|"
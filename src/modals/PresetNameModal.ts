@@ -0,0 +1,84 @@
+import { App, Modal, Setting, Notice, ButtonComponent } from "obsidian";
+
+/**
+ * Asks for the name a filter preset is saved under
+ */
+export class PresetNameModal extends Modal {
+	private name: string;
+	private existingNames: string[];
+	private onSubmit: (name: string) => void | Promise<void>;
+
+	constructor(app: App, initialName: string, existingNames: string[], onSubmit: (name: string) => void | Promise<void>) {
+		super(app);
+		this.name = initialName;
+		this.existingNames = existingNames;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("ll-preset-name-modal");
+
+		contentEl.createEl("h2", { text: "Save filter preset" });
+
+		const hint = contentEl.createDiv({ cls: "setting-item-description" });
+		const updateHint = () => {
+			const replaces = this.existingNames.some(n => n.toLowerCase() === this.name.trim().toLowerCase());
+			hint.setText(replaces ? "Replaces the filters of the existing preset." : "");
+		};
+
+		new Setting(contentEl)
+			.setName("Name")
+			.setDesc("e.g. \"A2 verbs to review\" or \"Kitchen vocab\"")
+			.addText(text => {
+				text
+					.setValue(this.name)
+					.onChange(value => {
+						this.name = value;
+						updateHint();
+					});
+
+				text.inputEl.focus();
+				text.inputEl.select();
+				text.inputEl.addEventListener("keydown", async (e) => {
+					if (e.key === "Enter") {
+						e.preventDefault();
+						await this.handleSave();
+					}
+				});
+			});
+		contentEl.appendChild(hint);
+		updateHint();
+
+		const buttonsContainer = contentEl.createDiv({ cls: "ll-modal-buttons" });
+
+		new ButtonComponent(buttonsContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+
+		new ButtonComponent(buttonsContainer)
+			.setButtonText("Save")
+			.setCta()
+			.onClick(async () => {
+				await this.handleSave();
+			});
+	}
+
+	private async handleSave(): Promise<void> {
+		const name = this.name.trim();
+		if (!name) {
+			new Notice("Please enter a preset name");
+			return;
+		}
+
+		this.close();
+		await this.onSubmit(name);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
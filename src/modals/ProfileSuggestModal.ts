@@ -0,0 +1,31 @@
+import { App, SuggestModal } from "obsidian";
+
+/**
+ * Quick picker for the active language-pair profile
+ */
+export class ProfileSuggestModal extends SuggestModal<string> {
+	private profiles: string[];
+	private activeProfile: string;
+	private onChoose: (name: string) => void;
+
+	constructor(app: App, profiles: string[], activeProfile: string, onChoose: (name: string) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.activeProfile = activeProfile;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Switch language profile");
+	}
+
+	getSuggestions(query: string): string[] {
+		const lowerQuery = query.toLowerCase();
+		return this.profiles.filter(name => name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(name: string, el: HTMLElement): void {
+		el.setText(name === this.activeProfile ? `${name} (active)` : name);
+	}
+
+	onChooseSuggestion(name: string): void {
+		this.onChoose(name);
+	}
+}
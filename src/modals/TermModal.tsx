@@ -2,6 +2,7 @@ import { App, Modal, Notice } from "obsidian";
 import type LearnLanguagePlugin from "../main";
 import { createReactRoot, ReactMountPoint } from "../utils/reactMount";
 import { TermModalContent, TermFormValues } from "../components/modals/TermModalContent";
+import type { VerbFields } from "../types";
 
 /**
  * TermModal - Modal wrapper that renders React content
@@ -59,6 +60,7 @@ export class TermModal extends Modal {
 			type: string;
 			context: string;
 			examples: string;
+			verbFields?: VerbFields;
 		},
 		onSubmit?: (result: TermFormValues) => void
 	): void {
@@ -69,7 +71,8 @@ export class TermModal extends Modal {
 			sourceTerm: values.source,
 			type: values.type,
 			context: values.context,
-			examples: values.examples
+			examples: values.examples,
+			verbFields: values.verbFields
 		};
 		this.onSubmitCallback = onSubmit || null;
 		this.open();
@@ -80,8 +83,8 @@ export class TermModal extends Modal {
 		contentEl.empty();
 		contentEl.addClass("ll-term-modal");
 
-		const targetLanguage = this.plugin.settings.targetLanguage || "French";
-		const sourceLanguage = this.plugin.settings.sourceLanguage || "Spanish";
+		const targetLanguage = this.plugin.profileSettings.targetLanguage || "French";
+		const sourceLanguage = this.plugin.profileSettings.sourceLanguage || "Spanish";
 
 		// Handle Ask AI
 		const handleAskAI = async (term: string) => {
@@ -158,7 +161,7 @@ export class TermModal extends Modal {
 		this.reactMount = createReactRoot(
 			contentEl,
 			this.app,
-			this.plugin.settings,
+			this.plugin.profileSettings,
 			this.plugin.filterService,
 			this.plugin.dictionaryService
 		);
@@ -0,0 +1,84 @@
+import React from "react";
+import { App, Modal, Notice } from "obsidian";
+import { createReactRoot, ReactMountPoint } from "../utils/reactMount";
+import type { LearnLanguageSettings, VerbEntry, VerbFields } from "../types";
+import type { FilterService, DictionaryService, TermService } from "../services";
+import { getParadigmProfile, getTenseColumns } from "../utils/tenseProfiles";
+import { VerbParadigmModalContent } from "../components/modals/VerbParadigmModalContent";
+
+export interface VerbParadigmModalDeps {
+	settings: LearnLanguageSettings;
+	filterService: FilterService;
+	dictionaryService: DictionaryService;
+	/** Without a term service the paradigm is read-only */
+	termService?: TermService;
+}
+
+/**
+ * VerbParadigmModal - Full conjugation paradigm of a verb, editable in place
+ */
+export class VerbParadigmModal extends Modal {
+	private reactMount: ReactMountPoint | null = null;
+	private deps: VerbParadigmModalDeps;
+	private entry: VerbEntry;
+
+	constructor(app: App, deps: VerbParadigmModalDeps, entry: VerbEntry) {
+		super(app);
+		this.deps = deps;
+		this.entry = entry;
+	}
+
+	onOpen(): void {
+		const { contentEl, modalEl } = this;
+		contentEl.empty();
+		modalEl.addClass("ll-paradigm-modal");
+
+		const { settings, termService } = this.deps;
+
+		const handleSave = async (fields: VerbFields) => {
+			if (!termService) return;
+			try {
+				await termService.updateVerbFields(this.entry.file.path, fields);
+				new Notice(`Conjugations of "${this.entry.F}" saved`);
+				this.close();
+			} catch (e) {
+				console.error("VerbParadigmModal: save failed", e);
+				new Notice("Failed to save conjugations. Check console for details.");
+			}
+		};
+
+		const handleOpenNote = () => {
+			this.app.workspace.openLinkText(this.entry.file.path, "");
+			this.close();
+		};
+
+		this.reactMount = createReactRoot(
+			contentEl,
+			this.app,
+			settings,
+			this.deps.filterService,
+			this.deps.dictionaryService,
+			termService
+		);
+
+		this.reactMount.render(
+			<VerbParadigmModalContent
+				entry={this.entry}
+				tenseColumns={getTenseColumns(settings)}
+				paradigm={getParadigmProfile(settings)}
+				canEdit={!!termService}
+				onSave={handleSave}
+				onOpenNote={handleOpenNote}
+				onClose={() => this.close()}
+			/>
+		);
+	}
+
+	onClose(): void {
+		if (this.reactMount) {
+			this.reactMount.unmount();
+			this.reactMount = null;
+		}
+		this.contentEl.empty();
+	}
+}
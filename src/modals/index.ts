@@ -1,2 +1,6 @@
 export { TermModal } from "./TermModal";
 export { AskAIModal } from "./AskAIModal";
+export { VerbParadigmModal } from "./VerbParadigmModal";
+export { ConjugationReportModal } from "./ConjugationReportModal";
+export { ProfileSuggestModal } from "./ProfileSuggestModal";
+export { PresetNameModal } from "./PresetNameModal";
@@ -1,9 +1,28 @@
 import React from "react";
 import { MarkdownPostProcessorContext, MarkdownRenderChild, App, TFile, CachedMetadata, LinkCache } from "obsidian";
-import { LearnLanguageSettings, FilterState, DictionaryEntry } from "../types";
-import { DictionaryService, FilterService, TermService } from "../services";
+import { FilterState, FilterPreset, DictionaryEntry, TableLayout, TableColumn, TableSort, ReviewSessionOptions } from "../types";
+import type { ProfileServices } from "../services";
 import { DictionaryComponent } from "../components/dictionary";
 import { createReactRoot, ReactMountPoint } from "../utils";
+import { formatTagFilter, parseTagFilter } from "../utils/tagFilter";
+import { formatFacetOption, parseFacetOption } from "../utils/facets";
+import {
+	formatColumnsOption,
+	formatSortOption,
+	getDefaultTableLayout,
+	parseColumnsOption,
+	parseSortOption
+} from "../utils/columns";
+import { formatPresetValue, getPresetFilterState } from "../utils/presets";
+
+/**
+ * Tag options use the filters' tag syntax: "#tag" (with subtags), "=#tag" (only the tag), "-#tag" or "!#tag" (exclude)
+ */
+function parseTagOption(value: string | undefined): string {
+	if (!value) return "all";
+	const filter = parseTagFilter(value);
+	return filter ? formatTagFilter(filter) : value;
+}
 
 /**
  * Parse YAML-like options from code block content
@@ -15,6 +34,11 @@ function parseBlockOptions(source: string): Partial<FilterState> & {
 	showPagination?: boolean;
 	outlinksOnly?: boolean;
 	allowExport?: boolean;
+	profile?: string;
+	preset?: string;
+	columns: TableColumn[];
+	sort?: TableSort;
+	hasSort: boolean;
 } & { explicitFilterKeys: Set<keyof FilterState> } {
 	const options: Record<string, string> = {};
 	const explicitFilterKeys = new Set<keyof FilterState>();
@@ -35,21 +59,28 @@ function parseBlockOptions(source: string): Partial<FilterState> & {
 	if (options.revision) explicitFilterKeys.add("revision");
 	if (options.rating) explicitFilterKeys.add("rating");
 	if (options.study) explicitFilterKeys.add("study");
+	if (options.query) explicitFilterKeys.add("query");
 
 	return {
 		targetWord: options.targetword || options.french || "all",
 		sourceWord: options.sourceword || options.spanish || "all",
-		type: options.type || "all",
-		context: options.context || "all",
-		revision: options.revision || "all",
-		rating: options.rating || "all",
+		type: parseFacetOption(options.type, parseTagOption),
+		context: parseFacetOption(options.context, parseTagOption),
+		revision: parseFacetOption(options.revision),
+		rating: parseFacetOption(options.rating),
 		study: (options.study as "yes" | "no" | "source") || "no",
+		query: options.query,
 		limit: options.limit ? parseInt(options.limit) : undefined,
 		pageSize: options.pagesize ? parseInt(options.pagesize) : 50,
 		showStudy: options.showstudy !== "false",
 		showPagination: options.showpagination !== "false",
 		outlinksOnly: options.outlinksonly === "true" || options.lessonmode === "true",
 		allowExport: options.allowexport === "true",
+		profile: options.profile || undefined,
+		preset: options.preset || undefined,
+		columns: parseColumnsOption(options.columns),
+		sort: parseSortOption(options.sort),
+		hasSort: options.sort !== undefined,
 		explicitFilterKeys
 	};
 }
@@ -60,13 +91,13 @@ function parseBlockOptions(source: string): Partial<FilterState> & {
  *
  * @param app - The Obsidian App instance
  * @param sourcePath - Path of the current document
- * @param dictionaryFolder - The folder containing dictionary entries (e.g., "10. Dictionary")
+ * @param isDictionaryFile - Whether a path is discovered as a dictionary entry
  * @returns Set of file paths that are linked from the current document
  */
 function getOutlinksToDict(
 	app: App,
 	sourcePath: string,
-	dictionaryFolder: string
+	isDictionaryFile: (path: string) => boolean
 ): Set<string> {
 	const outlinks = new Set<string>();
 
@@ -87,11 +118,8 @@ function getOutlinksToDict(
 		const linkedFile = app.metadataCache.getFirstLinkpathDest(link.link, sourcePath);
 		if (!linkedFile) continue;
 
-		// Check if the linked file is in the dictionary folder and is not an image
-		const isInDictFolder = linkedFile.path.includes(dictionaryFolder);
-		const isImage = /\.(png|jpg|jpeg|gif|svg|webp|bmp)$/i.test(linkedFile.path);
-
-		if (isInDictFolder && !isImage) {
+		// Check if the linked file is a dictionary entry (images are not .md)
+		if (isDictionaryFile(linkedFile.path)) {
 			outlinks.add(linkedFile.path);
 		}
 	}
@@ -141,17 +169,28 @@ function upsertKeyValueLine(
 	return [...lines, nextLine];
 }
 
+/**
+ * Removes the line of a key, if present
+ */
+function removeKeyValueLine(lines: string[], key: string): string[] {
+	const re = new RegExp(`^\\s*${key}\\s*:\\s*.*$`, "i");
+	return lines.filter(l => !re.test(l));
+}
+
 function normalizeFilterValue(value: unknown, fallback: string): string {
 	if (value == null) return fallback;
 	const trimmed = String(value).trim();
 	return trimmed.length === 0 ? fallback : trimmed;
 }
 
-async function persistFiltersIntoCodeBlock(
+/**
+ * Rewrite the option lines of the fenced block that contains (or is nearest to) the anchor line
+ */
+async function updateCodeBlockLines(
 	app: App,
 	sourcePath: string,
 	anchorLine: number,
-	filters: Partial<FilterState>,
+	update: (lines: string[]) => string[],
 	blockType: string = "learn-dictionary"
 ): Promise<boolean> {
 	const file = app.vault.getAbstractFileByPath(sourcePath);
@@ -185,16 +224,7 @@ async function persistFiltersIntoCodeBlock(
 		}, blocks[0]);
 	}
 
-	let inner = lines.slice(chosen.start + 1, chosen.end);
-
-	// Update the filter keys in the code block content
-	inner = upsertKeyValueLine(inner, "targetWord", filters.targetWord ?? "all");
-	inner = upsertKeyValueLine(inner, "sourceWord", filters.sourceWord ?? "all");
-	inner = upsertKeyValueLine(inner, "type", filters.type ?? "all");
-	inner = upsertKeyValueLine(inner, "context", filters.context ?? "all");
-	inner = upsertKeyValueLine(inner, "revision", filters.revision ?? "all");
-	inner = upsertKeyValueLine(inner, "rating", filters.rating ?? "all");
-	inner = upsertKeyValueLine(inner, "study", (filters.study as any) ?? "no");
+	const inner = update(lines.slice(chosen.start + 1, chosen.end));
 
 	const nextLines = [...lines.slice(0, chosen.start + 1), ...inner, ...lines.slice(chosen.end)];
 	const nextText = nextLines.join("\n");
@@ -205,6 +235,70 @@ async function persistFiltersIntoCodeBlock(
 	return true;
 }
 
+/** Filter keys written to the block, with their form in the block */
+const PERSISTED_FILTERS: Array<{ key: "targetWord" | "sourceWord" | "type" | "context" | "revision" | "rating"; format: (filters: Partial<FilterState>) => string }> = [
+	{ key: "targetWord", format: f => f.targetWord ?? "all" },
+	{ key: "sourceWord", format: f => f.sourceWord ?? "all" },
+	{ key: "type", format: f => formatFacetOption(f.type) },
+	{ key: "context", format: f => formatFacetOption(f.context) },
+	{ key: "revision", format: f => formatFacetOption(f.revision) },
+	{ key: "rating", format: f => formatFacetOption(f.rating) },
+];
+
+/**
+ * Write the filters into the code block. With a preset, only the filters that differ
+ * from it are written, so later changes to the preset still reach the block.
+ */
+async function persistFiltersIntoCodeBlock(
+	app: App,
+	sourcePath: string,
+	anchorLine: number,
+	filters: Partial<FilterState>,
+	preset: FilterPreset | null,
+	blockType: string = "learn-dictionary"
+): Promise<boolean> {
+	return updateCodeBlockLines(app, sourcePath, anchorLine, lines => {
+		let inner = preset
+			? upsertKeyValueLine(lines, "preset", preset.name)
+			: removeKeyValueLine(lines, "preset");
+
+		// Update the filter keys in the code block content
+		for (const { key, format } of PERSISTED_FILTERS) {
+			const fromPreset = preset !== null && formatPresetValue(filters, key) === formatPresetValue(preset.filters, key);
+			inner = fromPreset ? removeKeyValueLine(inner, key) : upsertKeyValueLine(inner, key, format(filters));
+		}
+		inner = upsertKeyValueLine(inner, "study", (filters.study as any) ?? "no");
+		// Only blocks that declare a query (or use a preset with one) get the line back
+		if (preset && formatPresetValue(filters, "query") === formatPresetValue(preset.filters, "query")) {
+			inner = removeKeyValueLine(inner, "query");
+		} else if (filters.query !== undefined) {
+			inner = upsertKeyValueLine(inner, "query", filters.query);
+		}
+
+		return inner;
+	}, blockType);
+}
+
+/**
+ * Write the columns (and the sort, once one was picked or declared) into the code block
+ */
+async function persistLayoutIntoCodeBlock(
+	app: App,
+	sourcePath: string,
+	anchorLine: number,
+	layout: TableLayout,
+	includeSort: boolean,
+	blockType: string = "learn-dictionary"
+): Promise<boolean> {
+	return updateCodeBlockLines(app, sourcePath, anchorLine, lines => {
+		let inner = upsertKeyValueLine(lines, "columns", formatColumnsOption(layout.columns));
+		if (includeSort || layout.sort) {
+			inner = upsertKeyValueLine(inner, "sort", formatSortOption(layout.sort));
+		}
+		return inner;
+	}, blockType);
+}
+
 // Store React roots for cleanup
 const reactRoots = new Map<HTMLElement, ReactMountPoint>();
 
@@ -219,16 +313,20 @@ const reactRoots = new Map<HTMLElement, ReactMountPoint>();
  * showStudy: true
  * showPagination: true
  * outlinksOnly: true
+ * profile: German from English
  * ```
  *
  * Options:
  * - targetWord/french: Filter by target word (default: "all")
  * - sourceWord/spanish: Filter by source word (default: "all")
- * - type: Filter by type (default: "all")
- * - context: Filter by context (default: "all")
- * - revision: Filter by revision status (default: "all")
+ * - type: Filter by type (default: "all"). "#tag" includes subtags, "=#tag" only the tag, "-#tag" excludes it
+ * - context: Filter by context, same tag syntax as type (default: "all")
+ * - revision: Filter by revision status, or "due today" / "overdue" (default: "all")
  * - rating: Filter by rating (default: "all")
+ *   type, context, revision and rating also take lists, e.g. `type: [#verbe, #expression]` (any of them)
  * - study: Study mode - "yes", "no", or "source" (default: "no")
+ * - query: Boolean filter query, e.g. `(type:#verbe OR type:#expression) NOT context:#A1 revision<3`.
+ *   Also shows the query box so the query can be edited in place.
  * - limit: Maximum number of entries to display
  * - pageSize: Number of entries per page (default: 50)
  * - showStudy: Show study mode toggle (default: true)
@@ -236,44 +334,81 @@ const reactRoots = new Map<HTMLElement, ReactMountPoint>();
  * - outlinksOnly/lessonMode: Only show dictionary entries that are referenced
  *   (linked) in the current document. Useful for lesson notes. (default: false)
  * - allowExport: Show an Export button to export filtered rows to a TXT file. (default: false)
+ * - profile: Language-pair profile to read from (default: the active profile)
+ * - preset: Name of a saved filter preset; filter options written in the block override it.
+ *   Only the filters that differ from the preset are written back.
+ * - columns: Visible columns in order, with optional widths in pixels, e.g.
+ *   `columns: target=220, source, type, revision, created, field:Gender`
+ *   (default: target, source, type, context, rating, examples). "field:<name>" shows any other note field.
+ * - sort: Column and direction, e.g. `sort: revision desc` (default: the dictionary order)
+ *   Columns and sort changed in the table are written back to the block.
  */
 export function registerDictionaryCodeBlockProcessor(
 	app: App,
-	settings: LearnLanguageSettings,
-	dictionaryService: DictionaryService,
-	filterService: FilterService,
-	termService: TermService,
+	getProfileServices: (profile?: string) => ProfileServices | null,
 	onAskAIForTerm?: () => void,
 	onRegisterRefresher?: (
 		el: HTMLElement,
 		refresher: () => Promise<void> | void
-	) => void | (() => void)
+	) => void | (() => void),
+	onStartReview?: (options: ReviewSessionOptions) => void
 ): (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => Promise<void> {
 
 	return async (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext): Promise<void> => {
 		// Parse options from the code block
 		const options = parseBlockOptions(source);
 
-		// Initial filters come from the block itself
-		const initialFilters: Partial<FilterState> = {
+		// Filters written in the block
+		const blockFilters: Partial<FilterState> = {
 			targetWord: options.targetWord,
 			sourceWord: options.sourceWord,
 			type: options.type,
 			context: options.context,
 			revision: options.revision,
 			rating: options.rating,
-			study: options.study
+			study: options.study,
+			query: options.query
+		};
+
+		const tableLayout: TableLayout = {
+			columns: options.columns.length > 0 ? options.columns : getDefaultTableLayout().columns,
+			...(options.sort ? { sort: options.sort } : {})
 		};
 
 		// Create container with embedded styling
 		const container = el.createDiv({ cls: "ll-embedded-dictionary" });
 
+		const services = getProfileServices(options.profile);
+		if (!services) {
+			container.createDiv({
+				text: `Unknown language profile: ${options.profile}`,
+				cls: "ll-error"
+			});
+			return;
+		}
+		const { settings, dictionaryService, filterService, termService, presetService, schedulerService } = services;
+
+		// Initial filters come from the preset, overridden by the filters written in the block
+		let currentPreset = options.preset ? presetService.getPreset(options.preset) : null;
+		if (options.preset && !currentPreset) {
+			container.createDiv({
+				text: `Unknown filter preset: ${options.preset}`,
+				cls: "ll-error"
+			});
+		}
+		const initialFilters: Partial<FilterState> = currentPreset ? { ...blockFilters, ...getPresetFilterState(currentPreset) } : blockFilters;
+		if (currentPreset) {
+			for (const key of options.explicitFilterKeys) {
+				(initialFilters as Record<string, unknown>)[key] = blockFilters[key];
+			}
+		}
+
 		// Get the source path for outlinks filtering
 		const sourcePath = ctx.sourcePath;
 
 		// Get outlinks if outlinksOnly mode is enabled
 		const outlinksToDict = options.outlinksOnly
-			? getOutlinksToDict(app, sourcePath, settings.dictionaryFolder)
+			? getOutlinksToDict(app, sourcePath, path => dictionaryService.isDictionaryFile(path))
 			: null;
 
 		// Get dictionary entries
@@ -306,7 +441,9 @@ export function registerDictionaryCodeBlockProcessor(
 			settings,
 			filterService,
 			dictionaryService,
-			termService
+			termService,
+			presetService,
+			schedulerService
 		);
 
 		// Store for cleanup
@@ -314,12 +451,11 @@ export function registerDictionaryCodeBlockProcessor(
 
 		// Create refresh handler
 		const handleRefresh = async () => {
-			dictionaryService.invalidateCache();
 			let refreshedEntries = await dictionaryService.getDictionary();
 
 			// Re-check outlinks on refresh (document may have changed)
 			if (options.outlinksOnly) {
-				const refreshedOutlinks = getOutlinksToDict(app, sourcePath, settings.dictionaryFolder);
+				const refreshedOutlinks = getOutlinksToDict(app, sourcePath, path => dictionaryService.isDictionaryFile(path));
 				refreshedEntries = filterEntriesByOutlinks(refreshedEntries, refreshedOutlinks);
 			}
 
@@ -333,23 +469,32 @@ export function registerDictionaryCodeBlockProcessor(
 		// Register this mounted processor so the plugin can refresh it later
 		const unregisterRefresher = onRegisterRefresher?.(el, handleRefresh);
 
+		// Follow incremental index updates
+		const unsubscribeIndex = dictionaryService.onIndexChange(() => {
+			void handleRefresh();
+		});
+
 		// Persist handler (debounced) - writes back into the markdown code block itself
 		const sectionInfo = (ctx as any)?.getSectionInfo?.(el) as { lineStart?: number; lineEnd?: number } | undefined;
 		let persistTimer: number | null = null;
 		let lastScheduled: string | null = null;
 		let lastWritten: string | null = null;
 		let lastSeenFilters: Partial<FilterState> | null = null;
+		let latestFilters: Partial<FilterState> = initialFilters;
 		const persistFilters = (next: Partial<FilterState>) => {
+			latestFilters = next;
 			if (!sourcePath || sectionInfo?.lineStart == null || sectionInfo.lineStart < 0) return;
 
 			const normalizedNext = {
 				targetWord: normalizeFilterValue(next.targetWord, "all"),
 				sourceWord: normalizeFilterValue(next.sourceWord, "all"),
-				type: normalizeFilterValue(next.type, "all"),
-				context: normalizeFilterValue(next.context, "all"),
-				revision: normalizeFilterValue(next.revision, "all"),
-				rating: normalizeFilterValue(next.rating, "all"),
-				study: normalizeFilterValue(next.study as any, "no")
+				type: formatFacetOption(next.type),
+				context: formatFacetOption(next.context),
+				revision: formatFacetOption(next.revision),
+				rating: formatFacetOption(next.rating),
+				study: normalizeFilterValue(next.study as any, "no"),
+				query: options.query !== undefined || next.query !== undefined ? normalizeFilterValue(next.query, "all") : undefined,
+				preset: currentPreset?.name
 			} as const;
 
 			const previous = lastSeenFilters;
@@ -359,11 +504,12 @@ export function registerDictionaryCodeBlockProcessor(
 			if (previous) {
 				if (normalizeFilterValue(previous.targetWord, "all") !== normalizedNext.targetWord) changedKeys.push("targetWord");
 				if (normalizeFilterValue(previous.sourceWord, "all") !== normalizedNext.sourceWord) changedKeys.push("sourceWord");
-				if (normalizeFilterValue(previous.type, "all") !== normalizedNext.type) changedKeys.push("type");
-				if (normalizeFilterValue(previous.context, "all") !== normalizedNext.context) changedKeys.push("context");
-				if (normalizeFilterValue(previous.revision, "all") !== normalizedNext.revision) changedKeys.push("revision");
-				if (normalizeFilterValue(previous.rating, "all") !== normalizedNext.rating) changedKeys.push("rating");
+				if (formatFacetOption(previous.type) !== normalizedNext.type) changedKeys.push("type");
+				if (formatFacetOption(previous.context) !== normalizedNext.context) changedKeys.push("context");
+				if (formatFacetOption(previous.revision) !== normalizedNext.revision) changedKeys.push("revision");
+				if (formatFacetOption(previous.rating) !== normalizedNext.rating) changedKeys.push("rating");
 				if (normalizeFilterValue(previous.study as any, "no") !== normalizedNext.study) changedKeys.push("study");
+				if (previous.query !== normalizedNext.query) changedKeys.push("query");
 			} else {
 				// First emission after mount guard: treat as a non-typeahead change (persist quickly)
 				changedKeys.push("type");
@@ -372,6 +518,7 @@ export function registerDictionaryCodeBlockProcessor(
 			const isOnlyTypeAheadChange = changedKeys.length > 0 && changedKeys.every(k => k === "targetWord" || k === "sourceWord");
 			const debounceMs = isOnlyTypeAheadChange ? 45_000 : 800;
 
+			const preset = currentPreset;
 			const snapshot = JSON.stringify(normalizedNext);
 			if (snapshot === lastWritten) return;
 			if (snapshot === lastScheduled) return;
@@ -385,6 +532,7 @@ export function registerDictionaryCodeBlockProcessor(
 					sourcePath,
 					sectionInfo.lineStart ?? 0,
 					normalizedNext as any,
+					preset,
 					"learn-dictionary"
 					);
 					if (ok) {
@@ -397,20 +545,53 @@ export function registerDictionaryCodeBlockProcessor(
 			}, debounceMs);
 		};
 
+		// A picked preset replaces the block's filters; the block keeps its name
+		const handlePresetChange = (name: string | undefined) => {
+			currentPreset = name ? presetService.getPreset(name) : null;
+			persistFilters(latestFilters);
+		};
+
+		// Layout changes are written on their own, shortly after the last one (resizing emits once per drag)
+		let layoutTimer: number | null = null;
+		const persistLayout = (layout: TableLayout) => {
+			if (!sourcePath || sectionInfo?.lineStart == null || sectionInfo.lineStart < 0) return;
+
+			if (layoutTimer) window.clearTimeout(layoutTimer);
+			layoutTimer = window.setTimeout(() => {
+				layoutTimer = null;
+				void persistLayoutIntoCodeBlock(
+					app,
+					sourcePath,
+					sectionInfo.lineStart ?? 0,
+					layout,
+					options.hasSort,
+					"learn-dictionary"
+				);
+			}, 800);
+		};
+
 		// Render function
 		const renderComponent = (entriesToRender: DictionaryEntry[]) => {
 			reactRoot.render(
 				<DictionaryComponent
 					entries={entriesToRender}
 					showRefresh={true}
-					showStudyMode={options.showStudy !== false}
+					showStudyMode={options.showStudy !== false && settings.enableStudyMode}
 					showPagination={options.showPagination !== false}
 					pageSize={options.pageSize || 50}
 					allowExport={options.allowExport === true}
+					showQuery={initialFilters.query !== undefined}
 					initialFilters={initialFilters}
+					initialPreset={currentPreset?.name}
+					tableLayout={tableLayout}
 					onRefresh={handleRefresh}
 					onFiltersChange={persistFilters}
+					onPresetChange={handlePresetChange}
+					onTableLayoutChange={persistLayout}
 					onAskAIForTerm={onAskAIForTerm}
+					onStartReview={onStartReview
+						? (filters, preset) => onStartReview({ filters, preset, profile: options.profile })
+						: undefined}
 				/>
 			);
 		};
@@ -421,10 +602,15 @@ export function registerDictionaryCodeBlockProcessor(
 		// Cleanup on unload (when note is closed or re-rendered)
 		const cleanupChild = new MarkdownRenderChild(container);
 		cleanupChild.onunload = () => {
+			unsubscribeIndex();
 			if (persistTimer) {
 				window.clearTimeout(persistTimer);
 				persistTimer = null;
 			}
+			if (layoutTimer) {
+				window.clearTimeout(layoutTimer);
+				layoutTimer = null;
+			}
 			if (typeof unregisterRefresher === "function") {
 				try {
 					unregisterRefresher();
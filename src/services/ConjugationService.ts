@@ -0,0 +1,125 @@
+import { App } from "obsidian";
+import { LearnLanguageSettings, VerbEntry, VerbFields } from "../types";
+import { ConjugationResult, conjugateVerb } from "../utils/conjugation";
+import { getParadigmProfile } from "../utils/tenseProfiles";
+import { DictionaryService } from "./DictionaryService";
+import { TermService } from "./TermService";
+
+export interface ConjugationReportItem {
+	path: string;
+	verb: string;
+	/** Filled fields, or the reason the verb was skipped */
+	detail: string;
+}
+
+export interface ConjugationReport {
+	/** Verbs that received generated fields */
+	filled: ConjugationReportItem[];
+	/** Regular verbs that already had every generated field */
+	complete: number;
+	/** Verbs marked irregular by the verb taxonomy (never generated) */
+	irregular: ConjugationReportItem[];
+	/** Regular verbs the rules cannot handle */
+	skipped: ConjugationReportItem[];
+}
+
+/**
+ * ConjugationService - Fills conjugations of regular verbs from offline rules
+ */
+export class ConjugationService {
+	private app: App;
+	private settings: LearnLanguageSettings;
+	private dictionaryService: DictionaryService;
+	private termService: TermService;
+
+	constructor(
+		app: App,
+		settings: LearnLanguageSettings,
+		dictionaryService: DictionaryService,
+		termService: TermService
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.dictionaryService = dictionaryService;
+		this.termService = termService;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: LearnLanguageSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Generate the verb fields of a verb entry from its group rule
+	 */
+	generate(entry: VerbEntry): ConjugationResult {
+		if (entry.Irregular) {
+			return { ok: false, reason: "irregular verb" };
+		}
+
+		const fields = entry.verbFields ?? {};
+		const auxiliaryField = getParadigmProfile(this.settings).auxiliaryField;
+		const infinitive = fields.infinitif || entry.F;
+		const auxiliary = auxiliaryField ? fields[auxiliaryField] ?? "" : "";
+
+		return conjugateVerb(this.settings.targetLanguage, entry.Group, infinitive, auxiliary);
+	}
+
+	/**
+	 * Generated fields that the entry does not have yet
+	 */
+	getMissingFields(entry: VerbEntry, generated: VerbFields): VerbFields {
+		const current = entry.verbFields ?? {};
+		const missing: VerbFields = {};
+
+		for (const [field, value] of Object.entries(generated)) {
+			if (value && !current[field]?.trim()) {
+				missing[field] = value;
+			}
+		}
+
+		return missing;
+	}
+
+	/**
+	 * Fill missing conjugations of every regular verb. Existing values are never overwritten.
+	 */
+	async fillMissingConjugations(): Promise<ConjugationReport> {
+		const report: ConjugationReport = { filled: [], complete: 0, irregular: [], skipped: [] };
+		const verbs = await this.dictionaryService.getVerbs();
+
+		for (const entry of verbs) {
+			const item = { path: entry.file.path, verb: entry.F };
+
+			if (entry.Irregular) {
+				report.irregular.push({ ...item, detail: entry.Group ? `group ${entry.Group}` : "" });
+				continue;
+			}
+
+			const result = this.generate(entry);
+			if (!result.ok) {
+				report.skipped.push({ ...item, detail: result.reason });
+				continue;
+			}
+
+			const missing = this.getMissingFields(entry, result.fields);
+			const missingKeys = Object.keys(missing);
+			if (missingKeys.length === 0) {
+				report.complete++;
+				continue;
+			}
+
+			try {
+				await this.termService.updateVerbFields(entry.file.path, missing, false);
+				report.filled.push({ ...item, detail: missingKeys.join(", ") });
+			} catch (error) {
+				console.error(`Error filling conjugations of ${entry.file.path}:`, error);
+				report.skipped.push({ ...item, detail: "write failed" });
+			}
+		}
+
+		return report;
+	}
+}
@@ -1,12 +1,42 @@
-import { App, TFile, TFolder, CachedMetadata } from "obsidian";
+import { App, TAbstractFile, TFile, TFolder, CachedMetadata, getLinkpath } from "obsidian";
 import {
 	DictionaryEntry,
 	VerbEntry,
 	GrammarPage,
-	VerbGroup,
+	GrammarLinkedEntry,
 	LearnLanguageSettings,
+	DictionaryUpdateEvent,
+	LogicalField,
+	LOGICAL_FIELDS,
 	getLocaleCode
 } from "../types";
+import { getDataFromJsonFile, saveJsonFile } from "../utils/dataManagement";
+import { getFieldMapping, parseInlineFields, readFieldValue } from "../utils/fieldSchema";
+import { readVerbFields } from "../utils/verbFields";
+import { findVerbGroupRule, isVerbType } from "../utils/verbTaxonomy";
+import { getProfileVerbFields } from "../utils/tenseProfiles";
+import { isInFolder, matchesAnyGlob } from "../utils/paths";
+import { isIgnoredByFrontmatter } from "../utils/discovery";
+import { toSearchKey } from "../utils/searchKeys";
+import { getSchedulingState, isDueOn, parseDateKey, toDateKey } from "../utils/scheduler";
+
+/**
+ * Bump whenever DictionaryEntry or the parsing rules change:
+ * older snapshots are then discarded and every file is re-parsed.
+ */
+const INDEX_SNAPSHOT_VERSION = 8;
+const INDEX_SNAPSHOT_FILE = "dictionary-index.json";
+const INDEX_SNAPSHOT_SAVE_DELAY = 2000;
+
+/**
+ * On-disk snapshot of the parsed dictionary index
+ */
+interface DictionaryIndexSnapshot {
+	version: number;
+	/** Settings that affect parsing; a mismatch invalidates the snapshot */
+	settingsKey: string;
+	files: Record<string, { mtime: number; entry: DictionaryEntry }>;
+}
 
 /**
  * DictionaryService - Centralized data management for dictionary entries
@@ -16,133 +46,571 @@ export class DictionaryService {
 	private app: App;
 	private settings: LearnLanguageSettings;
 
-	// Cache
+	// Persistent index of parsed entries keyed by file path
+	private index = new Map<string, DictionaryEntry>();
+	private indexReady: boolean = false;
+	private indexBuild: Promise<void> | null = null;
+	private indexGeneration: number = 0;
+	// Modification time of each file when it was parsed (persisted with the snapshot)
+	private indexMtimes = new Map<string, number>();
+	private snapshotFile: string;
+	private snapshotTimer: number | null = null;
+	private skipSnapshot: boolean = false;
+
+	// Derived caches (rebuilt lazily whenever the index changes)
 	private dictionaryCache: DictionaryEntry[] | null = null;
 	private verbsCache: VerbEntry[] | null = null;
 	private grammarCache: GrammarPage[] | null = null;
-	private cacheTimestamp: number = 0;
-	private cacheTTL: number = 5000; // 5 seconds cache TTL
+	// Day the isDue flags of the index were computed for
+	private dueDay: string | null = null;
+	// Keeps verb objects stable for unchanged entries so rows can skip re-rendering
+	private verbEntries = new WeakMap<DictionaryEntry, VerbEntry>();
 
-	constructor(app: App, settings: LearnLanguageSettings) {
+	// Change stream
+	private changeListeners = new Set<(events: DictionaryUpdateEvent[]) => void>();
+	private pendingEvents: DictionaryUpdateEvent[] = [];
+	private emitTimer: number | null = null;
+	private emitDelay: number = 250;
+
+	/**
+	 * @param snapshotFile - Plugin data file of the index snapshot (one per language-pair profile)
+	 */
+	constructor(app: App, settings: LearnLanguageSettings, snapshotFile: string = INDEX_SNAPSHOT_FILE) {
 		this.app = app;
 		this.settings = settings;
+		this.snapshotFile = snapshotFile;
 	}
 
 	/**
-	 * Invalidate all caches - call this when files change
+	 * Drop the whole index - the next read rebuilds it from the vault.
+	 * Per-file changes should go through the incremental handlers instead.
+	 * @param discardSnapshot - Also ignore the on-disk snapshot and re-parse every file
 	 */
-	invalidateCache(): void {
-		this.dictionaryCache = null;
-		this.verbsCache = null;
-		this.grammarCache = null;
-		this.cacheTimestamp = 0;
+	invalidateCache(discardSnapshot: boolean = false): void {
+		if (discardSnapshot) this.skipSnapshot = true;
+		this.index = new Map();
+		this.indexMtimes = new Map();
+		this.indexReady = false;
+		this.indexBuild = null;
+		this.indexGeneration++;
+		this.markDirty();
 	}
 
 	/**
-	 * Update settings reference
+	 * Update settings reference. The index is only rebuilt when a setting that changes
+	 * how files are parsed did; other changes (e.g. a table layout) just drop the derived caches.
 	 */
 	updateSettings(settings: LearnLanguageSettings): void {
+		const previousKey = this.getSnapshotSettingsKey();
+		const previousTaxonomy = JSON.stringify(this.settings.verbTaxonomy);
 		this.settings = settings;
-		this.invalidateCache();
+		if (this.getSnapshotSettingsKey() !== previousKey) {
+			this.invalidateCache();
+			return;
+		}
+		// Verb groups are resolved from the taxonomy when verb entries are built
+		if (JSON.stringify(settings.verbTaxonomy) !== previousTaxonomy) {
+			this.verbEntries = new WeakMap();
+		}
+		this.markDirty();
 	}
 
 	/**
-	 * Check if cache is still valid
+	 * Subscribe to index changes. Events are batched and emitted after a short delay.
+	 * Returns an unsubscribe function.
 	 */
-	private isCacheValid(): boolean {
-		return Date.now() - this.cacheTimestamp < this.cacheTTL;
+	onIndexChange(listener: (events: DictionaryUpdateEvent[]) => void): () => void {
+		this.changeListeners.add(listener);
+		return () => {
+			this.changeListeners.delete(listener);
+		};
 	}
 
 	/**
 	 * Get all dictionary entries from the dictionary folder
 	 */
 	async getDictionary(): Promise<DictionaryEntry[]> {
-		if (this.dictionaryCache && this.isCacheValid()) {
+		await this.ensureIndex();
+		this.refreshDueFlags();
+
+		if (this.dictionaryCache) {
 			return this.dictionaryCache;
 		}
 
-		const entries: DictionaryEntry[] = [];
-		const folder = this.app.vault.getAbstractFileByPath(this.settings.dictionaryFolder);
+		const entries = Array.from(this.index.values());
+
+		entries.sort(this.compareEntries());
+		this.dictionaryCache = entries;
+
+		return entries;
+	}
+
+	/**
+	 * Recompute isDue once per day; entries whose flag changes are replaced so views re-render them
+	 */
+	private refreshDueFlags(): void {
+		const today = toDateKey(new Date());
+		if (this.dueDay === today) return;
+		this.dueDay = today;
+
+		let changed = false;
+		for (const [path, entry] of this.index) {
+			const isDue = isDueOn(entry.due, today);
+			if (entry.isDue === isDue) continue;
+			this.index.set(path, { ...entry, isDue });
+			changed = true;
+		}
+		if (changed) this.markDirty();
+	}
+
+	// ============================================
+	// Incremental index maintenance
+	// ============================================
+
+	/**
+	 * Re-parse a single file after its metadata changed.
+	 * Content is passed through from the metadataCache "changed" event when available.
+	 */
+	async handleFileChanged(file: TFile, content?: string): Promise<void> {
+		// Grammar pages live anywhere in the vault, so any change may affect them
+		this.grammarCache = null;
+		if (!(await this.waitForIndex())) return;
+
+		if (!this.isDictionaryFile(file.path)) {
+			// A file may have been moved out of scope by a frontmatter or folder change
+			this.removeFromIndex(file.path);
+			return;
+		}
+
+		const entry = await this.parseFileToEntry(file, content);
+		if (!entry) {
+			this.removeFromIndex(file.path);
+			return;
+		}
+
+		const existed = this.index.has(file.path);
+		this.index.set(file.path, entry);
+		this.indexMtimes.set(file.path, file.stat.mtime);
+		this.markDirty();
+		this.queueEvent({ type: existed ? "update" : "add", entry });
+		this.scheduleSnapshotSave();
+	}
+
+	/**
+	 * Drop a deleted file from the index
+	 */
+	async handleFileDeleted(path: string): Promise<void> {
+		this.grammarCache = null;
+		if (!(await this.waitForIndex())) return;
+		this.removeFromIndex(path);
+	}
+
+	/**
+	 * Move an index entry after a rename (or folder move)
+	 */
+	async handleFileRenamed(file: TAbstractFile, oldPath: string): Promise<void> {
+		this.grammarCache = null;
+		if (!(await this.waitForIndex())) return;
+
+		if (file instanceof TFolder) {
+			// Folder renames fire once for the folder; re-key every descendant
+			const prefix = oldPath + "/";
+			for (const path of Array.from(this.index.keys())) {
+				if (path.startsWith(prefix)) this.removeFromIndex(path);
+			}
+			for (const child of this.getMarkdownFilesRecursively(file)) {
+				await this.handleFileChanged(child);
+			}
+			return;
+		}
+
+		if (!(file instanceof TFile)) return;
+		this.removeFromIndex(oldPath);
+		await this.handleFileChanged(file);
+	}
+
+	/**
+	 * Build the index once; later calls reuse it
+	 */
+	private async ensureIndex(): Promise<void> {
+		// Loop: an invalidateCache() during the build discards it and starts over
+		while (!this.indexReady) {
+			if (!this.indexBuild) {
+				const generation = this.indexGeneration;
+				this.indexBuild = this.buildIndex().then(({ index, mtimes }) => {
+					if (generation !== this.indexGeneration) return;
+					this.index = index;
+					this.indexMtimes = mtimes;
+					this.indexReady = true;
+					this.indexBuild = null;
+					this.markDirty();
+					this.scheduleSnapshotSave();
+				});
+			}
+			await this.indexBuild;
+		}
+	}
+
+	/**
+	 * Wait for an in-flight build. Returns false when no index exists yet,
+	 * in which case per-file updates can be skipped (the first read scans everything).
+	 */
+	private async waitForIndex(): Promise<boolean> {
+		if (this.indexReady) return true;
+		if (!this.indexBuild) return false;
+		await this.indexBuild;
+		return this.indexReady;
+	}
 
-		if (!(folder instanceof TFolder)) {
-			console.warn(`Dictionary folder not found: ${this.settings.dictionaryFolder}`);
-			return entries;
+	/**
+	 * Scan the dictionary folders and include globs, reusing snapshot entries whose file is unchanged
+	 */
+	private async buildIndex(): Promise<{ index: Map<string, DictionaryEntry>; mtimes: Map<string, number> }> {
+		const index = new Map<string, DictionaryEntry>();
+		const mtimes = new Map<string, number>();
+		const files = new Map<string, TFile>();
+
+		for (const folderPath of this.getIndexedFolders()) {
+			const folder = this.app.vault.getAbstractFileByPath(folderPath);
+			if (!(folder instanceof TFolder)) {
+				console.warn(`Dictionary folder not found: ${folderPath}`);
+				continue;
+			}
+			for (const file of this.getMarkdownFilesRecursively(folder)) {
+				files.set(file.path, file);
+			}
 		}
 
-		const files = this.getMarkdownFilesRecursively(folder);
+		// Include globs may reach notes outside the folders
+		const { dictionary, verbs } = this.settings.discoveryRules;
+		const includes = [...dictionary.include, ...verbs.include];
+		if (includes.length > 0) {
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				if (matchesAnyGlob(file.path, includes)) files.set(file.path, file);
+			}
+		}
+
+		if (files.size === 0) {
+			return { index, mtimes };
+		}
 
-		for (const file of files) {
-			// Skip templates and database files
-			if (file.path.includes(this.settings.templatesFolder)) continue;
-			if (file.path.includes("French Dictionary DB")) continue;
+		const snapshot = this.skipSnapshot ? null : await this.loadSnapshot();
+		this.skipSnapshot = false;
+
+		for (const file of files.values()) {
+			if (!this.isDictionaryFile(file.path)) continue;
+
+			const cached = snapshot?.files[file.path];
+			if (cached && cached.mtime === file.stat.mtime) {
+				index.set(file.path, cached.entry);
+				mtimes.set(file.path, cached.mtime);
+				continue;
+			}
 
 			const entry = await this.parseFileToEntry(file);
 			if (entry) {
-				entries.push(entry);
+				index.set(file.path, entry);
+				mtimes.set(file.path, file.stat.mtime);
 			}
 		}
 
-		// Sort by name ascending using target language locale
-		const locale = getLocaleCode(this.settings.targetLanguage);
-		entries.sort((a, b) => a.file.name.localeCompare(b.file.name, locale));
-		this.dictionaryCache = entries;
-		this.cacheTimestamp = Date.now();
+		return { index, mtimes };
+	}
 
-		return entries;
+	// ============================================
+	// Snapshot persistence
+	// ============================================
+
+	/**
+	 * Key of the settings that change how files are parsed
+	 */
+	private getSnapshotSettingsKey(): string {
+		return JSON.stringify([
+			this.settings.dictionaryFolder,
+			this.settings.verbsFolder,
+			this.settings.templatesFolder,
+			this.settings.discoveryRules.dictionary,
+			this.settings.discoveryRules.verbs,
+			this.settings.targetLanguage,
+			this.settings.sourceLanguage,
+			this.settings.fieldSchema,
+			this.settings.verbTaxonomy.rootTag,
+			getProfileVerbFields(this.settings),
+		]);
+	}
+
+	/**
+	 * Load the on-disk snapshot, or null if missing or stale
+	 */
+	private async loadSnapshot(): Promise<DictionaryIndexSnapshot | null> {
+		try {
+			const snapshot = await getDataFromJsonFile<DictionaryIndexSnapshot>(this.app, this.snapshotFile);
+			if (!snapshot || snapshot.version !== INDEX_SNAPSHOT_VERSION) return null;
+			if (snapshot.settingsKey !== this.getSnapshotSettingsKey()) return null;
+			if (!snapshot.files || typeof snapshot.files !== "object") return null;
+			return snapshot;
+		} catch (error) {
+			console.warn("LearnLanguage: failed to load dictionary index snapshot", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Debounced snapshot write
+	 */
+	private scheduleSnapshotSave(): void {
+		if (this.snapshotTimer !== null) {
+			window.clearTimeout(this.snapshotTimer);
+		}
+		this.snapshotTimer = window.setTimeout(() => {
+			this.snapshotTimer = null;
+			void this.saveSnapshot();
+		}, INDEX_SNAPSHOT_SAVE_DELAY);
+	}
+
+	/**
+	 * Write any pending snapshot immediately (e.g. on plugin unload)
+	 */
+	async flushSnapshot(): Promise<void> {
+		if (this.snapshotTimer === null) return;
+		window.clearTimeout(this.snapshotTimer);
+		this.snapshotTimer = null;
+		await this.saveSnapshot();
+	}
+
+	private async saveSnapshot(): Promise<void> {
+		if (!this.indexReady) return;
+
+		const files: DictionaryIndexSnapshot["files"] = {};
+		for (const [path, entry] of this.index) {
+			const mtime = this.indexMtimes.get(path);
+			if (mtime === undefined) continue;
+			files[path] = { mtime, entry };
+		}
+
+		const snapshot: DictionaryIndexSnapshot = {
+			version: INDEX_SNAPSHOT_VERSION,
+			settingsKey: this.getSnapshotSettingsKey(),
+			files,
+		};
+
+		try {
+			await saveJsonFile(this.app, this.snapshotFile, snapshot, true);
+		} catch (error) {
+			console.warn("LearnLanguage: failed to save dictionary index snapshot", error);
+		}
+	}
+
+	/**
+	 * Folders scanned into the index: the dictionary folder and, when set, the verbs folder
+	 */
+	private getIndexedFolders(): string[] {
+		const folders = [this.settings.dictionaryFolder];
+		if (this.settings.verbsFolder && !isInFolder(this.settings.verbsFolder, this.settings.dictionaryFolder)) {
+			folders.push(this.settings.verbsFolder);
+		}
+		return folders;
+	}
+
+	/**
+	 * A configured folder if it exists in the vault, else "" (the tag and frontmatter rules apply)
+	 */
+	private getExistingFolder(path: string): string {
+		return path && this.app.vault.getAbstractFileByPath(path) instanceof TFolder ? path : "";
+	}
+
+	/**
+	 * Whether a note lives in the configured verbs folder
+	 */
+	isInVerbsFolder(path: string): boolean {
+		return isInFolder(path, this.settings.verbsFolder);
+	}
+
+	/**
+	 * Whether a note is in the verbs scope: the verbs folder or a verbs include glob, minus the verbs excludes
+	 */
+	private isVerbNote(path: string): boolean {
+		const { include, exclude } = this.settings.discoveryRules.verbs;
+		return (this.isInVerbsFolder(path) || matchesAnyGlob(path, include)) && !matchesAnyGlob(path, exclude);
+	}
+
+	/**
+	 * Whether a path belongs to the dictionary index.
+	 * Notes with "ll-ignore: true" pass this check but are dropped when parsed.
+	 */
+	isDictionaryFile(path: string): boolean {
+		if (!path.endsWith(".md")) return false;
+		if (isInFolder(path, this.settings.templatesFolder)) return false;
+
+		const { include, exclude } = this.settings.discoveryRules.dictionary;
+		if (matchesAnyGlob(path, exclude)) return false;
+
+		return isInFolder(path, this.settings.dictionaryFolder)
+			|| matchesAnyGlob(path, include)
+			|| this.isVerbNote(path);
+	}
+
+	private removeFromIndex(path: string): void {
+		const entry = this.index.get(path);
+		if (!entry) return;
+		this.index.delete(path);
+		this.indexMtimes.delete(path);
+		this.markDirty();
+		this.queueEvent({ type: "delete", entry });
+		this.scheduleSnapshotSave();
+	}
+
+	/**
+	 * Drop derived caches so they get rebuilt from the index
+	 */
+	private markDirty(): void {
+		this.dictionaryCache = null;
+		this.verbsCache = null;
+		this.grammarCache = null;
+	}
+
+	private queueEvent(event: DictionaryUpdateEvent): void {
+		this.pendingEvents.push(event);
+		if (this.emitTimer !== null) return;
+
+		this.emitTimer = window.setTimeout(() => {
+			this.emitTimer = null;
+			const events = this.pendingEvents;
+			this.pendingEvents = [];
+			for (const listener of this.changeListeners) {
+				try {
+					listener(events);
+				} catch (error) {
+					console.error("LearnLanguage: dictionary change listener failed", error);
+				}
+			}
+		}, this.emitDelay);
 	}
 
 	/**
 	 * Get all verb entries (filtered from dictionary)
 	 */
 	async getVerbs(): Promise<VerbEntry[]> {
-		if (this.verbsCache && this.isCacheValid()) {
+		// Resolve the dictionary first: it rebuilds the index (and clears this cache) if needed
+		const dictionary = await this.getDictionary();
+		if (this.verbsCache) {
 			return this.verbsCache;
 		}
 
-		const dictionary = await this.getDictionary();
 		const verbs: VerbEntry[] = [];
 
+		// With a verbs folder, its notes are the verbs; otherwise (or while the folder does not exist)
+		// verbs are found by tag. Verbs include and exclude globs apply on top of either.
+		const { include, exclude } = this.settings.discoveryRules.verbs;
+		const useFolder = !!this.getExistingFolder(this.settings.verbsFolder);
+		const isVerb = (entry: DictionaryEntry) => {
+			const path = entry.file.path;
+			if (matchesAnyGlob(path, exclude)) return false;
+			if (matchesAnyGlob(path, include)) return true;
+			return useFolder ? this.isInVerbsFolder(path) : this.isVerbType(entry.type);
+		};
+
 		for (const entry of dictionary) {
-			if (entry.type && entry.type.includes("#verbe")) {
-				const verbEntry = this.enrichVerbEntry(entry);
+			if (isVerb(entry)) {
+				let verbEntry = this.verbEntries.get(entry);
+				if (!verbEntry) {
+					verbEntry = this.enrichVerbEntry(entry);
+					this.verbEntries.set(entry, verbEntry);
+				}
 				verbs.push(verbEntry);
 			}
 		}
 
-		// Sort by name ascending using target language locale
-		const locale = getLocaleCode(this.settings.targetLanguage);
-		verbs.sort((a, b) => a.file.name.localeCompare(b.file.name, locale));
+		verbs.sort(this.compareEntries());
 
 		this.verbsCache = verbs;
 		return verbs;
 	}
 
+	/**
+	 * Whether a file is a grammar page: any note of the grammar folder when one is set and exists,
+	 * otherwise a note with isGrammar: true or a #grammar context. Grammar globs apply on top.
+	 */
+	isGrammarPage(file: TFile): boolean {
+		if (file.extension !== "md") return false;
+		// Skip templates
+		if (isInFolder(file.path, this.settings.templatesFolder)) return false;
+
+		const { include, exclude } = this.settings.discoveryRules.grammar;
+		if (matchesAnyGlob(file.path, exclude)) return false;
+
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (isIgnoredByFrontmatter(fm)) return false;
+		if (matchesAnyGlob(file.path, include)) return true;
+
+		const grammarFolder = this.getExistingFolder(this.settings.grammarFolder);
+		if (grammarFolder) {
+			return isInFolder(file.path, grammarFolder);
+		}
+
+		if (!fm) return false;
+
+		const isGrammar = fm.isGrammar === true;
+		const hasGrammarContext = this.getFieldValue(fm.context, fm.Context)?.includes("#grammar");
+		return isGrammar || !!hasGrammarContext;
+	}
+
+	/**
+	 * Dictionary entries linking to any of the given paths, grouped by target path
+	 */
+	private async getEntriesLinkingTo(targets: Set<string>): Promise<Map<string, GrammarLinkedEntry[]>> {
+		const result = new Map<string, GrammarLinkedEntry[]>();
+		if (targets.size === 0) return result;
+
+		const dictionary = await this.getDictionary();
+		for (const entry of dictionary) {
+			const cache = this.app.metadataCache.getCache(entry.file.path);
+			if (!cache) continue;
+
+			const links = [...(cache.links ?? []), ...(cache.embeds ?? []), ...(cache.frontmatterLinks ?? [])];
+			const linkedPaths = new Set<string>();
+			for (const link of links) {
+				const dest = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), entry.file.path);
+				if (dest && targets.has(dest.path)) linkedPaths.add(dest.path);
+			}
+
+			for (const path of linkedPaths) {
+				const list = result.get(path) ?? [];
+				list.push({ path: entry.file.path, targetWord: entry.targetWord, sourceWord: entry.sourceWord });
+				result.set(path, list);
+			}
+		}
+
+		return result;
+	}
+
 	/**
 	 * Get all grammar pages
 	 */
 	async getGrammarPages(): Promise<GrammarPage[]> {
-		if (this.grammarCache && this.isCacheValid()) {
+		if (this.grammarCache) {
 			return this.grammarCache;
 		}
 
 		const pages: GrammarPage[] = [];
-		const allFiles = this.app.vault.getMarkdownFiles();
+		// Include globs may reach pages outside the grammar folder
+		const grammarFolder = this.settings.grammarFolder && this.settings.discoveryRules.grammar.include.length === 0
+			? this.app.vault.getAbstractFileByPath(this.settings.grammarFolder)
+			: null;
+		const allFiles = grammarFolder instanceof TFolder
+			? this.getMarkdownFilesRecursively(grammarFolder)
+			: this.app.vault.getMarkdownFiles();
 
 		for (const file of allFiles) {
-			// Skip templates
-			if (file.path.includes(this.settings.templatesFolder)) continue;
-
-			const cache = this.app.metadataCache.getFileCache(file);
-			if (!cache?.frontmatter) continue;
-
-			const fm = cache.frontmatter;
-			const isGrammar = fm.isGrammar === true;
-			const hasGrammarContext = this.getFieldValue(fm.context, fm.Context)?.includes("#grammar");
+			if (!this.isGrammarPage(file)) continue;
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+			pages.push(this.parseToGrammarPage(file, fm));
+		}
 
-			if (isGrammar || hasGrammarContext) {
-				const page = this.parseToGrammarPage(file, fm);
-				pages.push(page);
-			}
+		// Attach the dictionary entries that link to each page
+		const linkedEntries = await this.getEntriesLinkingTo(new Set(pages.map(p => p.file.path)));
+		for (const page of pages) {
+			page.linkedEntries = linkedEntries.get(page.file.path) ?? [];
 		}
 
 		// Sort by name ascending using target language locale
@@ -156,70 +624,118 @@ export class DictionaryService {
 	/**
 	 * Parse a file to a DictionaryEntry
 	 */
-	private async parseFileToEntry(file: TFile): Promise<DictionaryEntry | null> {
+	private async parseFileToEntry(file: TFile, content?: string): Promise<DictionaryEntry | null> {
 		const cache = this.app.metadataCache.getFileCache(file);
 		if (!cache) return null;
 
 		const fm = cache.frontmatter || {};
-		const inlineFields = await this.getInlineFields(file, cache);
-
-		// Merge frontmatter and inline fields
-		const type = this.getFieldValue(inlineFields.type, inlineFields.Type, fm.type, fm.Type);
-		const context = this.getFieldValue(inlineFields.context, inlineFields.Context, fm.context, fm.Context);
-
-		// Revision can be stored either as frontmatter (Revision: 1) or as an inline field (Revision:: 1).
-		// Many notes use the inline field form, so we must read both.
-		const revisionCandidate = [
-			inlineFields.Revision,
-			(inlineFields as Record<string, string>).revision,
-			fm.Revision,
-			(fm as Record<string, unknown>).revision
-		].find(v => v !== undefined && v !== null && String(v).trim() !== "");
-		const revision = revisionCandidate
-			? (String(revisionCandidate).trim().toLowerCase() === "new"
-				? "new"
-				: String(revisionCandidate).trim())
+		if (isIgnoredByFrontmatter(fm)) return null;
+
+		const inlineFields = await this.getInlineFields(file, cache, content);
+
+		// Every field is resolved through the configured field schema
+		const read = (field: LogicalField) =>
+			this.normalizeArrayField(readFieldValue(this.settings, field, fm, inlineFields));
+
+		const revisionValue = read("revision").trim();
+		const revision = revisionValue
+			? (revisionValue.toLowerCase() === "new" ? "new" : revisionValue)
 			: "new";
 
-		// Get source language value using configured language name
-		const sourceLanguage = this.settings.sourceLanguage;
-		let sourceValue = this.getFieldValue(
-			fm[sourceLanguage],
-			fm[sourceLanguage.toLowerCase()],
-			inlineFields[sourceLanguage],
-			inlineFields[sourceLanguage.toLowerCase()]
-		);
+		let sourceValue = read("source");
 
 		// Fallback: metadataCache frontmatter can lag right after create/update.
 		// If the value is still missing, parse YAML frontmatter directly from file content.
-		if (!sourceValue || sourceValue.trim() === "") {
-			const fromYaml = await this.tryReadFrontmatterString(file, sourceLanguage);
+		const sourceMapping = getFieldMapping(this.settings, "source");
+		if (sourceValue.trim() === "" && sourceMapping.location === "frontmatter") {
+			const fromYaml = await this.tryReadFrontmatterString(file, sourceMapping.key, content);
 			if (fromYaml) sourceValue = fromYaml;
 		}
 
-		return {
+		const entry: DictionaryEntry = {
 			file: {
 				path: file.path,
 				name: file.name,
 				basename: file.basename,
 			},
-			targetWord: file.basename.toLowerCase(),
-			sourceWord: (sourceValue || "").toLowerCase(),
-			type: this.normalizeArrayField(type),
-			context: this.normalizeArrayField(context),
+			targetWord: file.basename,
+			sourceWord: sourceValue.trim(),
+			targetKey: toSearchKey(file.basename, getLocaleCode(this.settings.targetLanguage)),
+			sourceKey: toSearchKey(sourceValue, getLocaleCode(this.settings.sourceLanguage)),
+			type: read("type"),
+			context: read("context"),
 			revision,
-			rating: inlineFields.Rating || fm.Rating || "",
-			examples: inlineFields.Examples || fm.Examples || "",
-			synonyms: inlineFields.Synonyms || fm.Synonyms || "",
-			relations: inlineFields.Relations || fm.Relations || "",
-			project: inlineFields.Project || fm.Project || "",
+			rating: read("rating"),
+			examples: read("examples"),
+			synonyms: read("synonyms"),
+			relations: read("relations"),
+			project: read("project"),
+			created: file.stat.ctime,
+			modified: file.stat.mtime,
+			isDue: false,
 		};
+		this.readScheduling(entry, read);
+
+		const fields = this.readCustomFields(fm, inlineFields);
+		if (fields) entry.fields = fields;
+
+		// Conjugations are only kept for verbs to keep the index small
+		if (this.isVerbType(entry.type) || this.isVerbNote(file.path)) {
+			try {
+				const text = content ?? await this.app.vault.cachedRead(file);
+				entry.verbFields = readVerbFields(fm, text, getProfileVerbFields(this.settings));
+			} catch (error) {
+				console.error(`Error reading verb fields from ${file.path}:`, error);
+			}
+		}
+
+		return entry;
 	}
 
-	private async tryReadFrontmatterString(file: TFile, key: string): Promise<string> {
+	/**
+	 * Scheduler fields of an entry. Until its first review, the due date follows from the Revision level.
+	 */
+	private readScheduling(entry: DictionaryEntry, read: (field: LogicalField) => string): void {
+		const ease = parseFloat(read("ease"));
+		const difficulty = parseFloat(read("difficulty"));
+		const interval = parseInt(read("interval"), 10);
+		const lapses = parseInt(read("lapses"), 10);
+		if (ease > 0) entry.ease = ease;
+		if (difficulty > 0) entry.difficulty = difficulty;
+		if (interval >= 0) entry.interval = interval;
+		if (lapses >= 0) entry.lapses = lapses;
+
+		entry.due = parseDateKey(read("due")) ?? getSchedulingState(entry)?.due;
+		entry.isDue = isDueOn(entry.due, toDateKey(new Date()));
+	}
+
+	/**
+	 * Properties and inline fields that are neither schema nor verb fields, for custom table columns
+	 */
+	private readCustomFields(fm: Record<string, unknown>, inlineFields: Record<string, string>): Record<string, string> | undefined {
+		const reserved = new Set<string>([
+			"position",
+			...LOGICAL_FIELDS.map(field => getFieldMapping(this.settings, field).key.toLowerCase()),
+			...getProfileVerbFields(this.settings).map(field => field.toLowerCase()),
+		]);
+
+		const fields: Record<string, string> = {};
+		for (const source of [fm, inlineFields]) {
+			for (const key of Object.keys(source)) {
+				const value = source[key];
+				if (reserved.has(key.toLowerCase()) || key in fields) continue;
+				if (value === null || value === undefined || (typeof value === "object" && !Array.isArray(value))) continue;
+				const text = this.normalizeArrayField(value).trim();
+				if (text) fields[key] = text;
+			}
+		}
+		return Object.keys(fields).length > 0 ? fields : undefined;
+	}
+
+	private async tryReadFrontmatterString(file: TFile, key: string, content?: string): Promise<string> {
 		try {
-			const content = await this.app.vault.cachedRead(file);
-			const lines = content.split(/\r?\n/);
+			const text = content ?? await this.app.vault.cachedRead(file);
+			const lines = text.split(/\r?\n/);
 			if (lines.length === 0) return "";
 			if (lines[0].trim() !== "---") return "";
 
@@ -255,7 +771,7 @@ export class DictionaryService {
 	/**
 	 * Get inline fields from file content (Dataview-style fields like "Type:: value")
 	 */
-	private async getInlineFields(file: TFile, cache: CachedMetadata): Promise<Record<string, string>> {
+	private async getInlineFields(file: TFile, cache: CachedMetadata, content?: string): Promise<Record<string, string>> {
 		const fields: Record<string, string> = {};
 
 		// Use Dataview's cached inline fields if available
@@ -266,16 +782,8 @@ export class DictionaryService {
 
 		// Fallback: parse file content for inline fields
 		try {
-			const content = await this.app.vault.cachedRead(file);
-			const lines = content.split("\n");
-
-			for (const line of lines) {
-				// Match Dataview inline field pattern: "FieldName:: value"
-				const match = line.match(/^([A-Za-z_-]+)::\s*(.*)$/);
-				if (match) {
-					fields[match[1]] = match[2].trim();
-				}
-			}
+			const text = content ?? await this.app.vault.cachedRead(file);
+			Object.assign(fields, parseInlineFields(text));
 		} catch (error) {
 			console.error(`Error reading file ${file.path}:`, error);
 		}
@@ -283,47 +791,41 @@ export class DictionaryService {
 		return fields;
 	}
 
+	/**
+	 * Whether a type value carries the configured root verb tag
+	 */
+	isVerbType(type: string): boolean {
+		return isVerbType(type, this.settings.verbTaxonomy);
+	}
+
 	/**
 	 * Enrich a dictionary entry with verb-specific fields
 	 */
 	private enrichVerbEntry(entry: DictionaryEntry): VerbEntry {
+		const { irregular, ...conjugations } = entry.verbFields ?? {};
+		const irregularNumber = irregular !== undefined ? parseInt(irregular, 10) : NaN;
+		const rule = findVerbGroupRule(entry.type, this.settings.verbTaxonomy);
+
 		const verbEntry: VerbEntry = {
 			...entry,
+			...conjugations,
+			irregular: Number.isFinite(irregularNumber) ? irregularNumber : undefined,
 			F: entry.file.basename,
 			S: entry.sourceWord,
-			Group: this.determineVerbGroup(entry.type),
-			Irregular: this.determineIrregular(entry.type),
+			Group: rule?.code ?? "",
+			Irregular: rule?.irregular ? "i" : "",
 		};
 
 		return verbEntry;
 	}
 
 	/**
-	 * Determine verb group from type field
+	 * Sort by search key using the target language locale; the original casing breaks ties
 	 */
-	private determineVerbGroup(type: string): VerbGroup {
-		if (type.includes("#verbe/régulier/1")) return "1";
-		if (type.includes("#verbe/régulier/2")) return "2";
-		if (type.includes("#verbe/irrégulier/3/ir")) return "3ir";
-		if (type.includes("#verbe/irrégulier/3/oir")) return "3oir";
-		if (type.includes("#verbe/irrégulier/3/re")) return "3re";
-		if (type.includes("#verbe/irrégulier/3")) return "3";
-		if (type.includes("#verbe/irrégulier")) return "i";
-		return "";
-	}
-
-	/**
-	 * Determine if verb is irregular
-	 */
-	private determineIrregular(type: string): string {
-		if (type.includes("#verbe/irrégulier")) {
-			// Extract irregular number if present
-			const match = type.match(/#verbe\/irrégulier(?:\/\d+)?/);
-			if (match) {
-				return "i";
-			}
-		}
-		return "";
+	private compareEntries(): (a: DictionaryEntry, b: DictionaryEntry) => number {
+		const locale = getLocaleCode(this.settings.targetLanguage);
+		return (a, b) =>
+			a.targetKey.localeCompare(b.targetKey, locale) || a.targetWord.localeCompare(b.targetWord, locale);
 	}
 
 	/**
@@ -355,6 +857,7 @@ export class DictionaryService {
 			Context: this.normalizeArrayField(context),
 			Tags: tagsStr,
 			isGrammar: fm.isGrammar === true,
+			linkedEntries: [],
 		};
 	}
 
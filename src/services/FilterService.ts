@@ -1,10 +1,20 @@
 import { App, TFile } from "obsidian";
 import {
+	DUE_FILTERS,
 	DictionaryEntry,
 	FilterState,
 	LearnLanguageSettings,
+	TableSort,
+	TextFilterKey,
 	getLocaleCode
 } from "../types";
+import { getVerbGroupCodes, matchesVerbGroup, splitTags } from "../utils/verbTaxonomy";
+import { compareTagPaths, getTagPaths, matchesTagField } from "../utils/tagFilter";
+import { matchesTagFacet, toFacetList } from "../utils/facets";
+import { SearchOptions, matchesSearch, matchesSearchKey } from "../utils/searchKeys";
+import { sortEntriesByColumn } from "../utils/columns";
+import { isDueOn, isOverdueOn, toDateKey } from "../utils/scheduler";
+import { ParsedQuery, matchesQuery, parseQuery } from "./filterQuery";
 
 /**
  * FilterService - Handles filtering and pagination logic
@@ -13,6 +23,8 @@ import {
 export class FilterService {
 	private app: App;
 	private settings: LearnLanguageSettings;
+	// Facet options re-apply the same query several times per render
+	private lastQuery: { text: string; parsed: ParsedQuery } | null = null;
 
 	constructor(app: App, settings: LearnLanguageSettings) {
 		this.app = app;
@@ -26,13 +38,35 @@ export class FilterService {
 		this.settings = settings;
 	}
 
+	/**
+	 * Search options of a text filter: the locale of its language and whether accents must match
+	 */
+	getSearchOptions(filters: Partial<FilterState>, key: TextFilterKey): SearchOptions {
+		const language = key === "sourceWord" ? this.settings.sourceLanguage : this.settings.targetLanguage;
+		return {
+			locale: getLocaleCode(language),
+			exact: filters.exactAccents?.includes(key) ?? false
+		};
+	}
+
+	/**
+	 * Parse a filter query (see filterQuery.ts for the syntax)
+	 */
+	parseQuery(text: string): ParsedQuery {
+		if (this.lastQuery?.text !== text) {
+			this.lastQuery = { text, parsed: parseQuery(text) };
+		}
+		return this.lastQuery.parsed;
+	}
+
 	/**
 	 * Apply a single filter to entries
 	 */
 	filterByProperty<T>(
 		entries: T[],
 		property: keyof T,
-		filterValue: string | null | undefined
+		filterValue: string | null | undefined,
+		options: SearchOptions = { locale: getLocaleCode(this.settings.targetLanguage) }
 	): T[] {
 		if (!filterValue || filterValue === "all") {
 			return entries;
@@ -42,10 +76,8 @@ export class FilterService {
 			const value = entry[property];
 			if (!value) return false;
 
-			const valueStr = String(value);
-
-			// Check if value contains the filter (for tags/compound values)
-			return valueStr.toLowerCase().includes(filterValue.toLowerCase());
+			// Tags match as a tree, other values as a substring
+			return matchesTagField(String(value), filterValue, options);
 		});
 	}
 
@@ -58,34 +90,61 @@ export class FilterService {
 	): T[] {
 		let result = [...entries];
 
+		// Words are matched on their normalized search keys, or on the original text when accents must match
 		if (filters.targetWord && filters.targetWord !== "all") {
-			result = result.filter(e => e.targetWord.toLowerCase().includes(filters.targetWord!.toLowerCase()));
+			const options = this.getSearchOptions(filters, "targetWord");
+			result = result.filter(e => options.exact
+				? matchesSearch(e.targetWord, filters.targetWord!, options)
+				: matchesSearchKey(e.targetKey, filters.targetWord!, options.locale));
 		}
 
 		if (filters.sourceWord && filters.sourceWord !== "all") {
-			result = result.filter(e => e.sourceWord.toLowerCase().includes(filters.sourceWord!.toLowerCase()));
+			const options = this.getSearchOptions(filters, "sourceWord");
+			result = result.filter(e => options.exact
+				? matchesSearch(e.sourceWord, filters.sourceWord!, options)
+				: matchesSearchKey(e.sourceKey, filters.sourceWord!, options.locale));
 		}
 
-		if (filters.type && filters.type !== "all") {
-			result = result.filter(e => e.type.toLowerCase().includes(filters.type!.toLowerCase()));
+		// Facets: OR within a facet, AND across facets
+		const types = toFacetList(filters.type);
+		if (types.length > 0) {
+			const options = this.getSearchOptions(filters, "type");
+			result = result.filter(e => matchesTagFacet(e.type, types, options));
 		}
 
-		if (filters.context && filters.context !== "all") {
-			result = result.filter(e => e.context.toLowerCase().includes(filters.context!.toLowerCase()));
+		const contexts = toFacetList(filters.context);
+		if (contexts.length > 0) {
+			const options = this.getSearchOptions(filters, "context");
+			result = result.filter(e => matchesTagFacet(e.context, contexts, options));
 		}
 
-		if (filters.revision && filters.revision !== "all") {
-			result = result.filter(e => e.revision === filters.revision);
+		const revisions = toFacetList(filters.revision);
+		if (revisions.length > 0) {
+			const today = toDateKey(new Date());
+			result = result.filter(e => revisions.some(value => this.matchesRevision(e, value, today)));
 		}
 
-		if (filters.rating && filters.rating !== "all") {
-			result = result.filter(e => e.rating === filters.rating);
+		const ratings = toFacetList(filters.rating);
+		if (ratings.length > 0) {
+			result = result.filter(e => ratings.includes(e.rating ?? ""));
+		}
+
+		// An invalid query is ignored here; the query box reports the error
+		if (filters.query && filters.query !== "all") {
+			const { node } = this.parseQuery(filters.query);
+			if (node) {
+				const locales = {
+					target: getLocaleCode(this.settings.targetLanguage),
+					source: getLocaleCode(this.settings.sourceLanguage)
+				};
+				result = result.filter(e => matchesQuery(node, e, locales));
+			}
 		}
 
 		// Verb-specific filters (cast to access additional properties)
 		const verbFilters = filters as Partial<FilterState> & { group?: string; irregular?: string };
 		if (verbFilters.group && verbFilters.group !== "all") {
-			result = result.filter(e => (e as unknown as { Group: string }).Group === verbFilters.group);
+			result = result.filter(e => this.matchesVerbGroup(e, verbFilters.group!));
 		}
 
 		if (verbFilters.irregular && verbFilters.irregular !== "all") {
@@ -99,6 +158,59 @@ export class FilterService {
 		return result;
 	}
 
+	/**
+	 * Match a Revision filter value; "due today" and "overdue" look at the due date
+	 */
+	matchesRevision(entry: DictionaryEntry, value: string, today: string = toDateKey(new Date())): boolean {
+		if (value === "due today") return isDueOn(entry.due, today);
+		if (value === "overdue") return isOverdueOn(entry.due, today);
+		return entry.revision === value;
+	}
+
+	/**
+	 * Revision filter options: the due filters, then the Revision values
+	 */
+	getRevisionOptions<T extends DictionaryEntry>(entries: T[]): string[] {
+		const [all, ...values] = this.getUniqueValues(entries, "revision");
+		return [all, ...DUE_FILTERS, ...values];
+	}
+
+	/**
+	 * Counts of the Revision filter options, including the due filters
+	 */
+	getRevisionCounts<T extends DictionaryEntry>(entries: T[]): Record<string, number> {
+		const counts = this.getFacetCounts(entries, "revision");
+		const today = toDateKey(new Date());
+		for (const value of DUE_FILTERS) {
+			counts[value] = entries.filter(e => this.matchesRevision(e, value, today)).length;
+		}
+		return counts;
+	}
+
+	/**
+	 * Whether an entry belongs to a verb group, including groups nested under it
+	 */
+	matchesVerbGroup(entry: DictionaryEntry, groupCode: string): boolean {
+		const group = (entry as unknown as { Group?: string }).Group;
+		return group === groupCode || matchesVerbGroup(entry.type, groupCode, this.settings.verbTaxonomy);
+	}
+
+	/**
+	 * Verb group codes for the group filter, in taxonomy order
+	 */
+	getVerbGroupOptions(): string[] {
+		return ["all", ...getVerbGroupCodes(this.settings.verbTaxonomy)];
+	}
+
+	/**
+	 * Sort entries by a table column; without a sort they keep the index order
+	 */
+	sortEntries(entries: DictionaryEntry[], sort?: TableSort): DictionaryEntry[] {
+		if (!sort) return entries;
+		const language = sort.column === "source" ? this.settings.sourceLanguage : this.settings.targetLanguage;
+		return sortEntriesByColumn(entries, sort, getLocaleCode(language));
+	}
+
 	/**
 	 * Paginate entries
 	 */
@@ -119,51 +231,64 @@ export class FilterService {
 			const value = (entry as Record<string, unknown>)[property as string];
 			if (value === null || value === undefined) return;
 
-			const valueStr = String(value);
-
-			// Handle compound values (comma-separated)
-			if (valueStr.includes(",")) {
-				valueStr.split(",").forEach(v => {
-					const trimmed = v.trim();
-					if (trimmed) {
-						// Expand tags hierarchy
-						if (trimmed.startsWith("#")) {
-							this.generateTagArray(trimmed).forEach(tag => values.add(tag));
-						} else {
-							values.add(trimmed);
-						}
-					}
-				});
-			} else if (valueStr.trim()) {
-				// Expand tags hierarchy
-				if (valueStr.startsWith("#")) {
-					this.generateTagArray(valueStr.trim()).forEach(tag => values.add(tag));
+			// Compound values are comma-separated; tags also add their ancestors
+			splitTags(String(value)).forEach(item => {
+				if (item.startsWith("#")) {
+					getTagPaths(item).forEach(tag => values.add(tag));
 				} else {
-					values.add(valueStr.trim());
+					values.add(item);
 				}
-			}
+			});
 		});
 
-		// Sort using target language locale
+		// Sort using target language locale; tags in tree order (parents before children)
 		const locale = getLocaleCode(this.settings.targetLanguage);
-		const sorted = Array.from(values).sort((a, b) => a.localeCompare(b, locale));
+		const sorted = Array.from(values).sort((a, b) =>
+			a.startsWith("#") && b.startsWith("#")
+				? compareTagPaths(a, b, locale)
+				: a.localeCompare(b, locale)
+		);
 
 		// Add "all" option at the beginning
 		return ["all", ...sorted];
 	}
 
+	/**
+	 * Number of entries behind each facet value; a tag also counts the entries of its subtags
+	 */
+	getFacetCounts<T>(
+		entries: T[],
+		property: keyof T | string
+	): Record<string, number> {
+		const counts: Record<string, number> = { all: entries.length };
+
+		entries.forEach(entry => {
+			const value = (entry as Record<string, unknown>)[property as string];
+			if (value === null || value === undefined) return;
+
+			// Each entry counts once per value, even when several of its tags share an ancestor
+			const values = new Set<string>();
+			splitTags(String(value)).forEach(item => {
+				if (item.startsWith("#")) {
+					getTagPaths(item).forEach(tag => values.add(tag));
+				} else {
+					values.add(item);
+				}
+			});
+			values.forEach(v => {
+				counts[v] = (counts[v] ?? 0) + 1;
+			});
+		});
+
+		return counts;
+	}
+
 	/**
 	 * Generate progressive tag array from compound tag
 	 * e.g., "#parent/child/grandchild" -> ["#parent", "#parent/child", "#parent/child/grandchild"]
 	 */
 	generateTagArray(compoundTag: string): string[] {
-		const parts = compoundTag.split("/");
-		let accumulated = "";
-
-		return parts.map((part, index) => {
-			accumulated += (index === 0 ? part : "/" + part);
-			return accumulated;
-		});
+		return getTagPaths(compoundTag);
 	}
 
 	/**
@@ -175,30 +300,6 @@ export class FilterService {
 		return match ? match[1] : value;
 	}
 
-	/**
-	 * Store filter value in file frontmatter
-	 */
-	async storeFilterValue(filePath: string, filterName: string, value: string): Promise<void> {
-		const file = this.app.vault.getAbstractFileByPath(filePath);
-		if (!(file instanceof TFile)) return;
-
-		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
-			fm[`filter-${filterName}`] = value;
-		});
-	}
-
-	/**
-	 * Store pagination value in file frontmatter
-	 */
-	async storePaginationValue(filePath: string, key: string, value: number): Promise<void> {
-		const file = this.app.vault.getAbstractFileByPath(filePath);
-		if (!(file instanceof TFile)) return;
-
-		await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
-			fm[key] = value;
-		});
-	}
-
 	/**
 	 * Toggle study mode
 	 */
@@ -0,0 +1,99 @@
+import { App } from "obsidian";
+import { FilterPreset, FilterState, LearnLanguageSettings } from "../types";
+import { toPresetFilters } from "../utils/presets";
+
+/**
+ * PresetService - Named filter presets stored in plugin data.
+ * Presets are shared by every profile, view and code block.
+ */
+export class PresetService {
+	private app: App;
+	private settings: LearnLanguageSettings;
+	private saveSettingsCallback: () => Promise<void>;
+	private listeners = new Set<() => void>();
+
+	constructor(app: App, settings: LearnLanguageSettings, saveSettingsCallback: () => Promise<void>) {
+		this.app = app;
+		this.settings = settings;
+		this.saveSettingsCallback = saveSettingsCallback;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: LearnLanguageSettings): void {
+		if (settings.filterPresets === this.settings.filterPresets) {
+			this.settings = settings;
+			return;
+		}
+		this.settings = settings;
+		this.notify();
+	}
+
+	/**
+	 * Presets sorted by name
+	 */
+	getPresets(): FilterPreset[] {
+		return this.settings.filterPresets;
+	}
+
+	/**
+	 * Preset with the given name (case-insensitive), or null
+	 */
+	getPreset(name: string): FilterPreset | null {
+		const wanted = name.trim().toLowerCase();
+		return this.settings.filterPresets.find(preset => preset.name.toLowerCase() === wanted) ?? null;
+	}
+
+	/**
+	 * Create a preset, or replace the filters of the one with the same name
+	 */
+	async savePreset(name: string, filters: Partial<FilterState>): Promise<FilterPreset> {
+		const trimmed = name.trim();
+		if (!trimmed) throw new Error("A filter preset needs a name");
+
+		const existing = this.getPreset(trimmed);
+		const preset: FilterPreset = { name: existing?.name ?? trimmed, filters: toPresetFilters(filters) };
+		this.settings.filterPresets = [
+			...this.settings.filterPresets.filter(p => p !== existing),
+			preset
+		].sort((a, b) => a.name.localeCompare(b.name));
+
+		await this.saveSettingsCallback();
+		this.notify();
+		return preset;
+	}
+
+	/**
+	 * Delete a preset; false when there is none with that name
+	 */
+	async deletePreset(name: string): Promise<boolean> {
+		const existing = this.getPreset(name);
+		if (!existing) return false;
+
+		this.settings.filterPresets = this.settings.filterPresets.filter(p => p !== existing);
+		await this.saveSettingsCallback();
+		this.notify();
+		return true;
+	}
+
+	/**
+	 * Subscribe to preset changes; returns an unsubscribe function
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			try {
+				listener();
+			} catch (error) {
+				console.error("LearnLanguage: filter preset listener failed", error);
+			}
+		}
+	}
+}
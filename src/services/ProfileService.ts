@@ -0,0 +1,144 @@
+import { App } from "obsidian";
+import { LearnLanguageSettings } from "../types";
+import { getProfileNames, resolveProfileSettings } from "../utils/profiles";
+import { DictionaryService } from "./DictionaryService";
+import { OpenAIService } from "./OpenAIService";
+import { TermService } from "./TermService";
+import { FilterService } from "./FilterService";
+import { ConjugationService } from "./ConjugationService";
+import { PresetService } from "./PresetService";
+import { SchedulerService } from "./SchedulerService";
+import { ReviewLogService } from "./ReviewLogService";
+
+/**
+ * Services bound to one language-pair profile
+ */
+export interface ProfileServices {
+	name: string;
+	/** Settings as seen by the profile; the object is kept across settings changes */
+	settings: LearnLanguageSettings;
+	dictionaryService: DictionaryService;
+	openAIService: OpenAIService;
+	termService: TermService;
+	filterService: FilterService;
+	conjugationService: ConjugationService;
+	schedulerService: SchedulerService;
+	reviewLogService: ReviewLogService;
+	/** Shared by every profile */
+	presetService: PresetService;
+}
+
+/**
+ * ProfileService - Creates and keeps the services of each language-pair profile,
+ * so every profile has its own dictionary index and cache
+ */
+export class ProfileService {
+	private app: App;
+	private settings: LearnLanguageSettings;
+	private saveSettingsCallback: () => Promise<void>;
+	private services = new Map<string, ProfileServices>();
+	readonly presetService: PresetService;
+
+	constructor(app: App, settings: LearnLanguageSettings, saveSettingsCallback: () => Promise<void>) {
+		this.app = app;
+		this.settings = settings;
+		this.saveSettingsCallback = saveSettingsCallback;
+		this.presetService = new PresetService(app, settings, saveSettingsCallback);
+	}
+
+	/**
+	 * Update settings of every profile; profiles that no longer exist are released
+	 */
+	updateSettings(settings: LearnLanguageSettings): void {
+		this.settings = settings;
+		this.presetService.updateSettings(settings);
+
+		for (const [name, services] of this.services) {
+			const resolved = resolveProfileSettings(settings, name);
+			if (!resolved) {
+				void services.dictionaryService.flushSnapshot();
+				this.services.delete(name);
+				continue;
+			}
+
+			if (resolved !== services.settings) {
+				Object.assign(services.settings, resolved);
+			}
+			services.dictionaryService.updateSettings(services.settings);
+			services.openAIService.updateSettings(services.settings);
+			services.termService.updateSettings(services.settings);
+			services.filterService.updateSettings(services.settings);
+			services.conjugationService.updateSettings(services.settings);
+			services.schedulerService.updateSettings(services.settings);
+		}
+	}
+
+	/**
+	 * Services of a profile (default: the active one), or null for an unknown name
+	 */
+	get(name?: string): ProfileServices | null {
+		const profileName = name || this.settings.activeProfile;
+		const existing = this.services.get(profileName);
+		if (existing) return existing;
+
+		const settings = resolveProfileSettings(this.settings, profileName);
+		if (!settings) return null;
+
+		const dictionaryService = new DictionaryService(this.app, settings, this.getDataFile(profileName, "dictionary-index", "json"));
+		const termService = new TermService(this.app, settings);
+		const reviewLogService = new ReviewLogService(this.app, this.getDataFile(profileName, "review-log", "jsonl"));
+		const services: ProfileServices = {
+			name: profileName,
+			settings,
+			dictionaryService,
+			openAIService: new OpenAIService(this.app, settings, this.saveSettingsCallback),
+			termService,
+			filterService: new FilterService(this.app, settings),
+			conjugationService: new ConjugationService(this.app, settings, dictionaryService, termService),
+			schedulerService: new SchedulerService(
+				this.app,
+				settings,
+				dictionaryService,
+				termService,
+				reviewLogService,
+				this.getDataFile(profileName, "cloze-schedule", "json")
+			),
+			reviewLogService,
+			presetService: this.presetService,
+		};
+
+		this.services.set(profileName, services);
+		return services;
+	}
+
+	/**
+	 * Services of the active profile (falls back to the main profile)
+	 */
+	getActive(): ProfileServices {
+		return this.get() ?? this.get(this.settings.profileName)!;
+	}
+
+	/**
+	 * Services of every profile, created as needed
+	 */
+	getAll(): ProfileServices[] {
+		return getProfileNames(this.settings).map(name => this.get(name)!);
+	}
+
+	/**
+	 * Profiles whose services have been created
+	 */
+	getLoaded(): ProfileServices[] {
+		return Array.from(this.services.values());
+	}
+
+	/**
+	 * Plugin data file of a profile (index snapshot, review log, cloze schedules), named after the profile id
+	 * so it survives renames; the main profile keeps the plain file name
+	 */
+	private getDataFile(name: string, baseName: string, extension: string): string {
+		const profile = this.settings.profiles.find(p => p.name === name);
+		if (!profile) return `${baseName}.${extension}`;
+		return `${baseName}-${profile.id}.${extension}`;
+	}
+}
@@ -0,0 +1,139 @@
+import { App } from "obsidian";
+import { ReviewLogEntry, ReviewLogRename } from "../types";
+import { appendJsonLine, readJsonLines } from "../utils/dataManagement";
+
+const REVIEW_LOG_FILE = "review-log.jsonl";
+
+/**
+ * ReviewLogService - Append-only history of graded reviews, one JSON line per review
+ * in a plugin data file (one file per language-pair profile).
+ * Renamed notes are recorded as lines of their own and applied to the reviews before them when read.
+ */
+export class ReviewLogService {
+	private app: App;
+	private logFile: string;
+	// Loaded on first read, then kept in step with every append
+	private entries: ReviewLogEntry[] | null = null;
+	private loading: Promise<ReviewLogEntry[]> | null = null;
+	// Appends are written one after the other so lines keep their order
+	private writes: Promise<void> = Promise.resolve();
+	private listeners = new Set<() => void>();
+
+	/**
+	 * @param logFile - Plugin data file of the log
+	 */
+	constructor(app: App, logFile: string = REVIEW_LOG_FILE) {
+		this.app = app;
+		this.logFile = logFile;
+	}
+
+	/**
+	 * Every logged review, oldest first
+	 */
+	async getEntries(): Promise<ReviewLogEntry[]> {
+		if (this.entries) return this.entries;
+		if (!this.loading) {
+			this.loading = this.load();
+		}
+		return this.loading;
+	}
+
+	/**
+	 * Record a review at the end of the log
+	 */
+	async append(entry: ReviewLogEntry): Promise<void> {
+		await this.getEntries();
+		this.entries = [...(this.entries ?? []), entry];
+
+		const write = this.writes.then(() => appendJsonLine(this.app, this.logFile, entry));
+		// A failed write must not block the next ones
+		this.writes = write.catch(() => undefined);
+		this.notify();
+		await write;
+	}
+
+	/**
+	 * Move the reviews of a renamed note or folder to its new path, recording the rename in the log
+	 */
+	async handleFileRenamed(path: string, oldPath: string): Promise<void> {
+		await this.getEntries();
+		const entries = this.entries ?? [];
+		if (!entries.some(entry => isRenamed(entry.path, oldPath))) return;
+
+		const rename: ReviewLogRename = { renamedFrom: oldPath, path, timestamp: Date.now() };
+		this.entries = applyRename(entries, rename);
+
+		const write = this.writes.then(() => appendJsonLine(this.app, this.logFile, rename));
+		this.writes = write.catch(() => undefined);
+		this.notify();
+		await write;
+	}
+
+	/**
+	 * Subscribe to new reviews; returns an unsubscribe function
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private async load(): Promise<ReviewLogEntry[]> {
+		try {
+			const records = await readJsonLines<unknown>(this.app, this.logFile);
+			let entries: ReviewLogEntry[] = [];
+			records.forEach(record => {
+				if (isLogEntry(record)) {
+					entries.push(record);
+				} else if (isRename(record)) {
+					entries = applyRename(entries, record);
+				}
+			});
+			this.entries = entries;
+		} catch (error) {
+			console.warn("LearnLanguage: failed to read the review log", error);
+			this.entries = [];
+		}
+		this.loading = null;
+		return this.entries;
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			try {
+				listener();
+			} catch (error) {
+				console.error("LearnLanguage: review log listener failed", error);
+			}
+		}
+	}
+}
+
+function isLogEntry(record: unknown): record is ReviewLogEntry {
+	const entry = record as ReviewLogEntry;
+	return !!entry
+		&& typeof entry.path === "string"
+		&& typeof entry.grade === "string"
+		&& typeof entry.timestamp === "number";
+}
+
+function isRename(record: unknown): record is ReviewLogRename {
+	const rename = record as ReviewLogRename;
+	return !!rename
+		&& typeof rename.renamedFrom === "string"
+		&& typeof rename.path === "string";
+}
+
+/**
+ * Whether a path is the renamed note or one inside the renamed folder
+ */
+function isRenamed(path: string, oldPath: string): boolean {
+	return path === oldPath || path.startsWith(oldPath + "/");
+}
+
+function applyRename(entries: ReviewLogEntry[], rename: ReviewLogRename): ReviewLogEntry[] {
+	return entries.map(entry => isRenamed(entry.path, rename.renamedFrom)
+		? { ...entry, path: rename.path + entry.path.slice(rename.renamedFrom.length) }
+		: entry);
+}
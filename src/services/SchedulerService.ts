@@ -0,0 +1,192 @@
+import { App } from "obsidian";
+import { DictionaryEntry, LearnLanguageSettings, LogicalField, ReviewCard, ReviewDirection, ReviewGrade, SchedulingState } from "../types";
+import { getSchedulingState, intervalToRevision, scheduleReview, toDateKey } from "../utils/scheduler";
+import { getDataFromJsonFile, saveJsonFile } from "../utils/dataManagement";
+import { pruneClozeStates, renameClozeKeys } from "../utils/cloze";
+import { DictionaryService } from "./DictionaryService";
+import { TermService } from "./TermService";
+import { ReviewLogService } from "./ReviewLogService";
+
+const CLOZE_SCHEDULE_FILE = "cloze-schedule.json";
+
+/** How a card was answered, for the review log */
+export interface ReviewDetails {
+	direction?: ReviewDirection;
+	/** Time the card was shown before it was graded */
+	durationMs?: number;
+}
+
+/**
+ * SchedulerService - Spaced-repetition reviews (SM-2 or FSRS) stored in the scheduler fields
+ * of each note. The Revision field is kept in step with the interval, and every review is logged.
+ * Cloze cards (one per example) are scheduled in a plugin data file instead, by card key
+ * (note path and example): keys follow renamed notes and are dropped once their example is gone.
+ */
+export class SchedulerService {
+	private app: App;
+	private settings: LearnLanguageSettings;
+	private dictionaryService: DictionaryService;
+	private termService: TermService;
+	private reviewLogService: ReviewLogService;
+	private clozeFile: string;
+	// Schedule of each cloze card reviewed before, loaded on first use
+	private clozeStates: Record<string, SchedulingState> | null = null;
+
+	/**
+	 * @param clozeFile - Plugin data file of the cloze card schedules
+	 */
+	constructor(
+		app: App,
+		settings: LearnLanguageSettings,
+		dictionaryService: DictionaryService,
+		termService: TermService,
+		reviewLogService: ReviewLogService,
+		clozeFile: string = CLOZE_SCHEDULE_FILE
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.dictionaryService = dictionaryService;
+		this.termService = termService;
+		this.reviewLogService = reviewLogService;
+		this.clozeFile = clozeFile;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: LearnLanguageSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * State the entry would have after a review with this grade (nothing is written)
+	 */
+	preview(entry: DictionaryEntry, grade: ReviewGrade, now: Date = new Date()): SchedulingState {
+		return scheduleReview(getSchedulingState(entry), grade, this.settings.scheduler, toDateKey(now));
+	}
+
+	/**
+	 * Grade a review, write the new schedule to the note and log the review
+	 */
+	async review(
+		entry: DictionaryEntry,
+		grade: ReviewGrade,
+		details: ReviewDetails = {},
+		now: Date = new Date()
+	): Promise<SchedulingState> {
+		const next = this.preview(entry, grade, now);
+		await this.writeState(entry.file.path, next);
+		await this.log(entry, grade, details, now);
+		return next;
+	}
+
+	/**
+	 * Schedules of the cloze cards reviewed before, by card key
+	 */
+	async getClozeStates(): Promise<Record<string, SchedulingState>> {
+		if (!this.clozeStates) {
+			try {
+				this.clozeStates = (await getDataFromJsonFile<Record<string, SchedulingState>>(this.app, this.clozeFile)) ?? {};
+			} catch (error) {
+				console.warn("LearnLanguage: failed to load cloze schedules", error);
+				this.clozeStates = {};
+			}
+		}
+		return this.clozeStates;
+	}
+
+	/**
+	 * State a session card would have after a review with this grade (nothing is written).
+	 * Cloze schedules must have been loaded with getClozeStates().
+	 */
+	previewCard(card: ReviewCard, grade: ReviewGrade, now: Date = new Date()): SchedulingState {
+		if (!card.cloze) return this.preview(card.entry, grade, now);
+		const state = this.clozeStates?.[card.cloze.key] ?? null;
+		return scheduleReview(state, grade, this.settings.scheduler, toDateKey(now));
+	}
+
+	/**
+	 * Grade a session card: word cards are written to their note, cloze cards to the cloze schedules
+	 */
+	async reviewCard(
+		card: ReviewCard,
+		grade: ReviewGrade,
+		details: ReviewDetails = {},
+		now: Date = new Date()
+	): Promise<SchedulingState> {
+		if (!card.cloze) return this.review(card.entry, grade, details, now);
+
+		const states = await this.getClozeStates();
+		const next = this.previewCard(card, grade, now);
+		states[card.cloze.key] = next;
+		this.clozeStates = pruneClozeStates(states, await this.dictionaryService.getDictionary());
+		await saveJsonFile(this.app, this.clozeFile, this.clozeStates, true);
+
+		await this.log(card.entry, grade, { ...details, direction: "target" }, now, card.cloze.text);
+		return next;
+	}
+
+	/**
+	 * Move the cloze schedules of a renamed note or folder to its new path
+	 */
+	async handleFileRenamed(path: string, oldPath: string): Promise<void> {
+		const renamed = renameClozeKeys(await this.getClozeStates(), oldPath, path);
+		if (!renamed) return;
+		this.clozeStates = renamed;
+		await saveJsonFile(this.app, this.clozeFile, renamed, true);
+	}
+
+	/**
+	 * Write the schedule the Revision level implies into entries never reviewed by the scheduler,
+	 * so their due dates are stored in the note.
+	 * Returns the number of updated notes.
+	 */
+	async migrateRevisions(): Promise<number> {
+		const entries = await this.dictionaryService.getDictionary();
+		let migrated = 0;
+
+		for (const entry of entries) {
+			if (entry.interval !== undefined) continue;
+			const state = getSchedulingState(entry);
+			if (!state) continue;
+
+			await this.writeState(entry.file.path, state, false);
+			migrated++;
+		}
+
+		return migrated;
+	}
+
+	/**
+	 * Append a review to the log; the schedule is already saved, so a lost line only affects the statistics
+	 */
+	private async log(entry: DictionaryEntry, grade: ReviewGrade, details: ReviewDetails, now: Date, cloze?: string): Promise<void> {
+		try {
+			await this.reviewLogService.append({
+				path: entry.file.path,
+				direction: details.direction ?? "target",
+				grade,
+				timestamp: now.getTime(),
+				durationMs: Math.max(0, Math.round(details.durationMs ?? 0)),
+				...(cloze ? { cloze } : {})
+			});
+		} catch (error) {
+			console.error("LearnLanguage: failed to log review", error);
+		}
+	}
+
+	/**
+	 * Write a schedule to the note in one go, so a failed write never leaves half of it behind
+	 */
+	private async writeState(filePath: string, state: SchedulingState, updateRevision: boolean = true): Promise<void> {
+		const values: Partial<Record<LogicalField, string>> = {
+			interval: String(state.interval),
+			due: state.due,
+			lapses: String(state.lapses)
+		};
+		if (state.ease !== undefined) values.ease = String(state.ease);
+		if (state.difficulty !== undefined) values.difficulty = String(state.difficulty);
+		if (updateRevision) values.revision = intervalToRevision(state.interval);
+		await this.termService.updateFields(filePath, values);
+	}
+}
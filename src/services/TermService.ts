@@ -1,10 +1,19 @@
-import { App, TFile, Notice } from "obsidian";
+import { App, TFile, TFolder, Notice } from "obsidian";
 import {
 	DictionaryEntry,
 	LearnLanguageSettings,
 	AITermResponse,
-	AITermRating
+	AITermRating,
+	LogicalField,
+	LOGICAL_FIELDS,
+	SCHEDULING_FIELDS,
+	VerbField,
+	VerbFields
 } from "../types";
+import { escapeRegExp, findFieldKey, getFieldMapping, parseInlineFields, readFieldValue } from "../utils/fieldSchema";
+import { isContinuationLine, readVerbFields, toVerbField } from "../utils/verbFields";
+import { getProfileVerbFields } from "../utils/tenseProfiles";
+import { isVerbType } from "../utils/verbTaxonomy";
 
 /**
  * TermService - Handles term file creation and updates
@@ -38,12 +47,10 @@ export class TermService {
 		context?: string;
 		examples?: string;
 		rating?: AITermRating;
+		verbFields?: VerbFields;
 	}): Promise<TFile | null> {
-		const fileName = term.targetTerm;
-		const filePath = `${this.settings.dictionaryFolder}/${fileName}.md`;
-
-		// Check if file already exists
-		const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+		// Check if file already exists (in either the dictionary or the verbs folder)
+		const existingFile = this.findTermFile(term.targetTerm);
 
 		if (existingFile instanceof TFile) {
 			// Update existing file (only update empty fields)
@@ -55,6 +62,28 @@ export class TermService {
 		}
 	}
 
+	/**
+	 * Folder for a new term: verbs go to the verbs folder when one is set and exists
+	 */
+	private getTermFolder(term: { type?: string; verbFields?: VerbFields }): string {
+		const isVerb = !!term.verbFields || isVerbType(term.type ?? "", this.settings.verbTaxonomy);
+		const { verbsFolder } = this.settings;
+		const hasVerbsFolder = !!verbsFolder && this.app.vault.getAbstractFileByPath(verbsFolder) instanceof TFolder;
+		return isVerb && hasVerbsFolder ? verbsFolder : this.settings.dictionaryFolder;
+	}
+
+	/**
+	 * Find an existing term note by name in the dictionary or verbs folder
+	 */
+	private findTermFile(name: string): TFile | null {
+		const folders = [this.settings.dictionaryFolder, this.settings.verbsFolder].filter(Boolean);
+		for (const folder of folders) {
+			const file = this.app.vault.getAbstractFileByPath(`${folder}/${name}.md`);
+			if (file instanceof TFile) return file;
+		}
+		return null;
+	}
+
 	/**
 	 * Create a new term file from template
 	 * Based on legacy createTermFile()
@@ -66,6 +95,7 @@ export class TermService {
 		context?: string;
 		examples?: string;
 		rating?: AITermRating;
+		verbFields?: VerbFields;
 	}): Promise<TFile | null> {
 		// Get template content
 		let fileContent = "";
@@ -84,30 +114,37 @@ export class TermService {
 		// Inject values directly into content string to avoid multiple file writes and race conditions
 		fileContent = this.injectTermValues(fileContent, term);
 
-		const fullFilePath = `${this.settings.dictionaryFolder}/${term.targetTerm}.md`;
+		const fullFilePath = `${this.getTermFolder(term)}/${term.targetTerm}.md`;
 
 		try {
+			// The verbs folder may not exist yet
+			const folder = fullFilePath.slice(0, fullFilePath.lastIndexOf("/"));
+			if (!this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+
 			// Create the file
 			const newFile = await this.app.vault.create(fullFilePath, fileContent);
 			console.log("File created:", fullFilePath);
 
-			// Update inline fields sequentially (lock protects against concurrent writes)
+			// Update fields sequentially (lock protects against concurrent writes, existing values are kept)
 			if (term.type) {
-				await this.updateInlineFieldValue(fullFilePath, "Type", term.type, false);
+				await this.writeField(fullFilePath, "type", term.type, false);
 			}
 			if (term.context) {
-				await this.updateInlineFieldValue(fullFilePath, "Context", term.context, false);
+				await this.writeField(fullFilePath, "context", term.context, false);
 			}
 			if (term.rating) {
-				await this.updateInlineFieldValue(fullFilePath, "Rating", term.rating, false);
+				await this.writeField(fullFilePath, "rating", term.rating, false);
 			}
 			if (term.examples) {
-				await this.updateInlineFieldValue(fullFilePath, "Examples", term.examples, false);
+				await this.writeField(fullFilePath, "examples", term.examples, false);
 			}
-
-			// Update frontmatter (do not clear existing values)
 			if (term.sourceTerm) {
-				await this.storeFrontmatterProperty(fullFilePath, this.settings.sourceLanguage, term.sourceTerm, false);
+				await this.writeField(fullFilePath, "source", term.sourceTerm, false);
+			}
+			if (term.verbFields) {
+				await this.updateVerbFields(fullFilePath, term.verbFields, false);
 			}
 
 			new Notice(`Successfully created the note file: ${term.targetTerm}`, 10000);
@@ -130,35 +167,31 @@ export class TermService {
 		context?: string;
 		examples?: string;
 		rating?: AITermRating;
+		verbFields?: VerbFields;
 	}): Promise<void> {
 		const filePath = file.path;
 		let termUpdated = false;
 
-		// Read current content to check existing values
-		const content = await this.app.vault.read(file);
-
-		// Get current inline field values
-		const currentType = this.getInlineFieldValue(content, "Type");
-		const currentContext = this.getInlineFieldValue(content, "Context");
-		const currentRating = this.getInlineFieldValue(content, "Rating");
-		const currentExamples = this.getInlineFieldValue(content, "Examples");
+		// Read current values to check which ones are empty
+		const current = await this.readTermFields(file);
+		const currentExamples = current.examples;
 
 		// Update Type only if empty
-		if ((!currentType || currentType === undefined || currentType === "") && term.type) {
+		if (!current.type && term.type) {
 			console.log(`Updating Type for ${term.targetTerm}`);
-			await this.updateInlineFieldValue(filePath, "Type", term.type, false);
+			await this.writeField(filePath, "type", term.type, false);
 			termUpdated = true;
 		}
 
 		// Update Context only if empty
-		if ((!currentContext || currentContext === undefined || currentContext === "") && term.context) {
-			await this.updateInlineFieldValue(filePath, "Context", term.context, false);
+		if (!current.context && term.context) {
+			await this.writeField(filePath, "context", term.context, false);
 			termUpdated = true;
 		}
 
 		// Update Rating only if empty
-		if ((!currentRating || currentRating === undefined || currentRating === "") && term.rating) {
-			await this.updateInlineFieldValue(filePath, "Rating", term.rating, false);
+		if (!current.rating && term.rating) {
+			await this.writeField(filePath, "rating", term.rating, false);
 			termUpdated = true;
 		}
 
@@ -170,15 +203,30 @@ export class TermService {
 
 			if (!currentExamples || currentExamples === undefined || currentExamples === "" || currentExamplesCount < 3) {
 				if (currentExamplesCount === 0) {
-					await this.updateInlineFieldValue(filePath, "Examples", normalizedExamples, false);
+					await this.writeField(filePath, "examples", normalizedExamples, false);
 				} else {
 					const updatedExamples = `${currentExamples}<br>${normalizedExamples}`;
-					await this.updateInlineFieldValue(filePath, "Examples", updatedExamples, false);
+					await this.writeField(filePath, "examples", updatedExamples, false);
 				}
 				termUpdated = true;
 			}
 		}
 
+		// Fill in missing conjugations only
+		if (term.verbFields) {
+			const currentVerbFields = await this.readVerbFields(file);
+			const missing: VerbFields = {};
+			for (const field of Object.keys(term.verbFields) as VerbField[]) {
+				if (!currentVerbFields[field] && term.verbFields[field]) {
+					missing[field] = term.verbFields[field];
+				}
+			}
+			if (Object.keys(missing).length > 0) {
+				await this.updateVerbFields(filePath, missing, false);
+				termUpdated = true;
+			}
+		}
+
 		if (termUpdated) {
 			new Notice(`Successfully updated the term: ${term.targetTerm}`, 10000);
 		} else {
@@ -197,26 +245,28 @@ export class TermService {
 		context?: string;
 		examples?: string;
 		rating?: AITermRating;
+		verbFields?: VerbFields;
 	}, allowClear: boolean = false): Promise<void> {
 		const filePath = file.path;
 
-		// Update inline fields sequentially to avoid race conditions with vault.process()
+		// Update fields sequentially to avoid race conditions with vault.process()
 		if (term.type !== undefined) {
-			await this.updateInlineFieldValue(filePath, "Type", term.type, allowClear);
+			await this.writeField(filePath, "type", term.type, allowClear);
 		}
 		if (term.context !== undefined) {
-			await this.updateInlineFieldValue(filePath, "Context", term.context, allowClear);
+			await this.writeField(filePath, "context", term.context, allowClear);
 		}
 		if (term.rating !== undefined) {
-			await this.updateInlineFieldValue(filePath, "Rating", term.rating, allowClear);
+			await this.writeField(filePath, "rating", term.rating, allowClear);
 		}
 		if (term.examples !== undefined) {
-			await this.updateInlineFieldValue(filePath, "Examples", term.examples, allowClear);
+			await this.writeField(filePath, "examples", term.examples, allowClear);
 		}
-
-		// Update frontmatter
 		if (term.sourceTerm !== undefined) {
-			await this.storeFrontmatterProperty(filePath, this.settings.sourceLanguage, term.sourceTerm, allowClear);
+			await this.writeField(filePath, "source", term.sourceTerm, allowClear);
+		}
+		if (term.verbFields !== undefined) {
+			await this.updateVerbFields(filePath, term.verbFields, allowClear);
 		}
 	}
 
@@ -240,24 +290,146 @@ export class TermService {
 	}
 
 	/**
-	 * Get inline field value from content
+	 * Read every logical field of a term file through the field schema
 	 */
-	private getInlineFieldValue(content: string, fieldName: string): string | null {
-		// Use [^\S\n]* instead of \s* to match whitespace WITHOUT consuming newlines
-		const regex = new RegExp(`^${fieldName}\\s*::[^\\S\\n]*(.*)$`, "m");
-		const match = content.match(regex);
-		if (match && match[1]) {
-			return match[1].trim();
+	async readTermFields(file: TFile): Promise<Record<LogicalField, string>> {
+		const content = await this.app.vault.read(file);
+		const fm = (this.app.metadataCache.getFileCache(file)?.frontmatter || {}) as Record<string, unknown>;
+		const inlineFields = parseInlineFields(content);
+
+		const values = {} as Record<LogicalField, string>;
+		for (const field of LOGICAL_FIELDS) {
+			const value = readFieldValue(this.settings, field, fm, inlineFields);
+			values[field] = Array.isArray(value) ? value.join(", ") : (value == null ? "" : String(value).trim());
 		}
-		return null;
+		return values;
+	}
+
+	/**
+	 * Read the verb conjugation fields of a term file
+	 */
+	async readVerbFields(file: TFile): Promise<VerbFields> {
+		const content = await this.app.vault.read(file);
+		const fm = (this.app.metadataCache.getFileCache(file)?.frontmatter || {}) as Record<string, unknown>;
+		return readVerbFields(fm, content, getProfileVerbFields(this.settings));
+	}
+
+	/**
+	 * Write verb conjugation fields back to a term file.
+	 * Fields already stored in frontmatter stay there; everything else is written
+	 * as a single-line inline field (line breaks become <br>).
+	 */
+	async updateVerbFields(filePath: string, fields: VerbFields, allowClear: boolean = true): Promise<void> {
+		const vaultFile = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(vaultFile instanceof TFile)) {
+			console.error(`File not found: ${filePath}`);
+			return;
+		}
+
+		const fm = this.app.metadataCache.getFileCache(vaultFile)?.frontmatter || {};
+		const profileFields = getProfileVerbFields(this.settings);
+		const frontmatterKeys = new Map<VerbField, string>();
+		for (const key of Object.keys(fm)) {
+			const field = toVerbField(key, profileFields);
+			if (field) frontmatterKeys.set(field, key);
+		}
+
+		for (const field of Object.keys(fields)) {
+			const value = (fields[field] ?? "").replace(/\r?\n/g, "<br>").trim();
+			const frontmatterKey = frontmatterKeys.get(field);
+			if (frontmatterKey) {
+				await this.storeFrontmatterProperty(filePath, frontmatterKey, value, allowClear);
+			} else {
+				await this.updateVerbInlineField(vaultFile, field, value, allowClear);
+			}
+		}
+	}
+
+	/**
+	 * Replace a verb inline field, including any continuation lines of a multi-line value
+	 */
+	private async updateVerbInlineField(file: TFile, field: VerbField, value: string, allowClear: boolean): Promise<void> {
+		if (!allowClear && value.length === 0) return;
+
+		const profileFields = getProfileVerbFields(this.settings);
+		await this.withFileLock(file.path, async () => {
+			await this.app.vault.process(file, (data) => {
+				const lines = data.split("\n");
+				const start = lines.findIndex(line => {
+					const match = line.match(/^([^\s:][^:]*?)\s*::/);
+					return !!match && toVerbField(match[1], profileFields) === field;
+				});
+
+				if (start < 0) {
+					return value.length > 0 ? this.insertInlineField(data, field, value) : data;
+				}
+
+				let end = start;
+				while (end + 1 < lines.length && isContinuationLine(lines[end + 1])) end++;
+
+				// Keep the key as written in the note
+				const key = lines[start].slice(0, lines[start].indexOf("::")).trim();
+				lines.splice(start, end - start + 1, `${key}:: ${value}`);
+				return lines.join("\n");
+			});
+		});
 	}
 
 	/**
-	 * Update a single inline field in a file (public API)
+	 * Update a single field in a file (public API)
 	 * Used by UI components to update individual fields like Revision or Rating
 	 */
-	async updateField(filePath: string, fieldName: string, fieldValue: string, allowClear: boolean = true): Promise<void> {
-		await this.updateInlineFieldValue(filePath, fieldName, fieldValue, allowClear);
+	async updateField(filePath: string, field: LogicalField, fieldValue: string, allowClear: boolean = true): Promise<void> {
+		await this.writeField(filePath, field, fieldValue, allowClear);
+	}
+
+	/**
+	 * Update several fields of a file at once: the inline fields in a single vault.process call
+	 * and the frontmatter properties in a single processFrontMatter call, so the note is never
+	 * left with only some of them written
+	 */
+	async updateFields(filePath: string, values: Partial<Record<LogicalField, string>>): Promise<void> {
+		const vaultFile = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(vaultFile instanceof TFile)) {
+			console.error(`File not found: ${filePath}`);
+			return;
+		}
+
+		const inline: Array<[string, string]> = [];
+		const frontmatter: Array<[string, string]> = [];
+		for (const field of LOGICAL_FIELDS) {
+			const value = values[field];
+			if (value === undefined) continue;
+			const { key, location } = getFieldMapping(this.settings, field);
+			(location === "frontmatter" ? frontmatter : inline).push([key, String(value).trim()]);
+		}
+
+		await this.withFileLock(filePath, async () => {
+			if (inline.length > 0) {
+				await this.app.vault.process(vaultFile, (data) =>
+					inline.reduce((content, [key, value]) => this.replaceInlineField(content, key, value, false), data)
+				);
+			}
+			if (frontmatter.length > 0) {
+				await this.app.fileManager.processFrontMatter(vaultFile, (fm) => {
+					frontmatter.forEach(([key, value]) => {
+						fm[findFieldKey(fm, key) ?? key] = value;
+					});
+				});
+			}
+		});
+	}
+
+	/**
+	 * Write a logical field to the location configured in the field schema
+	 */
+	private async writeField(filePath: string, field: LogicalField, value: string, allowClear: boolean): Promise<void> {
+		const { key, location } = getFieldMapping(this.settings, field);
+		if (location === "frontmatter") {
+			await this.storeFrontmatterProperty(filePath, key, value, allowClear);
+		} else {
+			await this.updateInlineFieldValue(filePath, key, value, allowClear);
+		}
 	}
 
 	/**
@@ -275,22 +447,45 @@ export class TermService {
 		const shouldSkipClear = !allowClear && normalized.length === 0;
 
 		await this.withFileLock(filePath, async () => {
-			await this.app.vault.process(vaultFile, (data) => {
-				// Legacy regex: matches field at start of line, optional space, ::, then anything until newline
-				const re = new RegExp(`^${fieldName}\\s?::.*`, "m");
-				const match = data.match(re);
-				if (match) {
-					if (shouldSkipClear) {
-						const currentValue = match[0].replace(new RegExp(`^${fieldName}\\s?::`, "i"), "").trim();
-						if (currentValue.length > 0) return data;
-					}
-					data = data.replace(re, `${fieldName}:: ${normalized}`);
-				}
-				return data;
-			});
+			await this.app.vault.process(vaultFile, (data) => this.replaceInlineField(data, fieldName, normalized, shouldSkipClear));
 		});
 	}
 
+	/**
+	 * Replace the value of an inline field in note content, or add the field when missing.
+	 * The key is matched case-insensitively, like on read, and kept as written in the note.
+	 * @param keepExisting - Leave a non-empty current value alone (used when the new value is empty)
+	 */
+	private replaceInlineField(data: string, fieldName: string, value: string, keepExisting: boolean): string {
+		// Legacy regex: matches field at start of line, optional space, ::, then anything until newline
+		const re = new RegExp(`^(${escapeRegExp(fieldName)})\\s?::(.*)`, "mi");
+		const match = data.match(re);
+		if (match) {
+			if (keepExisting && match[2].trim().length > 0) return data;
+			return data.replace(re, () => `${match[1]}:: ${value}`);
+		}
+		// Notes created with another schema may not have the line yet
+		return value.length > 0 ? this.insertInlineField(data, fieldName, value) : data;
+	}
+
+	/**
+	 * Insert a new inline field after the last existing one (or at the end of the note)
+	 */
+	private insertInlineField(data: string, fieldName: string, value: string): string {
+		const lines = data.split("\n");
+		let lastFieldLine = -1;
+		lines.forEach((line, i) => {
+			if (/^[^\s:][^:]*?\s*::/.test(line)) lastFieldLine = i;
+		});
+
+		const newLine = `${fieldName}:: ${value}`;
+		if (lastFieldLine >= 0) {
+			lines.splice(lastFieldLine + 1, 0, newLine);
+			return lines.join("\n");
+		}
+		return data.endsWith("\n") ? `${data}${newLine}\n` : `${data}\n${newLine}\n`;
+	}
+
 	/**
 	 * Store frontmatter property
 	 * Based on legacy storeFrontmatterProperty()
@@ -307,12 +502,13 @@ export class TermService {
 
 		await this.withFileLock(filePath, async () => {
 			await this.app.fileManager.processFrontMatter(vaultFile, (frontmatter) => {
+				const existingKey = findFieldKey(frontmatter, key) ?? key;
 				if (shouldSkipClear) {
-					const current = frontmatter[key];
+					const current = frontmatter[existingKey];
 					if (typeof current === "string" && current.trim().length > 0) return;
 					if (current != null && typeof current !== "string") return;
 				}
-				frontmatter[key] = normalized;
+				frontmatter[existingKey] = normalized;
 			});
 		});
 	}
@@ -346,16 +542,18 @@ export class TermService {
 		context?: string;
 		examples?: string;
 		rating?: AITermRating;
+		verbFields?: VerbFields;
 	}): string {
 		let result = content;
 
 		// Helper to replace inline field
 		const replaceInline = (key: string, value: string) => {
 			if (!value) return;
-			// Matches "Key::" optionally followed by whitespace, then anything until newline
-			const regex = new RegExp(`^${key}\\s*::.*$`, "m");
-			if (result.match(regex)) {
-				result = result.replace(regex, `${key}:: ${value}`);
+			// Matches "Key::" (in any case) optionally followed by whitespace, then anything until newline
+			const regex = new RegExp(`^(${escapeRegExp(key)})\\s*::.*$`, "mi");
+			const match = result.match(regex);
+			if (match) {
+				result = result.replace(regex, () => `${match[1]}:: ${value}`);
 			}
 		};
 
@@ -363,18 +561,27 @@ export class TermService {
 		const replaceFrontmatter = (key: string, value: string) => {
 			if (!value) return;
 			// Matches "Key:" at start of line (likely in frontmatter)
-			const regex = new RegExp(`^${key}:.*$`, "m");
+			const regex = new RegExp(`^${escapeRegExp(key)}:.*$`, "m");
 			if (result.match(regex)) {
-				result = result.replace(regex, `${key}: ${value}`);
+				result = result.replace(regex, () => `${key}: ${value}`);
 			}
 		};
 
-		if (term.type) replaceInline("Type", term.type);
-		if (term.context) replaceInline("Context", term.context);
-		if (term.rating) replaceInline("Rating", term.rating);
-		if (term.examples) replaceInline("Examples", term.examples);
+		const inject = (field: LogicalField, value?: string) => {
+			if (!value) return;
+			const { key, location } = getFieldMapping(this.settings, field);
+			if (location === "frontmatter") {
+				replaceFrontmatter(key, value);
+			} else {
+				replaceInline(key, value);
+			}
+		};
 
-		if (term.sourceTerm) replaceFrontmatter(this.settings.sourceLanguage, term.sourceTerm);
+		inject("type", term.type);
+		inject("context", term.context);
+		inject("rating", term.rating);
+		inject("examples", term.examples);
+		inject("source", term.sourceTerm);
 
 		return result;
 	}
@@ -383,21 +590,30 @@ export class TermService {
 	 * Get default term content when no template exists
 	 */
 	private getDefaultTermContent(): string {
-		const sourceLang = this.settings.sourceLanguage;
+		const defaults: Partial<Record<LogicalField, string>> = {
+			project: `[[Learn ${this.settings.targetLanguage}]]`,
+		};
+
+		const frontmatterLines: string[] = [];
+		const inlineLines: string[] = [];
+		// Scheduler fields are added on the first review
+		for (const field of LOGICAL_FIELDS.filter(f => !SCHEDULING_FIELDS.includes(f))) {
+			const { key, location } = getFieldMapping(this.settings, field);
+			const value = defaults[field];
+			if (location === "frontmatter") {
+				frontmatterLines.push(value ? `${key}: "${value}"` : `${key}:`);
+			} else {
+				inlineLines.push(value ? `${key}:: ${value}` : `${key}::`);
+			}
+		}
+
+		frontmatterLines.push("cssclasses:", "  - ja-readable");
+
 		return `---
-${sourceLang}:
-cssclasses:
-  - ja-readable
+${frontmatterLines.join("\n")}
 ---
 
-Type::
-Synonyms::
-Context::
-Examples::
-Rating::
-Relations::
-Revision::
-Project:: [[Learn ${this.settings.targetLanguage}]]
+${inlineLines.join("\n")}
 
 ---
 
@@ -0,0 +1,354 @@
+import { DictionaryEntry } from "../types";
+import { SearchOptions, foldForSearch, matchesSearch } from "../utils/searchKeys";
+import { splitTags } from "../utils/verbTaxonomy";
+import { matchesTagField } from "../utils/tagFilter";
+import { ratingNumber, revisionNumber } from "../utils/columns";
+
+/**
+ * Filter query language used by the advanced query box and the `query:` block option.
+ *
+ *   (type:#verbe OR type:#expression) NOT context:#A1 revision<3
+ *
+ * - `field:value` contains (accent-insensitive), `field=value` equals, `field!=value` differs;
+ *   on tag fields `type:#verbe` matches the tag and its descendants
+ * - `revision` and `rating` also take `<`, `<=`, `>`, `>=` ("new" counts as revision 0, ratings count stars)
+ * - Terms are combined with AND (also implicit), OR, NOT / `-`, and grouped with parentheses
+ * - A bare word matches the target or source word; quote values containing spaces
+ */
+
+export type QueryField =
+	| "targetWord"
+	| "sourceWord"
+	| "type"
+	| "context"
+	| "tag"
+	| "examples"
+	| "revision"
+	| "rating";
+
+export type QueryOperator = ":" | "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type QueryNode =
+	| { kind: "and"; children: QueryNode[] }
+	| { kind: "or"; children: QueryNode[] }
+	| { kind: "not"; child: QueryNode }
+	| { kind: "term"; field: QueryField | null; operator: QueryOperator; value: string; number?: number };
+
+export interface QueryError {
+	message: string;
+	/** Offset in the query text where the problem starts */
+	position: number;
+}
+
+/** A parsed query: `node` is null for an empty query or when `error` is set */
+export interface ParsedQuery {
+	node: QueryNode | null;
+	error?: QueryError;
+}
+
+/** Locales used when comparing the entry fields */
+export interface QueryLocales {
+	target: string;
+	source: string;
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+	target: "targetWord",
+	targetword: "targetWord",
+	word: "targetWord",
+	source: "sourceWord",
+	sourceword: "sourceWord",
+	translation: "sourceWord",
+	type: "type",
+	context: "context",
+	tag: "tag",
+	examples: "examples",
+	example: "examples",
+	revision: "revision",
+	rating: "rating",
+};
+
+const NUMERIC_FIELDS: QueryField[] = ["revision", "rating"];
+const COMPARISONS: QueryOperator[] = ["<", "<=", ">", ">="];
+
+type Token =
+	| { type: "lparen" | "rparen" | "and" | "or" | "not"; position: number }
+	| { type: "term"; position: number; field: string | null; operator: QueryOperator; value: string; fieldLength: number };
+
+class QuerySyntaxError extends Error {
+	constructor(message: string, public position: number) {
+		super(message);
+	}
+}
+
+/**
+ * Parse a query; syntax problems are reported rather than thrown
+ */
+export function parseQuery(text: string): ParsedQuery {
+	try {
+		const tokens = tokenize(text);
+		if (tokens.length === 0) return { node: null };
+		return { node: new Parser(tokens, text.length).parse() };
+	} catch (error) {
+		if (error instanceof QuerySyntaxError) {
+			return { node: null, error: { message: error.message, position: error.position } };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Whether an entry satisfies a parsed query
+ */
+export function matchesQuery(node: QueryNode, entry: DictionaryEntry, locales: QueryLocales): boolean {
+	switch (node.kind) {
+		case "and":
+			return node.children.every(child => matchesQuery(child, entry, locales));
+		case "or":
+			return node.children.some(child => matchesQuery(child, entry, locales));
+		case "not":
+			return !matchesQuery(node.child, entry, locales);
+		case "term":
+			return matchesTerm(node, entry, locales);
+	}
+}
+
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < text.length) {
+		const char = text[i];
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === "(") {
+			tokens.push({ type: "lparen", position: i++ });
+		} else if (char === ")") {
+			tokens.push({ type: "rparen", position: i++ });
+		} else if (char === "-" && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+			tokens.push({ type: "not", position: i++ });
+		} else {
+			const start = i;
+			const fieldMatch = /^([A-Za-z]+)(!=|<=|>=|[:=<>])/.exec(text.slice(i));
+			if (fieldMatch) {
+				i += fieldMatch[0].length;
+				const [value, next] = readValue(text, i);
+				if (!value) {
+					throw new QuerySyntaxError(`Expected a value after "${fieldMatch[0]}"`, start);
+				}
+				tokens.push({
+					type: "term",
+					position: start,
+					field: fieldMatch[1],
+					operator: fieldMatch[2] as QueryOperator,
+					value,
+					fieldLength: fieldMatch[1].length,
+				});
+				i = next;
+				continue;
+			}
+
+			const quoted = char === "\"";
+			const [value, next] = readValue(text, i);
+			i = next;
+			const keyword = quoted ? "" : value.toUpperCase();
+			if (keyword === "AND" || keyword === "&&") {
+				tokens.push({ type: "and", position: start });
+			} else if (keyword === "OR" || keyword === "||") {
+				tokens.push({ type: "or", position: start });
+			} else if (keyword === "NOT") {
+				tokens.push({ type: "not", position: start });
+			} else if (value) {
+				tokens.push({ type: "term", position: start, field: null, operator: ":", value, fieldLength: 0 });
+			}
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Read a quoted or bare value; returns the value and the offset after it
+ */
+function readValue(text: string, start: number): [string, number] {
+	if (text[start] === "\"") {
+		const end = text.indexOf("\"", start + 1);
+		if (end === -1) throw new QuerySyntaxError("Missing closing quote", start);
+		return [text.slice(start + 1, end), end + 1];
+	}
+
+	let end = start;
+	while (end < text.length && !/[\s()]/.test(text[end])) end++;
+	return [text.slice(start, end), end];
+}
+
+class Parser {
+	private index = 0;
+
+	constructor(private tokens: Token[], private length: number) {}
+
+	parse(): QueryNode {
+		const node = this.parseOr();
+		const extra = this.peek();
+		if (extra) {
+			throw new QuerySyntaxError(extra.type === "rparen" ? "Unexpected \")\"" : "Unexpected input", extra.position);
+		}
+		return node;
+	}
+
+	private parseOr(): QueryNode {
+		const children = [this.parseAnd()];
+		while (this.peek()?.type === "or") {
+			this.index++;
+			children.push(this.parseAnd());
+		}
+		return children.length === 1 ? children[0] : { kind: "or", children };
+	}
+
+	private parseAnd(): QueryNode {
+		const children = [this.parseUnary()];
+		for (;;) {
+			const token = this.peek();
+			if (!token || token.type === "or" || token.type === "rparen") break;
+			// AND is optional between terms
+			if (token.type === "and") this.index++;
+			children.push(this.parseUnary());
+		}
+		return children.length === 1 ? children[0] : { kind: "and", children };
+	}
+
+	private parseUnary(): QueryNode {
+		const token = this.peek();
+		if (token?.type === "not") {
+			this.index++;
+			return { kind: "not", child: this.parseUnary() };
+		}
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): QueryNode {
+		const token = this.peek();
+		if (!token) {
+			throw new QuerySyntaxError("Unexpected end of query", this.length);
+		}
+		this.index++;
+
+		if (token.type === "lparen") {
+			const node = this.parseOr();
+			if (this.peek()?.type !== "rparen") {
+				throw new QuerySyntaxError("Missing closing parenthesis", token.position);
+			}
+			this.index++;
+			return node;
+		}
+
+		if (token.type === "term") {
+			return toTermNode(token);
+		}
+
+		const label = token.type === "rparen" ? "\")\"" : token.type.toUpperCase();
+		throw new QuerySyntaxError(`Unexpected ${label}`, token.position);
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+}
+
+function toTermNode(token: Extract<Token, { type: "term" }>): QueryNode {
+	const { operator, value, position } = token;
+	if (token.field === null) {
+		return { kind: "term", field: null, operator, value };
+	}
+
+	const field = FIELD_ALIASES[token.field.toLowerCase()];
+	if (!field) {
+		throw new QuerySyntaxError(`Unknown field "${token.field}"`, position);
+	}
+
+	const valuePosition = position + token.fieldLength + operator.length;
+	if (!NUMERIC_FIELDS.includes(field)) {
+		if (COMPARISONS.includes(operator)) {
+			throw new QuerySyntaxError(`"${operator}" only applies to revision and rating`, position + token.fieldLength);
+		}
+		return { kind: "term", field, operator, value };
+	}
+
+	const number = field === "revision" ? revisionNumber(value) : ratingNumber(value);
+	if (number === null) {
+		const expected = field === "revision" ? "a number or \"new\"" : "a number of stars";
+		throw new QuerySyntaxError(`Expected ${expected} for ${field}`, valuePosition);
+	}
+	return { kind: "term", field, operator, value, number };
+}
+
+function matchesTerm(
+	term: Extract<QueryNode, { kind: "term" }>,
+	entry: DictionaryEntry,
+	locales: QueryLocales
+): boolean {
+	const target: SearchOptions = { locale: locales.target };
+	const source: SearchOptions = { locale: locales.source };
+
+	switch (term.field) {
+		case null:
+			return matchesSearch(entry.targetWord, term.value, target) ||
+				matchesSearch(entry.sourceWord, term.value, source);
+		case "targetWord":
+			return compareText(entry.targetWord, term, target);
+		case "sourceWord":
+			return compareText(entry.sourceWord, term, source);
+		case "type":
+			return compareTags(entry.type, term, target);
+		case "context":
+			return compareTags(entry.context, term, target);
+		case "tag":
+			return compareTags(`${entry.type}, ${entry.context}`, term, target);
+		case "examples":
+			return compareText(entry.examples || "", term, target);
+		case "revision":
+			return compareNumber(revisionNumber(entry.revision || ""), term);
+		case "rating":
+			return compareNumber(ratingNumber(entry.rating || ""), term);
+	}
+}
+
+function compareText(text: string, term: Extract<QueryNode, { kind: "term" }>, options: SearchOptions): boolean {
+	if (term.operator === ":") return matchesSearch(text, term.value, options);
+
+	const equal = foldForSearch(text.trim(), options) === foldForSearch(term.value.trim(), options);
+	return term.operator === "!=" ? !equal : equal;
+}
+
+/**
+ * Tag fields match `#tag` values as a subtree and compare `=` / `!=` against each tag
+ */
+function compareTags(value: string, term: Extract<QueryNode, { kind: "term" }>, options: SearchOptions): boolean {
+	if (term.operator === ":") return matchesTagField(value, term.value, options);
+
+	const wanted = foldForSearch(term.value.trim(), options);
+	const equal = splitTags(value).some(tag => foldForSearch(tag, options) === wanted);
+	return term.operator === "!=" ? !equal : equal;
+}
+
+function compareNumber(actual: number | null, term: Extract<QueryNode, { kind: "term" }>): boolean {
+	if (actual === null || term.number === undefined) return false;
+	const expected = term.number;
+
+	switch (term.operator) {
+		case ":":
+		case "=":
+			return actual === expected;
+		case "!=":
+			return actual !== expected;
+		case "<":
+			return actual < expected;
+		case "<=":
+			return actual <= expected;
+		case ">":
+			return actual > expected;
+		case ">=":
+			return actual >= expected;
+	}
+}
@@ -2,3 +2,12 @@ export { DictionaryService } from "./DictionaryService";
 export { OpenAIService } from "./OpenAIService";
 export { TermService } from "./TermService";
 export { FilterService } from "./FilterService";
+export { ConjugationService } from "./ConjugationService";
+export { ProfileService } from "./ProfileService";
+export { PresetService } from "./PresetService";
+export { SchedulerService } from "./SchedulerService";
+export { ReviewLogService } from "./ReviewLogService";
+export type { ProfileServices } from "./ProfileService";
+export type { ReviewDetails } from "./SchedulerService";
+export { parseQuery, matchesQuery } from "./filterQuery";
+export type { ParsedQuery, QueryNode, QueryError } from "./filterQuery";
@@ -1,6 +1,37 @@
 import { App, PluginSettingTab, Setting, Notice, ButtonComponent, TFolder, TFile, AbstractInputSuggest } from "obsidian";
 import type LearnLanguagePlugin from "./main";
-import { LANGUAGE_LOCALE_MAP } from "./types";
+import {
+	LANGUAGE_LOCALE_MAP,
+	LOGICAL_FIELDS,
+	DISCOVERY_SCOPES,
+	IGNORE_FRONTMATTER_KEY,
+	DiscoveryRules,
+	DiscoveryScope,
+	FieldLocation,
+	SchedulerAlgorithm,
+	VerbParadigmProfile
+} from "./types";
+import { LOGICAL_FIELD_LABELS } from "./utils/fieldSchema";
+import { normalizeVerbTaxonomy } from "./utils/verbTaxonomy";
+import { formatTenseProfile, parseTenseProfile } from "./utils/tenseProfiles";
+import { normalizeVerbKey } from "./utils/verbFields";
+import { formatGlobList, isIgnoredByFrontmatter, parseGlobList } from "./utils/discovery";
+import { globToRegExp } from "./utils/paths";
+import { getArticles } from "./utils/answers";
+import {
+	createProfile,
+	deleteProfile,
+	getEditableProfile,
+	getProfileNames,
+	getUniqueProfileName,
+	renameProfile
+} from "./utils/profiles";
+
+const DISCOVERY_SCOPE_LABELS: Record<DiscoveryScope, string> = {
+	dictionary: "Dictionary",
+	verbs: "Verbs",
+	grammar: "Grammar",
+};
 
 /**
  * Folder suggester for folder path inputs
@@ -87,6 +118,10 @@ class FileSuggest extends AbstractInputSuggest<TFile> {
 
 export class LearnLanguageSettingTab extends PluginSettingTab {
 	plugin: LearnLanguagePlugin;
+	// Language whose tense profile is being edited (defaults to the target language)
+	private tenseProfileLanguage: string | null = null;
+	// Language-pair profile whose settings are being edited (defaults to the active profile)
+	private editedProfile: string | null = null;
 
 	constructor(app: App, plugin: LearnLanguagePlugin) {
 		super(app, plugin);
@@ -99,10 +134,92 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 
 		containerEl.createEl("h1", { text: "Learn Language Settings" });
 
+		// =====================
+		// Language Profiles Section
+		// =====================
+		containerEl.createEl("h2", { text: "Language Profiles" });
+		containerEl.createEl("p", {
+			text: "Each profile has its own languages, folders, classification files, template, verb taxonomy and OpenAI vector store. The sections marked (profile) below edit the selected profile.",
+			cls: "setting-item-description"
+		});
+
+		const profileNames = getProfileNames(this.plugin.settings);
+		const editedName = this.editedProfile && profileNames.includes(this.editedProfile)
+			? this.editedProfile
+			: this.plugin.settings.activeProfile;
+		const profile = getEditableProfile(this.plugin.settings, editedName) ?? this.plugin.settings;
+		const isMainProfile = editedName === this.plugin.settings.profileName;
+
+		new Setting(containerEl)
+			.setName("Active profile")
+			.setDesc("Used by views, commands and code blocks without a \"profile:\" option")
+			.addDropdown(dropdown => {
+				profileNames.forEach(name => dropdown.addOption(name, name));
+				dropdown
+					.setValue(this.plugin.settings.activeProfile)
+					.onChange(async (value) => {
+						await this.plugin.setActiveProfile(value);
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Edit profile")
+			.addDropdown(dropdown => {
+				profileNames.forEach(name => dropdown.addOption(name, name));
+				dropdown
+					.setValue(editedName)
+					.onChange((value) => {
+						this.editedProfile = value;
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText("Add profile")
+				.onClick(async () => {
+					const name = getUniqueProfileName(this.plugin.settings, "New profile");
+					this.plugin.settings.profiles.push(createProfile(name, profile));
+					this.editedProfile = name;
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon("trash")
+				.setTooltip(isMainProfile ? "The main profile cannot be deleted" : "Delete profile")
+				.setDisabled(isMainProfile)
+				.onClick(async () => {
+					if (isMainProfile) return;
+					deleteProfile(this.plugin.settings, editedName);
+					this.editedProfile = null;
+					await this.plugin.saveSettings();
+					await this.plugin.reloadViews();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName("Profile name")
+			.setDesc("Used by the \"profile:\" code block option and the API")
+			.addText(text => {
+				text.setValue(editedName);
+				text.inputEl.addEventListener("blur", async () => {
+					const name = text.getValue().trim();
+					if (name === editedName) return;
+					if (!name || profileNames.includes(name)) {
+						new Notice(name ? `A profile named "${name}" already exists` : "Profile name cannot be empty");
+						text.setValue(editedName);
+						return;
+					}
+					renameProfile(this.plugin.settings, editedName, name);
+					this.editedProfile = name;
+					await this.plugin.saveSettings();
+					await this.plugin.reloadViews();
+					this.display();
+				});
+			});
+
 		// =====================
 		// Language Configuration Section
 		// =====================
-		containerEl.createEl("h2", { text: "Language Configuration" });
+		containerEl.createEl("h2", { text: "Language Configuration (profile)" });
 
 		// Get available languages from the locale map (sorted alphabetically)
 		const availableLanguages = Object.keys(LANGUAGE_LOCALE_MAP).sort();
@@ -115,9 +232,9 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 					dropdown.addOption(lang, lang);
 				});
 				dropdown
-					.setValue(this.plugin.settings.targetLanguage)
+					.setValue(profile.targetLanguage)
 					.onChange(async (value) => {
-						this.plugin.settings.targetLanguage = value;
+						profile.targetLanguage = value;
 						await this.plugin.saveSettings();
 					});
 			});
@@ -130,9 +247,9 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 					dropdown.addOption(lang, lang);
 				});
 				dropdown
-					.setValue(this.plugin.settings.sourceLanguage)
+					.setValue(profile.sourceLanguage)
 					.onChange(async (value) => {
-						this.plugin.settings.sourceLanguage = value;
+						profile.sourceLanguage = value;
 						await this.plugin.saveSettings();
 					});
 			});
@@ -140,7 +257,7 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 		// =====================
 		// Folder Paths Section
 		// =====================
-		containerEl.createEl("h2", { text: "Folder Paths" });
+		containerEl.createEl("h2", { text: "Folder Paths (profile)" });
 
 		new Setting(containerEl)
 			.setName("Dictionary folder")
@@ -149,37 +266,37 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 				new FolderSuggest(this.app, search.inputEl);
 				search
 					.setPlaceholder("10. Dictionary")
-					.setValue(this.plugin.settings.dictionaryFolder)
+					.setValue(profile.dictionaryFolder)
 					.onChange(async (value) => {
-						this.plugin.settings.dictionaryFolder = value;
+						profile.dictionaryFolder = value;
 						await this.plugin.saveSettings();
 					});
 			});
 
 		new Setting(containerEl)
 			.setName("Verbs folder")
-			.setDesc("Folder containing verb entries (optional, uses dictionary if empty)")
+			.setDesc("Folder containing verb entries; new verbs are created here. Leave empty (or point to a folder that does not exist) to find verbs by tag in the dictionary folder")
 			.addSearch(search => {
 				new FolderSuggest(this.app, search.inputEl);
 				search
 					.setPlaceholder("15. Verbs")
-					.setValue(this.plugin.settings.verbsFolder)
+					.setValue(profile.verbsFolder)
 					.onChange(async (value) => {
-						this.plugin.settings.verbsFolder = value;
+						profile.verbsFolder = value;
 						await this.plugin.saveSettings();
 					});
 			});
 
 		new Setting(containerEl)
 			.setName("Grammar folder")
-			.setDesc("Folder containing grammar resources")
+			.setDesc("Folder containing grammar pages. Leave empty (or point to a folder that does not exist) to find grammar pages anywhere in the vault (isGrammar: true or a #grammar context)")
 			.addSearch(search => {
 				new FolderSuggest(this.app, search.inputEl);
 				search
 					.setPlaceholder("30. Grammar")
-					.setValue(this.plugin.settings.grammarFolder)
+					.setValue(profile.grammarFolder)
 					.onChange(async (value) => {
-						this.plugin.settings.grammarFolder = value;
+						profile.grammarFolder = value;
 						await this.plugin.saveSettings();
 					});
 			});
@@ -191,9 +308,9 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 				new FolderSuggest(this.app, search.inputEl);
 				search
 					.setPlaceholder("90. TEMPLATES")
-					.setValue(this.plugin.settings.templatesFolder)
+					.setValue(profile.templatesFolder)
 					.onChange(async (value) => {
-						this.plugin.settings.templatesFolder = value;
+						profile.templatesFolder = value;
 						await this.plugin.saveSettings();
 					});
 			});
@@ -205,26 +322,70 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 				new FileSuggest(this.app, search.inputEl, "md");
 				search
 					.setPlaceholder("90. TEMPLATES/tpl - New Term.md")
-					.setValue(this.plugin.settings.termTemplateFile)
+					.setValue(profile.termTemplateFile)
 					.onChange(async (value) => {
-						this.plugin.settings.termTemplateFile = value;
+						profile.termTemplateFile = value;
 						await this.plugin.saveSettings();
 					});
 			});
 
+		// =====================
+		// Discovery Rules Section
+		// =====================
+		containerEl.createEl("h2", { text: "Discovery Rules (profile)" });
+		containerEl.createEl("p", {
+			text: "Vault-relative globs, one per line: \"*\" stays within a folder, \"**\" spans folders. Include globs add notes outside the scope's folder; exclude globs leave notes out.",
+			cls: "setting-item-description"
+		});
+
+		const markdownFiles = this.app.vault.getMarkdownFiles();
+		const markdownPaths = markdownFiles.map(file => file.path);
+
+		for (const scope of DISCOVERY_SCOPES) {
+			new Setting(containerEl).setName(DISCOVERY_SCOPE_LABELS[scope]).setHeading();
+
+			for (const kind of ["include", "exclude"] as (keyof DiscoveryRules)[]) {
+				const setting = new Setting(containerEl)
+					.setName(kind === "include" ? "Include" : "Exclude");
+				const preview = setting.descEl.createDiv({ cls: "ll-discovery-preview" });
+				this.renderGlobPreview(preview, profile.discoveryRules[scope][kind], markdownPaths);
+
+				setting.addTextArea(text => {
+					text
+						.setPlaceholder(kind === "include" ? "Lessons/**/Vocabulary/*.md" : "**/Archive/**")
+						.setValue(formatGlobList(profile.discoveryRules[scope][kind]))
+						.onChange(async (value) => {
+							const globs = parseGlobList(value);
+							profile.discoveryRules[scope][kind] = globs;
+							this.renderGlobPreview(preview, globs, markdownPaths);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+			}
+		}
+
+		const ignoredCount = markdownFiles
+			.filter(file => isIgnoredByFrontmatter(this.app.metadataCache.getFileCache(file)?.frontmatter))
+			.length;
+		containerEl.createEl("p", {
+			text: `Notes with "${IGNORE_FRONTMATTER_KEY}: true" in their frontmatter are always skipped (${ignoredCount} in this vault).`,
+			cls: "setting-item-description"
+		});
+
 		// =====================
 		// Classification Files Section
 		// =====================
-		containerEl.createEl("h2", { text: "Classification Files" });
+		containerEl.createEl("h2", { text: "Classification Files (profile)" });
 
 		new Setting(containerEl)
 			.setName("Term types file")
 			.setDesc("TextFile containing term type definitions")
 			.addText(text => text
 				.setPlaceholder("30. Grammar/TermTypes.txt")
-				.setValue(this.plugin.settings.termTypesFile)
+				.setValue(profile.termTypesFile)
 				.onChange(async (value) => {
-					this.plugin.settings.termTypesFile = value;
+					profile.termTypesFile = value;
 					await this.plugin.saveSettings();
 				}));
 
@@ -233,12 +394,204 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 			.setDesc("Text File containing context type definitions")
 			.addText(text => text
 				.setPlaceholder("30. Grammar/ContextTypes.txt")
-				.setValue(this.plugin.settings.contextTypesFile)
+				.setValue(profile.contextTypesFile)
 				.onChange(async (value) => {
-					this.plugin.settings.contextTypesFile = value;
+					profile.contextTypesFile = value;
 					await this.plugin.saveSettings();
 				}));
 
+		// =====================
+		// Field Schema Section
+		// =====================
+		containerEl.createEl("h2", { text: "Field Schema" });
+		containerEl.createEl("p", {
+			text: "Property name and storage location of each field in your notes. Inline fields are written as \"Key:: value\".",
+			cls: "setting-item-description"
+		});
+
+		for (const field of LOGICAL_FIELDS) {
+			const mapping = this.plugin.settings.fieldSchema[field];
+			new Setting(containerEl)
+				.setName(LOGICAL_FIELD_LABELS[field])
+				.setDesc(field === "source" ? "Leave empty to use the source language name" : "")
+				.addText(text => text
+					.setPlaceholder(field === "source" ? profile.sourceLanguage : LOGICAL_FIELD_LABELS[field])
+					.setValue(mapping.key)
+					.onChange(async (value) => {
+						this.plugin.settings.fieldSchema[field] = {
+							...this.plugin.settings.fieldSchema[field],
+							key: value.trim()
+						};
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption("inline", "Inline field")
+					.addOption("frontmatter", "Frontmatter")
+					.setValue(mapping.location)
+					.onChange(async (value) => {
+						this.plugin.settings.fieldSchema[field] = {
+							...this.plugin.settings.fieldSchema[field],
+							location: value as FieldLocation
+						};
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// =====================
+		// Verb Taxonomy Section
+		// =====================
+		containerEl.createEl("h2", { text: "Verb Taxonomy (profile)" });
+		containerEl.createEl("p", {
+			text: "How verbs are recognised and grouped from their type tags. When several prefixes match, the longest one wins.",
+			cls: "setting-item-description"
+		});
+
+		new Setting(containerEl)
+			.setName("Verb tag")
+			.setDesc("Entries whose type contains this tag (or one of its sub-tags) are treated as verbs")
+			.addText(text => text
+				.setPlaceholder("#verbe")
+				.setValue(profile.verbTaxonomy.rootTag)
+				.onChange(async (value) => {
+					profile.verbTaxonomy.rootTag = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		profile.verbTaxonomy.groups.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setName(`Group ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder("Tag prefix")
+					.setValue(rule.prefix)
+					.onChange(async (value) => {
+						rule.prefix = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder("Code")
+					.setValue(rule.code)
+					.onChange(async (value) => {
+						rule.code = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip("Irregular")
+					.setValue(rule.irregular)
+					.onChange(async (value) => {
+						rule.irregular = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("Remove group")
+					.onClick(async () => {
+						profile.verbTaxonomy.groups.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText("Add group")
+				.onClick(async () => {
+					profile.verbTaxonomy.groups.push({ prefix: "", code: "", irregular: false });
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText("Reset to defaults")
+				.onClick(async () => {
+					profile.verbTaxonomy = normalizeVerbTaxonomy(null);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		// =====================
+		// Tense Profiles Section
+		// =====================
+		containerEl.createEl("h2", { text: "Tense Profiles" });
+		containerEl.createEl("p", {
+			text: "Conjugation columns shown in the verbs view, study mode, exports and verb paradigm for each target language. One \"field | label\" per line, in display order; the field is the note property holding the conjugation.",
+			cls: "setting-item-description"
+		});
+
+		const profileLanguage = this.tenseProfileLanguage ?? profile.targetLanguage;
+		new Setting(containerEl)
+			.setName("Language")
+			.setDesc("Languages without a profile use the French columns")
+			.addDropdown(dropdown => {
+				Object.keys(LANGUAGE_LOCALE_MAP).forEach(lang => {
+					dropdown.addOption(lang, lang);
+				});
+				dropdown
+					.setValue(profileLanguage)
+					.onChange((value) => {
+						this.tenseProfileLanguage = value;
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Tense columns")
+			.addTextArea(text => {
+				text
+					.setPlaceholder("présent | Présent\nimparfait | Imparfait")
+					.setValue(formatTenseProfile(this.plugin.settings.tenseProfiles[profileLanguage] ?? []))
+					.onChange(async (value) => {
+						// An emptied profile stays defined: the language then has no tense columns
+						this.plugin.settings.tenseProfiles[profileLanguage] = parseTenseProfile(value);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 8;
+			});
+
+		const paradigm = this.plugin.settings.paradigmProfiles[profileLanguage];
+		const updateParadigm = async (update: Partial<VerbParadigmProfile>) => {
+			const current = this.plugin.settings.paradigmProfiles[profileLanguage]
+				?? { persons: [], participles: [], auxiliaryField: "" };
+			this.plugin.settings.paradigmProfiles[profileLanguage] = { ...current, ...update };
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName("Persons")
+			.setDesc("Row labels of the verb paradigm grid, one per line")
+			.addTextArea(text => {
+				text
+					.setPlaceholder("je\ntu\nil/elle")
+					.setValue((paradigm?.persons ?? []).join("\n"))
+					.onChange(async (value) => {
+						await updateParadigm({
+							persons: value.split(/\r?\n/).map(p => p.trim()).filter(Boolean)
+						});
+					});
+				text.inputEl.rows = 6;
+			});
+
+		new Setting(containerEl)
+			.setName("Participles")
+			.setDesc("One \"field | label\" per line")
+			.addTextArea(text => {
+				text
+					.setPlaceholder("participe-passé | Participe passé")
+					.setValue(formatTenseProfile(paradigm?.participles ?? []))
+					.onChange(async (value) => {
+						await updateParadigm({ participles: parseTenseProfile(value) });
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName("Auxiliary field")
+			.setDesc("Note property holding the auxiliary verb (leave empty if not used)")
+			.addText(text => text
+				.setPlaceholder("auxiliaire")
+				.setValue(paradigm?.auxiliaryField ?? "")
+				.onChange(async (value) => {
+					await updateParadigm({ auxiliaryField: normalizeVerbKey(value) });
+				}));
+
 		// =====================
 		// Display Settings Section
 		// =====================
@@ -268,6 +621,131 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// =====================
+		// Scheduler Section
+		// =====================
+		containerEl.createEl("h2", { text: "Spaced Repetition" });
+		containerEl.createEl("p", {
+			text: "Reviews store the ease or difficulty, interval, due date and lapses of each entry in the scheduler fields of the Field Schema, and keep the Revision field in step.",
+			cls: "setting-item-description"
+		});
+
+		new Setting(containerEl)
+			.setName("Scheduling algorithm")
+			.setDesc("SM-2 (the classic Anki/SuperMemo rules) or FSRS (learns from each answer; it keeps the card difficulty, 1-10, in the difficulty field)")
+			.addDropdown(dropdown => dropdown
+				.addOption("sm2", "SM-2")
+				.addOption("fsrs", "FSRS")
+				.setValue(this.plugin.settings.scheduler.algorithm)
+				.onChange(async (value) => {
+					this.plugin.settings.scheduler = { ...this.plugin.settings.scheduler, algorithm: value as SchedulerAlgorithm };
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.scheduler.algorithm === "fsrs") {
+			new Setting(containerEl)
+				.setName("Desired retention")
+				.setDesc("Chance of remembering a card when it comes due (0.70-0.99). Higher means shorter intervals")
+				.addSlider(slider => slider
+					.setLimits(0.7, 0.99, 0.01)
+					.setValue(this.plugin.settings.scheduler.desiredRetention)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.scheduler = { ...this.plugin.settings.scheduler, desiredRetention: value };
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName("Maximum interval")
+			.setDesc("Longest time between two reviews, in days")
+			.addText(text => text
+				.setPlaceholder("365")
+				.setValue(String(this.plugin.settings.scheduler.maximumInterval))
+				.onChange(async (value) => {
+					const days = parseInt(value, 10);
+					if (!(days >= 1)) return;
+					this.plugin.settings.scheduler = { ...this.plugin.settings.scheduler, maximumInterval: days };
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("New cards per session")
+			.setDesc("Entries never reviewed that a review session adds after the due cards")
+			.addText(text => text
+				.setPlaceholder("10")
+				.setValue(String(this.plugin.settings.scheduler.newCardsPerSession))
+				.onChange(async (value) => {
+					const count = parseInt(value, 10);
+					if (!(count >= 0)) return;
+					this.plugin.settings.scheduler = { ...this.plugin.settings.scheduler, newCardsPerSession: count };
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl("h3", { text: "Typed answers" });
+
+		new Setting(containerEl)
+			.setName("Ignore accents")
+			.setDesc("Accept typed answers with missing or wrong accents as correct; otherwise they are almost right")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.typedAnswers.ignoreAccents)
+				.onChange(async (value) => {
+					this.plugin.settings.typedAnswers = { ...this.plugin.settings.typedAnswers, ignoreAccents: value };
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Ignore case")
+			.setDesc("Accept typed answers whatever their upper and lower case")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.typedAnswers.ignoreCase)
+				.onChange(async (value) => {
+					this.plugin.settings.typedAnswers = { ...this.plugin.settings.typedAnswers, ignoreCase: value };
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Ignore articles")
+			.setDesc("Accept typed answers with a missing or different leading article (\"pomme\" for \"la pomme\")")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.typedAnswers.ignoreArticles)
+				.onChange(async (value) => {
+					this.plugin.settings.typedAnswers = { ...this.plugin.settings.typedAnswers, ignoreArticles: value };
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Typos of an almost right answer")
+			.setDesc("Most letters an answer may get wrong to be almost right (graded Hard); short words allow fewer")
+			.addText(text => text
+				.setPlaceholder("2")
+				.setValue(String(this.plugin.settings.typedAnswers.maxTypos))
+				.onChange(async (value) => {
+					const typos = parseInt(value, 10);
+					if (!(typos >= 0)) return;
+					this.plugin.settings.typedAnswers = { ...this.plugin.settings.typedAnswers, maxTypos: typos };
+					await this.plugin.saveSettings();
+				}));
+
+		// Articles of both languages of the active profile
+		const { targetLanguage, sourceLanguage } = this.plugin.profileSettings;
+		Array.from(new Set([targetLanguage, sourceLanguage])).forEach(language => {
+			new Setting(containerEl)
+				.setName(`${language} articles`)
+				.setDesc("Comma-separated; elided articles end with an apostrophe (l')")
+				.addText(text => text
+					.setValue(getArticles(this.plugin.settings.typedAnswers, language).join(", "))
+					.onChange(async (value) => {
+						const articles = value.split(",").map(article => article.trim()).filter(Boolean);
+						this.plugin.settings.typedAnswers = {
+							...this.plugin.settings.typedAnswers,
+							articles: { ...this.plugin.settings.typedAnswers.articles, [language]: articles }
+						};
+						await this.plugin.saveSettings();
+					}));
+		});
+
 		// =====================
 		// OpenAI Section
 		// =====================
@@ -283,7 +761,6 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.openAIApiKey = value;
 						await this.plugin.saveSettings();
-						this.plugin.openAIService.updateSettings(this.plugin.settings);
 					});
 				text.inputEl.type = "password";
 			});
@@ -308,10 +785,10 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 			});
 
 			// Show responses config info
-			const config = this.plugin.openAIService.getAssistantConfig();
+			const config = this.plugin.getProfileServices(editedName)?.openAIService.getAssistantConfig();
 			if (config?.vectorStoreId) {
 				openAIStatus.createEl("p", {
-					text: `Vector Store ID: ${config.vectorStoreId.substring(0, 20)}...`,
+					text: `Vector Store ID (${editedName}): ${config.vectorStoreId.substring(0, 20)}...`,
 					cls: "ll-status-info"
 				});
 			}
@@ -345,7 +822,7 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 
 					new Notice("Syncing types with OpenAI...");
 					try {
-						await this.plugin.openAIService.syncClassificationFilesWithOpenAI();
+						await this.plugin.getProfileServices(editedName)?.openAIService.syncClassificationFilesWithOpenAI();
 						await this.plugin.saveSettings();
 						new Notice("Types synced successfully!");
 						this.display(); // Refresh to show new IDs
@@ -368,7 +845,7 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 
 					new Notice("Resetting conversation...");
 					try {
-						await this.plugin.openAIService.resetConversation();
+						await this.plugin.getProfileServices(editedName)?.openAIService.resetConversation();
 						await this.plugin.saveSettings();
 						new Notice("Conversation reset!");
 						this.display();
@@ -385,11 +862,11 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Clear cache")
-			.setDesc("Clear the dictionary cache to force reload")
+			.setDesc("Clear the dictionary cache (including the saved index) to force a full reload")
 			.addButton(button => button
 				.setButtonText("Clear Cache")
 				.onClick(() => {
-					this.plugin.dictionaryService.invalidateCache();
+					this.plugin.dictionaryService.invalidateCache(true);
 					new Notice("Cache cleared!");
 				}));
 
@@ -399,4 +876,16 @@ export class LearnLanguageSettingTab extends PluginSettingTab {
 		debugInfo.createEl("p", { text: `Plugin version: 1.0.0` });
 		debugInfo.createEl("p", { text: `Settings file: data.json` });
 	}
+
+	/**
+	 * Show how many vault notes each glob matches
+	 */
+	private renderGlobPreview(el: HTMLElement, globs: string[], paths: string[]): void {
+		el.empty();
+		for (const glob of globs) {
+			const regex = globToRegExp(glob);
+			const count = paths.filter(path => regex.test(path)).length;
+			el.createDiv({ text: `${glob} — ${count} ${count === 1 ? "note" : "notes"}` });
+		}
+	}
 }
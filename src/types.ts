@@ -12,8 +12,12 @@ export interface DictionaryEntry {
 		name: string;
 		basename: string;
 	};
+	/** Words as written in the note: file name and source translation */
 	targetWord: string;
 	sourceWord: string;
+	/** Normalized targetWord and sourceWord used for searching and sorting */
+	targetKey: string;
+	sourceKey: string;
 	type: string;
 	context: string;
 	revision: string;
@@ -22,8 +26,52 @@ export interface DictionaryEntry {
 	synonyms?: string;
 	relations?: string;
 	project?: string;
+	/** File creation and modification times (ms) */
+	created: number;
+	modified: number;
+	/** Scheduler fields as stored in the note (unset until the entry is first reviewed) */
+	ease?: number;
+	/** FSRS card difficulty (1-10) */
+	difficulty?: number;
+	/** Days between the last review and `due` */
+	interval?: number;
+	lapses?: number;
+	/** Next review date (YYYY-MM-DD); derived from the Revision level until the entry is first reviewed */
+	due?: string;
+	/** Whether `due` is today or earlier */
+	isDue: boolean;
+	/** Other note properties and inline fields, shown as custom table columns */
+	fields?: Record<string, string>;
+	/** Conjugation fields, only parsed for verb entries */
+	verbFields?: VerbFields;
 }
 
+/**
+ * Built-in verb note fields (read from frontmatter or inline fields with the same name).
+ * Tense profiles can declare additional fields.
+ */
+export const VERB_FIELDS = [
+	"infinitif",
+	"radical",
+	"radical-imparfait",
+	"radical-futur",
+	"participe-présent",
+	"participe-passé",
+	"présent",
+	"imparfait",
+	"passé-composé",
+	"futur",
+	"présent-subjonctif",
+	"conditionnel-présent",
+	"model",
+	"irregular",
+] as const;
+
+/** Normalized verb field key: lowercase, words joined with "-" (e.g. "passé-composé") */
+export type VerbField = string;
+
+export type VerbFields = Partial<Record<VerbField, string>>;
+
 export interface VerbEntry extends DictionaryEntry {
 	F: string;
 	S: string;
@@ -55,26 +103,538 @@ export interface GrammarPage {
 	Context: string;
 	Tags?: string;
 	isGrammar?: boolean;
+	/** Dictionary entries that link to this page */
+	linkedEntries: GrammarLinkedEntry[];
+}
+
+export interface GrammarLinkedEntry {
+	path: string;
+	targetWord: string;
+	sourceWord: string;
+}
+
+/**
+ * Group code assigned by the verb taxonomy ("" when no group matches)
+ */
+export type VerbGroup = string;
+
+/**
+ * Maps a tag prefix (e.g. "#verbe/régulier/1") to a verb group code
+ */
+export interface VerbGroupRule {
+	prefix: string;
+	code: string;
+	irregular: boolean;
+}
+
+/**
+ * User-defined verb classification
+ */
+export interface VerbTaxonomy {
+	/** Tag that marks an entry as a verb (descendant tags included) */
+	rootTag: string;
+	/** Group rules; the longest matching prefix wins */
+	groups: VerbGroupRule[];
+}
+
+export const DEFAULT_VERB_TAXONOMY: VerbTaxonomy = {
+	rootTag: "#verbe",
+	groups: [
+		{ prefix: "#verbe/régulier/1", code: "1", irregular: false },
+		{ prefix: "#verbe/régulier/2", code: "2", irregular: false },
+		{ prefix: "#verbe/irrégulier", code: "i", irregular: true },
+		{ prefix: "#verbe/irrégulier/3", code: "3", irregular: true },
+		{ prefix: "#verbe/irrégulier/3/ir", code: "3ir", irregular: true },
+		{ prefix: "#verbe/irrégulier/3/oir", code: "3oir", irregular: true },
+		{ prefix: "#verbe/irrégulier/3/re", code: "3re", irregular: true },
+	],
+};
+
+/**
+ * A conjugation column of the verbs table
+ */
+export interface TenseColumn {
+	/** Verb field holding the conjugation */
+	field: VerbField;
+	/** Column header */
+	label: string;
+}
+
+/**
+ * Tense columns per target language, in display order
+ */
+export const DEFAULT_TENSE_PROFILES: Record<string, TenseColumn[]> = {
+	French: [
+		{ field: "présent", label: "Présent" },
+		{ field: "présent-subjonctif", label: "Subjonctif" },
+		{ field: "imparfait", label: "Imparfait" },
+		{ field: "passé-composé", label: "Passé composé" },
+		{ field: "futur", label: "Futur" },
+	],
+	Spanish: [
+		{ field: "presente", label: "Presente" },
+		{ field: "presente-subjuntivo", label: "Subjuntivo" },
+		{ field: "pretérito-imperfecto", label: "Imperfecto" },
+		{ field: "pretérito-indefinido", label: "Pretérito" },
+		{ field: "futuro", label: "Futuro" },
+	],
+	Italian: [
+		{ field: "presente", label: "Presente" },
+		{ field: "congiuntivo-presente", label: "Congiuntivo" },
+		{ field: "imperfetto", label: "Imperfetto" },
+		{ field: "passato-prossimo", label: "Passato prossimo" },
+		{ field: "passato-remoto", label: "Passato remoto" },
+		{ field: "futuro", label: "Futuro" },
+	],
+	German: [
+		{ field: "präsens", label: "Präsens" },
+		{ field: "präteritum", label: "Präteritum" },
+		{ field: "perfekt", label: "Perfekt" },
+		{ field: "futur-i", label: "Futur I" },
+		{ field: "konjunktiv-ii", label: "Konjunktiv II" },
+	],
+};
+
+/**
+ * Person labels, participles and auxiliary of a language's verb paradigm
+ */
+export interface VerbParadigmProfile {
+	/** Row labels of the conjugation grid; line N of a tense value is person N */
+	persons: string[];
+	participles: TenseColumn[];
+	/** Verb field holding the auxiliary ("" when the language has none to record) */
+	auxiliaryField: VerbField;
 }
 
-export type VerbGroup = "" | "1" | "2" | "i" | "3" | "3ir" | "3oir" | "3re";
+export const DEFAULT_PARADIGM_PROFILES: Record<string, VerbParadigmProfile> = {
+	French: {
+		persons: ["je", "tu", "il/elle", "nous", "vous", "ils/elles"],
+		participles: [
+			{ field: "participe-présent", label: "Participe présent" },
+			{ field: "participe-passé", label: "Participe passé" },
+		],
+		auxiliaryField: "auxiliaire",
+	},
+	Spanish: {
+		persons: ["yo", "tú", "él/ella", "nosotros", "vosotros", "ellos/ellas"],
+		participles: [
+			{ field: "gerundio", label: "Gerundio" },
+			{ field: "participio", label: "Participio" },
+		],
+		auxiliaryField: "",
+	},
+	Italian: {
+		persons: ["io", "tu", "lui/lei", "noi", "voi", "loro"],
+		participles: [
+			{ field: "gerundio", label: "Gerundio" },
+			{ field: "participio-passato", label: "Participio passato" },
+		],
+		auxiliaryField: "ausiliare",
+	},
+	German: {
+		persons: ["ich", "du", "er/sie/es", "wir", "ihr", "sie/Sie"],
+		participles: [
+			{ field: "partizip-i", label: "Partizip I" },
+			{ field: "partizip-ii", label: "Partizip II" },
+		],
+		auxiliaryField: "hilfsverb",
+	},
+};
+
+/**
+ * Note discovery scopes with their own include/exclude globs
+ */
+export const DISCOVERY_SCOPES = ["dictionary", "verbs", "grammar"] as const;
+
+export type DiscoveryScope = typeof DISCOVERY_SCOPES[number];
+
+export interface DiscoveryRules {
+	/** Extra notes to discover outside the scope's folder */
+	include: string[];
+	/** Notes to leave out */
+	exclude: string[];
+}
+
+/** Frontmatter flag that keeps a note out of every scope */
+export const IGNORE_FRONTMATTER_KEY = "ll-ignore";
+
+export const DEFAULT_DISCOVERY_RULES: Record<DiscoveryScope, DiscoveryRules> = {
+	dictionary: { include: [], exclude: [] },
+	verbs: { include: [], exclude: [] },
+	grammar: { include: [], exclude: [] },
+};
 
 export type StudyMode = "yes" | "no" | "source";
 
+// ============================================
+// Scheduler
+// ============================================
+
+export const SCHEDULER_ALGORITHMS = ["sm2", "fsrs"] as const;
+export type SchedulerAlgorithm = typeof SCHEDULER_ALGORITHMS[number];
+
+/** Answers of a review, from forgotten to effortless */
+export const REVIEW_GRADES = ["again", "hard", "good", "easy"] as const;
+export type ReviewGrade = typeof REVIEW_GRADES[number];
+
+/**
+ * Scheduling state of an entry. Each algorithm keeps its own factor, so switching algorithms
+ * leaves the other one's value untouched.
+ */
+export interface SchedulingState {
+	/** SM-2 ease; unset: the starting ease */
+	ease?: number;
+	/** FSRS card difficulty (1-10); unset: the starting difficulty */
+	difficulty?: number;
+	interval: number;
+	due: string;
+	lapses: number;
+}
+
+export interface SchedulerSettings {
+	algorithm: SchedulerAlgorithm;
+	/** Probability of recalling a card when it is due (FSRS) */
+	desiredRetention: number;
+	/** Longest interval in days */
+	maximumInterval: number;
+	/** New (never studied) cards added to a review session */
+	newCardsPerSession: number;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+	algorithm: "sm2",
+	desiredRetention: 0.9,
+	maximumInterval: 365,
+	newCardsPerSession: 10,
+};
+
+/** Side of the card shown first: "target" asks for the source translation */
+export type ReviewDirection = "target" | "source";
+
+/** Reveal: self-graded after showing the answer; type: the typed answer is checked and suggests the grade */
+export type ReviewAnswerMode = "reveal" | "type";
+
+/** How typed answers are compared with the stored word */
+export interface TypedAnswerSettings {
+	ignoreAccents: boolean;
+	ignoreCase: boolean;
+	/** A leading article (le, der, the…) may be left out or differ */
+	ignoreArticles: boolean;
+	/** Most typos (Levenshtein distance) of an "almost right" answer; fewer on short words */
+	maxTypos: number;
+	/** Articles by language name */
+	articles: Record<string, string[]>;
+}
+
+export const DEFAULT_ARTICLES: Record<string, string[]> = {
+	French: ["le", "la", "les", "l'", "un", "une", "des", "du", "de la", "de l'"],
+	Spanish: ["el", "la", "los", "las", "lo", "un", "una", "unos", "unas"],
+	Italian: ["il", "lo", "la", "i", "gli", "le", "l'", "un", "uno", "una", "un'"],
+	Portuguese: ["o", "a", "os", "as", "um", "uma", "uns", "umas"],
+	Catalan: ["el", "la", "els", "les", "l'", "un", "una", "uns", "unes"],
+	German: ["der", "die", "das", "den", "dem", "des", "ein", "eine", "einen", "einem", "einer", "eines"],
+	English: ["the", "a", "an", "to"],
+	Dutch: ["de", "het", "een"],
+	Swedish: ["en", "ett"],
+	Norwegian: ["en", "ei", "et"],
+	Danish: ["en", "et"],
+	Greek: ["ο", "η", "το", "οι", "τα", "ένας", "μία", "ένα"],
+};
+
+export const DEFAULT_TYPED_ANSWER_SETTINGS: TypedAnswerSettings = {
+	ignoreAccents: false,
+	ignoreCase: true,
+	ignoreArticles: true,
+	maxTypos: 2,
+	articles: DEFAULT_ARTICLES,
+};
+
+/** Correct, close enough to count with a lower grade, or wrong */
+export type AnswerVerdict = "correct" | "almost" | "wrong";
+
+export interface AnswerCheck {
+	verdict: AnswerVerdict;
+	/** Accepted answer closest to the typed one, as stored */
+	expected: string;
+	/** What made an almost-right answer differ */
+	reason?: "accents" | "case" | "article" | "typo";
+	/** Edits between the typed and the expected answer */
+	distance: number;
+}
+
+/** Words: recall the translation of an entry; cloze: recall the starred term of an example */
+export type ReviewMode = "words" | "cloze";
+
+/** One example line of an entry, recalled with its *starred* spans blanked */
+export interface ClozeItem {
+	/** Identifies the card: note path and example text */
+	key: string;
+	/** Example line as written, starred spans included */
+	text: string;
+	/** Starred spans, in order */
+	answers: string[];
+}
+
+/** What a review session draws its cards from */
+export interface ReviewSessionOptions {
+	filters?: Partial<FilterState>;
+	/** Filter preset the filters come from */
+	preset?: string;
+	direction?: ReviewDirection;
+	mode?: ReviewMode;
+	answer?: ReviewAnswerMode;
+	/** Language profile (default: the active one) */
+	profile?: string;
+}
+
+export interface ReviewCard {
+	entry: DictionaryEntry;
+	/** Never studied before */
+	isNew: boolean;
+	/** Example recalled by a cloze card; unset for word cards */
+	cloze?: ClozeItem;
+}
+
+export interface ReviewSummary {
+	/** Cards answered at least once */
+	reviewed: number;
+	/** First answer of each card */
+	counts: Record<ReviewGrade, number>;
+	/** Entries of the cards whose first answer was "again" */
+	forgotten: DictionaryEntry[];
+	durationMs: number;
+}
+
+/** One graded review, as kept in the append-only review log */
+export interface ReviewLogEntry {
+	/** Path of the entry's note, following later renames */
+	path: string;
+	direction: ReviewDirection;
+	grade: ReviewGrade;
+	/** Unix time in milliseconds */
+	timestamp: number;
+	/** Time the card was shown before it was graded, in milliseconds */
+	durationMs: number;
+	/** Example line of a cloze card */
+	cloze?: string;
+}
+
+/** Line of the review log recording that a note or folder was renamed after the reviews before it */
+export interface ReviewLogRename {
+	renamedFrom: string;
+	path: string;
+	/** Unix time in milliseconds */
+	timestamp: number;
+}
+
+/** Reviews and retention of the entries sharing a type, context or rating */
+export interface ReviewBreakdownRow {
+	value: string;
+	reviews: number;
+	/** Share of reviews not answered "again" (0-1) */
+	retention: number;
+}
+
+export interface ReviewStatistics {
+	/** Reviews per day of the period, oldest first */
+	reviewsPerDay: { date: string; count: number }[];
+	/** Reviews in the period */
+	reviews: number;
+	/** Share of the period's reviews not answered "again" (0-1), null without reviews */
+	retention: number | null;
+	/** Time spent on the period's reviews, in milliseconds */
+	durationMs: number;
+	/** Days in a row with reviews, up to today (or yesterday when nothing was reviewed yet today) */
+	currentStreak: number;
+	longestStreak: number;
+	/** Reviews per day of the whole log, by YYYY-MM-DD */
+	activity: Record<string, number>;
+	/** Cards coming due on each of the next days; overdue cards count on today */
+	forecast: { date: string; count: number }[];
+	byType: ReviewBreakdownRow[];
+	byContext: ReviewBreakdownRow[];
+	byRating: ReviewBreakdownRow[];
+}
+
+/** Revision filter values matched against the due date instead of the Revision field */
+export const DUE_FILTERS = ["due today", "overdue"] as const;
+
+// ============================================
+// Field Schema
+// ============================================
+
+/**
+ * Logical fields of a dictionary note, independent of how they are named in the vault
+ */
+export type LogicalField =
+	| "source"
+	| "type"
+	| "context"
+	| "rating"
+	| "examples"
+	| "synonyms"
+	| "relations"
+	| "revision"
+	| "project"
+	| "ease"
+	| "difficulty"
+	| "interval"
+	| "due"
+	| "lapses";
+
+export type FieldLocation = "frontmatter" | "inline";
+
+export interface FieldMapping {
+	/** Property name in the note (for "source", empty means the source language name) */
+	key: string;
+	/** Where the value is stored: a frontmatter property or a Dataview inline field ("Key:: value") */
+	location: FieldLocation;
+}
+
+export type FieldSchema = Record<LogicalField, FieldMapping>;
+
+/** Order in which fields are listed in settings and written to new notes */
+export const LOGICAL_FIELDS: LogicalField[] = [
+	"source",
+	"type",
+	"synonyms",
+	"context",
+	"examples",
+	"rating",
+	"relations",
+	"revision",
+	"project",
+	"ease",
+	"difficulty",
+	"interval",
+	"due",
+	"lapses",
+];
+
+/** Fields written by the scheduler; new notes get them on their first review */
+export const SCHEDULING_FIELDS: LogicalField[] = ["ease", "difficulty", "interval", "due", "lapses"];
+
+export const DEFAULT_FIELD_SCHEMA: FieldSchema = {
+	source: { key: "", location: "frontmatter" },
+	type: { key: "Type", location: "inline" },
+	context: { key: "Context", location: "inline" },
+	rating: { key: "Rating", location: "inline" },
+	examples: { key: "Examples", location: "inline" },
+	synonyms: { key: "Synonyms", location: "inline" },
+	relations: { key: "Relations", location: "inline" },
+	revision: { key: "Revision", location: "inline" },
+	project: { key: "Project", location: "inline" },
+	ease: { key: "Ease", location: "inline" },
+	difficulty: { key: "Difficulty", location: "inline" },
+	interval: { key: "Interval", location: "inline" },
+	due: { key: "Due", location: "inline" },
+	lapses: { key: "Lapses", location: "inline" },
+};
+
 // ============================================
 // Filter Types
 // ============================================
 
+/** Filters matched as text, ignoring accents unless switched to exact matching */
+export const TEXT_FILTER_KEYS = ["targetWord", "sourceWord", "type", "context"] as const;
+export type TextFilterKey = typeof TEXT_FILTER_KEYS[number];
+
+/** Value of a facet filter: one value or several (matched with OR); "all" or [] disables it */
+export type FacetValue = string | string[];
+
 export interface FilterState {
 	targetWord: string;
 	sourceWord: string;
-	type: string;
-	context: string;
-	revision: string;
-	rating: string;
+	type: FacetValue;
+	context: FacetValue;
+	revision: FacetValue;
+	rating: FacetValue;
 	study: StudyMode;
 	group?: string;
 	irregular?: string;
+	/** Text filters that match accents exactly */
+	exactAccents?: TextFilterKey[];
+	/** Boolean filter query, e.g. `(type:#verbe OR type:#expression) NOT context:#A1 revision<3` */
+	query?: string;
+}
+
+// ============================================
+// Table Layout Types
+// ============================================
+
+/** Built-in dictionary table columns; other note fields are "field:<name>" columns */
+export const DICTIONARY_COLUMNS = [
+	"target",
+	"source",
+	"type",
+	"context",
+	"rating",
+	"examples",
+	"synonyms",
+	"relations",
+	"project",
+	"revision",
+	"due",
+	"created",
+	"modified",
+] as const;
+export type DictionaryColumnId = typeof DICTIONARY_COLUMNS[number];
+
+/** Columns shown until a layout is configured */
+export const DEFAULT_DICTIONARY_COLUMNS: DictionaryColumnId[] = ["target", "source", "type", "context", "rating", "examples"];
+
+export type SortDirection = "asc" | "desc";
+
+export interface TableSort {
+	column: string;
+	direction: SortDirection;
+}
+
+export interface TableColumn {
+	id: string;
+	/** Width in pixels; unset columns size to their content */
+	width?: number;
+}
+
+/** Visible columns in display order, plus the sort (entries keep the index order without one) */
+export interface TableLayout {
+	columns: TableColumn[];
+	sort?: TableSort;
+}
+
+/**
+ * State a Dictionary or Verbs pane saves with the workspace, so each pane
+ * reopens with its own filters, page and sort
+ */
+export interface TableViewState<F = Partial<FilterState>> {
+	/** Filters, including the study mode */
+	filters?: F;
+	/** Index of the first entry of the current page */
+	pageStart?: number;
+	pageSize?: number;
+	/** null: the pane was explicitly left unsorted */
+	sort?: TableSort | null;
+	/** Filter preset picked in the pane */
+	preset?: string;
+}
+
+/** Filters kept in a preset; study mode and pagination stay with the view */
+export const PRESET_FILTER_KEYS = [
+	"targetWord",
+	"sourceWord",
+	"type",
+	"context",
+	"revision",
+	"rating",
+	"exactAccents",
+	"query",
+] as const;
+export type PresetFilterKey = typeof PRESET_FILTER_KEYS[number];
+
+/** Named set of filters shared by the views and `learn-dictionary` blocks */
+export interface FilterPreset {
+	name: string;
+	filters: Partial<Pick<FilterState, PresetFilterKey>>;
 }
 
 export interface PaginationState {
@@ -136,6 +696,13 @@ export function getLocaleCode(language: string): string {
 // ============================================
 
 export interface LearnLanguageSettings {
+	// Name of the language-pair profile held in the fields below
+	profileName: string;
+	// Further language-pair profiles
+	profiles: LanguageProfile[];
+	// Profile used by views, commands and code blocks without a "profile:" option
+	activeProfile: string;
+
 	// Language configuration
 	targetLanguage: string;  // The language being learned (e.g., "French")
 	sourceLanguage: string;  // The native/source language (e.g., "Spanish")
@@ -153,6 +720,21 @@ export interface LearnLanguageSettings {
 	termTypesFile: string;
 	contextTypesFile: string;
 
+	// Include/exclude globs per discovery scope
+	discoveryRules: Record<DiscoveryScope, DiscoveryRules>;
+
+	// Field schema: property name and location of each logical field
+	fieldSchema: FieldSchema;
+
+	// Verb classification
+	verbTaxonomy: VerbTaxonomy;
+
+	// Conjugation columns, keyed by target language
+	tenseProfiles: Record<string, TenseColumn[]>;
+
+	// Verb paradigm (persons, participles, auxiliary), keyed by target language
+	paradigmProfiles: Record<string, VerbParadigmProfile>;
+
 	// OpenAI settings
 	openAIApiKey: string;
   askTermAssistant: {
@@ -169,23 +751,72 @@ export interface LearnLanguageSettings {
 	defaultPageSize: number;
 	enableStudyMode: boolean;
 
+	// Table layouts of the views, keyed by view type
+	tableLayouts: Record<string, TableLayout>;
+
+	// Named filter presets, shared by every profile
+	filterPresets: FilterPreset[];
+
+	// Spaced-repetition scheduler behind the Revision field
+	scheduler: SchedulerSettings;
+
+	// Comparison of answers typed in review sessions
+	typedAnswers: TypedAnswerSettings;
+
 	// Auto-sync
 	autoSyncClassificationFilesWithOpenAI: boolean;
 }
 
+/**
+ * Settings each language-pair profile has its own value for
+ */
+export const PROFILE_SETTING_KEYS = [
+	"targetLanguage",
+	"sourceLanguage",
+	"dictionaryFolder",
+	"verbsFolder",
+	"grammarFolder",
+	"templatesFolder",
+	"termTemplateFile",
+	"termTypesFile",
+	"contextTypesFile",
+	"discoveryRules",
+	"verbTaxonomy",
+	"askTermAssistant",
+] as const;
+
+export type ProfileSettingKey = typeof PROFILE_SETTING_KEYS[number];
+
+export type ProfileSettings = Pick<LearnLanguageSettings, ProfileSettingKey>;
+
+export interface LanguageProfile extends ProfileSettings {
+	/** Stable key of the profile's data files; kept when the profile is renamed */
+	id: string;
+	name: string;
+}
+
 export const DEFAULT_SETTINGS: LearnLanguageSettings = {
+	profileName: "Default",
+	profiles: [],
+	activeProfile: "Default",
+
 	// Language defaults (French-Spanish)
 	targetLanguage: "French",
 	sourceLanguage: "Spanish",
 
 	// Folder defaults
 	dictionaryFolder: "10. Dictionary",
-	verbsFolder: "15. Verbs",
-	grammarFolder: "30. Grammar",
+	verbsFolder: "",
+	grammarFolder: "",
 	templatesFolder: "90. TEMPLATES",
 	termTemplateFile: "90. TEMPLATES/tpl - New Term.md",  // Empty means use default content
 	termTypesFile: "30. Grammar/TermTypes.txt",
 	contextTypesFile: "30. Grammar/ContextTypes.txt",
+	discoveryRules: DEFAULT_DISCOVERY_RULES,
+	fieldSchema: DEFAULT_FIELD_SCHEMA,
+	verbTaxonomy: DEFAULT_VERB_TAXONOMY,
+	tenseProfiles: DEFAULT_TENSE_PROFILES,
+	paradigmProfiles: DEFAULT_PARADIGM_PROFILES,
 	openAIApiKey: "",
 
   askTermAssistant: {
@@ -200,6 +831,10 @@ export const DEFAULT_SETTINGS: LearnLanguageSettings = {
 
 	defaultPageSize: 100,
 	enableStudyMode: true,
+	tableLayouts: {},
+	filterPresets: [],
+	scheduler: DEFAULT_SCHEDULER_SETTINGS,
+	typedAnswers: DEFAULT_TYPED_ANSWER_SETTINGS,
 	autoSyncClassificationFilesWithOpenAI: true,
 };
 
@@ -234,6 +869,8 @@ export interface AITermResponse {
 export const VIEW_TYPE_DICTIONARY = "learn-language-dictionary-view";
 export const VIEW_TYPE_VERBS = "learn-language-verbs-view";
 export const VIEW_TYPE_GRAMMAR = "learn-language-grammar-view";
+export const VIEW_TYPE_REVIEW = "learn-language-review-view";
+export const VIEW_TYPE_STATISTICS = "learn-language-statistics-view";
 
 // ============================================
 // Event Types
@@ -249,19 +886,35 @@ export interface DictionaryUpdateEvent {
 // ============================================
 
 export interface LearnLanguageAPI {
-	// Language settings
-	targetLanguage: string;
-	sourceLanguage: string;
+	// Language settings of the active profile
+	readonly targetLanguage: string;
+	readonly sourceLanguage: string;
+
+	// Language-pair profiles. Data access takes an optional profile name (default: the active profile)
+	getProfiles: () => string[];
+	getActiveProfile: () => string;
+	setActiveProfile: (name: string) => Promise<void>;
 
 	// Data access
-	getDictionary: () => Promise<DictionaryEntry[]>;
-	getVerbs: () => Promise<VerbEntry[]>;
-	getGrammarPages: () => Promise<GrammarPage[]>;
-	createTerm: (term: Partial<DictionaryEntry>) => Promise<void>;
-	updateTerm: (filePath: string, updates: Partial<DictionaryEntry>) => Promise<void>;
-	askAI: (term: string) => Promise<AITermResponse | string | null>;
-	filterEntries: <T extends DictionaryEntry>(entries: T[], filters: Partial<FilterState>) => T[];
+	getDictionary: (profile?: string) => Promise<DictionaryEntry[]>;
+	getVerbs: (profile?: string) => Promise<VerbEntry[]>;
+	getGrammarPages: (profile?: string) => Promise<GrammarPage[]>;
+	/** Verb conjugations can be passed as VerbEntry keys (e.g. "présent") or in verbFields */
+	createTerm: (term: Partial<VerbEntry>, profile?: string) => Promise<void>;
+	updateTerm: (filePath: string, updates: Partial<VerbEntry>, profile?: string) => Promise<void>;
+	askAI: (term: string, profile?: string) => Promise<AITermResponse | string | null>;
+	/** Filters can also be given as the name of a filter preset */
+	filterEntries: <T extends DictionaryEntry>(entries: T[], filters: Partial<FilterState> | string) => T[];
 	paginateEntries: <T>(entries: T[], start: number, size: number) => T[];
+
+	// Filter presets
+	getFilterPresets: () => FilterPreset[];
+	getFilterPreset: (name: string) => FilterPreset | null;
+	saveFilterPreset: (name: string, filters: Partial<FilterState>) => Promise<FilterPreset>;
+	deleteFilterPreset: (name: string) => Promise<boolean>;
+
+	// Study history
+	getReviewLog: (profile?: string) => Promise<ReviewLogEntry[]>;
 }
 
 declare global {
@@ -0,0 +1,188 @@
+import {
+	AnswerCheck,
+	DEFAULT_ARTICLES,
+	DEFAULT_TYPED_ANSWER_SETTINGS,
+	ReviewCard,
+	ReviewDirection,
+	ReviewGrade,
+	TypedAnswerSettings
+} from "../types";
+import { removeDiacritics } from "./searchKeys";
+
+/** How one comparison treats accents, case and articles */
+interface CompareOptions {
+	ignoreAccents: boolean;
+	ignoreCase: boolean;
+	/** Articles stripped from the start; empty to keep them */
+	articles: string[];
+	locale?: string;
+}
+
+/**
+ * Meanings listed in a translation field: "comer, almorzar; tomar" → ["comer", "almorzar", "tomar"]
+ */
+export function splitMeanings(value: string): string[] {
+	return (value || "")
+		.split(/[,;/]/)
+		.map(meaning => meaning.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Answers a typed-answer card accepts: any listed meaning of the word asked for,
+ * or the starred spans of a cloze example
+ */
+export function getAcceptedAnswers(card: ReviewCard, direction: ReviewDirection): string[] {
+	if (card.cloze) return [card.cloze.answers.join(" ")];
+	return splitMeanings(direction === "source" ? card.entry.targetWord : card.entry.sourceWord);
+}
+
+/**
+ * Articles of a language, from the settings or the built-in lists
+ */
+export function getArticles(settings: TypedAnswerSettings, language: string): string[] {
+	return settings.articles[language] ?? DEFAULT_ARTICLES[language] ?? [];
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions and substitutions)
+ */
+export function levenshtein(a: string, b: string): number {
+	if (a === b) return 0;
+	if (!a) return b.length;
+	if (!b) return a.length;
+
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Compare a typed answer with the accepted ones. An answer that only differs in accents, case
+ * or article where those count, or by a few typos, is almost right.
+ */
+export function checkAnswer(
+	input: string,
+	accepted: string[],
+	settings: TypedAnswerSettings,
+	language: string,
+	locale?: string
+): AnswerCheck {
+	const articles = getArticles(settings, language);
+	const strict: CompareOptions = {
+		ignoreAccents: settings.ignoreAccents,
+		ignoreCase: settings.ignoreCase,
+		articles: settings.ignoreArticles ? articles : [],
+		locale
+	};
+	const lenient: CompareOptions = { ignoreAccents: true, ignoreCase: true, articles, locale };
+	const candidates = accepted.length > 0 ? accepted : [""];
+
+	const typed = normalizeAnswer(input, lenient);
+	if (!typed) return { verdict: "wrong", expected: candidates[0], distance: normalizeAnswer(candidates[0], lenient).length };
+
+	const exact = candidates.find(answer => normalizeAnswer(input, strict) === normalizeAnswer(answer, strict));
+	if (exact !== undefined) return { verdict: "correct", expected: exact, distance: 0 };
+
+	let best: AnswerCheck = { verdict: "wrong", expected: candidates[0], distance: Infinity };
+	for (const answer of candidates) {
+		const stored = normalizeAnswer(answer, lenient);
+
+		if (typed === stored) {
+			return { verdict: "almost", expected: answer, reason: getDifference(input, answer, strict, articles), distance: 0 };
+		}
+
+		const distance = levenshtein(typed, stored);
+		if (distance < best.distance) {
+			const allowed = Math.min(settings.maxTypos, Math.floor(stored.length / 4));
+			best = distance <= allowed
+				? { verdict: "almost", expected: answer, reason: "typo", distance }
+				: { verdict: "wrong", expected: answer, distance };
+		}
+	}
+	return best;
+}
+
+/**
+ * Grade a checked answer suggests
+ */
+export function gradeForAnswer(check: AnswerCheck): ReviewGrade {
+	if (check.verdict === "correct") return "good";
+	return check.verdict === "almost" ? "hard" : "again";
+}
+
+/**
+ * Merge stored typed-answer settings with the defaults
+ */
+export function normalizeTypedAnswerSettings(raw: unknown): TypedAnswerSettings {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<TypedAnswerSettings>;
+	const defaults = DEFAULT_TYPED_ANSWER_SETTINGS;
+
+	const articles: Record<string, string[]> = { ...defaults.articles };
+	if (stored.articles && typeof stored.articles === "object") {
+		Object.keys(stored.articles).forEach(language => {
+			const list = stored.articles![language];
+			if (Array.isArray(list)) {
+				articles[language] = list.filter(item => typeof item === "string" && item.trim()).map(item => item.trim());
+			}
+		});
+	}
+
+	return {
+		ignoreAccents: typeof stored.ignoreAccents === "boolean" ? stored.ignoreAccents : defaults.ignoreAccents,
+		ignoreCase: typeof stored.ignoreCase === "boolean" ? stored.ignoreCase : defaults.ignoreCase,
+		ignoreArticles: typeof stored.ignoreArticles === "boolean" ? stored.ignoreArticles : defaults.ignoreArticles,
+		maxTypos: typeof stored.maxTypos === "number" && stored.maxTypos >= 0 ? Math.floor(stored.maxTypos) : defaults.maxTypos,
+		articles
+	};
+}
+
+/**
+ * Answer reduced to what the comparison looks at: no notes in parentheses, no end punctuation,
+ * single spaces, and accents, case and leading article as the options say
+ */
+function normalizeAnswer(value: string, options: CompareOptions): string {
+	let text = value
+		.replace(/\([^)]*\)/g, " ")
+		.replace(/[.!?¡¿…]+/g, " ")
+		.replace(/[’`]/g, "'")
+		.replace(/\s+/g, " ")
+		.trim();
+
+	text = stripArticle(text, options.articles, options.locale);
+	if (options.ignoreCase) text = text.toLocaleLowerCase(options.locale);
+	if (options.ignoreAccents) text = removeDiacritics(text);
+	return text;
+}
+
+function stripArticle(text: string, articles: string[], locale?: string): string {
+	const lower = text.toLocaleLowerCase(locale);
+	// Longest first, so "de la" wins over "de"
+	const sorted = articles.slice().sort((a, b) => b.length - a.length);
+	for (const article of sorted) {
+		const prefix = article.toLocaleLowerCase(locale);
+		const elided = prefix.endsWith("'");
+		if (elided ? lower.startsWith(prefix) : lower.startsWith(`${prefix} `)) {
+			const rest = text.slice(prefix.length).trim();
+			if (rest) return rest;
+		}
+	}
+	return text;
+}
+
+/**
+ * Which tolerance an answer equal under the lenient comparison still misses
+ */
+function getDifference(input: string, answer: string, strict: CompareOptions, articles: string[]): AnswerCheck["reason"] {
+	const same = (options: CompareOptions) => normalizeAnswer(input, options) === normalizeAnswer(answer, options);
+	if (same({ ...strict, articles })) return "article";
+	if (same({ ...strict, articles, ignoreAccents: true })) return "accents";
+	return "case";
+}
@@ -0,0 +1,126 @@
+import { ClozeItem, DictionaryEntry, ReviewCard, SchedulingState } from "../types";
+import { escapeHtml } from "./examples";
+import { isDueOn } from "./scheduler";
+
+// A starred span, as the AI prompt writes the target term in each example
+const STARRED = /\*([^*\n]+)\*/g;
+
+/**
+ * Lines of an Examples field; <br> and newlines both separate examples
+ */
+export function splitExampleLines(examples?: string): string[] {
+	if (!examples) return [];
+	return examples
+		.split(/<br\s*\/?>|\n/i)
+		.map(line => line.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Cloze cards of an entry: one per example line with at least one starred span
+ */
+export function getClozeItems(entry: DictionaryEntry): ClozeItem[] {
+	const items: ClozeItem[] = [];
+	const seen = new Set<string>();
+
+	splitExampleLines(entry.examples).forEach(text => {
+		const answers: string[] = [];
+		text.replace(STARRED, (_match, span: string) => {
+			answers.push(span.trim());
+			return "";
+		});
+		const key = `${entry.file.path}#${text}`;
+		if (answers.length === 0 || seen.has(key)) return;
+		seen.add(key);
+		items.push({ key, text, answers });
+	});
+
+	return items;
+}
+
+/**
+ * Example line as HTML, with the starred spans blanked or, once revealed, emphasized
+ */
+export function clozeHtml(text: string, revealed: boolean): string {
+	return escapeHtml(text).replace(STARRED, (_match, span: string) =>
+		revealed
+			? `<em class="ll-cloze-answer">${span}</em>`
+			: `<span class="ll-cloze-blank">[…]</span>`
+	);
+}
+
+/**
+ * Cloze cards of a review session: due examples, most overdue first, then up to `newLimit` new ones.
+ * `states` holds the schedule of each example reviewed before, by card key.
+ */
+export function buildClozeQueue(
+	entries: DictionaryEntry[],
+	states: Record<string, SchedulingState>,
+	newLimit: number,
+	today: string
+): ReviewCard[] {
+	const due: { card: ReviewCard; due: string }[] = [];
+	const fresh: ReviewCard[] = [];
+
+	entries.forEach(entry => {
+		getClozeItems(entry).forEach(cloze => {
+			const state = states[cloze.key];
+			if (!state) {
+				fresh.push({ entry, isNew: true, cloze });
+			} else if (isDueOn(state.due, today)) {
+				due.push({ card: { entry, isNew: false, cloze }, due: state.due });
+			}
+		});
+	});
+
+	due.sort((a, b) => (a.due < b.due ? -1 : a.due > b.due ? 1 : 0));
+	return [...due.map(item => item.card), ...fresh.slice(0, Math.max(0, newLimit))];
+}
+
+/**
+ * Cloze schedules with the keys of a renamed note, or of the notes in a renamed folder, moved to the new path;
+ * null when no key was affected
+ */
+export function renameClozeKeys(
+	states: Record<string, SchedulingState>,
+	oldPath: string,
+	newPath: string
+): Record<string, SchedulingState> | null {
+	const renamed: Record<string, SchedulingState> = {};
+	let changed = false;
+
+	for (const key of Object.keys(states)) {
+		let newKey = key;
+		if (key.startsWith(oldPath + "#") || key.startsWith(oldPath + "/")) {
+			newKey = newPath + key.slice(oldPath.length);
+			changed = true;
+		}
+		renamed[newKey] = states[key];
+	}
+
+	return changed ? renamed : null;
+}
+
+/**
+ * Cloze schedules of the examples that still exist; edited or removed examples leave their key behind
+ */
+export function pruneClozeStates(
+	states: Record<string, SchedulingState>,
+	entries: DictionaryEntry[]
+): Record<string, SchedulingState> {
+	const keys = new Set<string>();
+	entries.forEach(entry => getClozeItems(entry).forEach(item => keys.add(item.key)));
+
+	const pruned: Record<string, SchedulingState> = {};
+	for (const key of Object.keys(states)) {
+		if (keys.has(key)) pruned[key] = states[key];
+	}
+	return pruned;
+}
+
+/**
+ * Identifies a card within a session: the example for cloze cards, the note otherwise
+ */
+export function getReviewCardKey(card: ReviewCard): string {
+	return card.cloze?.key ?? card.entry.file.path;
+}
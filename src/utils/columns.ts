@@ -0,0 +1,258 @@
+import {
+	DEFAULT_DICTIONARY_COLUMNS,
+	DICTIONARY_COLUMNS,
+	DictionaryColumnId,
+	DictionaryEntry,
+	TableColumn,
+	TableLayout,
+	TableSort
+} from "../types";
+import { foldForSearch } from "./searchKeys";
+
+/** Prefix of columns showing a note field outside the field schema, e.g. "field:Gender" */
+export const FIELD_COLUMN_PREFIX = "field:";
+
+/** Narrowest width a column can be resized to */
+export const MIN_COLUMN_WIDTH = 48;
+
+const COLUMN_LABELS: Record<DictionaryColumnId, string> = {
+	target: "Target",
+	source: "Source",
+	type: "Type",
+	context: "Context",
+	rating: "Rating",
+	examples: "Examples",
+	synonyms: "Synonyms",
+	relations: "Relations",
+	project: "Project",
+	revision: "Revision",
+	due: "Due",
+	created: "Created",
+	modified: "Modified",
+};
+
+/**
+ * Whether a column id is a built-in column or a note field column
+ */
+export function isKnownColumn(id: string): boolean {
+	return (DICTIONARY_COLUMNS as readonly string[]).includes(id) ||
+		(id.startsWith(FIELD_COLUMN_PREFIX) && id.length > FIELD_COLUMN_PREFIX.length);
+}
+
+/**
+ * Note field shown by a "field:<name>" column, or null for built-in columns
+ */
+export function getColumnField(id: string): string | null {
+	return id.startsWith(FIELD_COLUMN_PREFIX) ? id.slice(FIELD_COLUMN_PREFIX.length) : null;
+}
+
+/**
+ * Header of a column; the word columns are named after the profile's languages
+ */
+export function getColumnLabel(id: string, languages: { target: string; source: string }): string {
+	if (id === "target") return languages.target;
+	if (id === "source") return languages.source;
+	return getColumnField(id) ?? COLUMN_LABELS[id as DictionaryColumnId] ?? id;
+}
+
+/**
+ * Layout used by views and blocks that have not configured their columns
+ */
+export function getDefaultTableLayout(): TableLayout {
+	return { columns: DEFAULT_DICTIONARY_COLUMNS.map(id => ({ id })) };
+}
+
+/**
+ * Columns that can be shown for a set of entries: the built-in ones, then every note field found
+ */
+export function getAvailableColumns(entries: DictionaryEntry[]): string[] {
+	const fields = new Set<string>();
+	for (const entry of entries) {
+		if (!entry.fields) continue;
+		for (const name of Object.keys(entry.fields)) fields.add(name);
+	}
+	const custom = Array.from(fields).sort((a, b) => a.localeCompare(b)).map(name => FIELD_COLUMN_PREFIX + name);
+	return [...DICTIONARY_COLUMNS, ...custom];
+}
+
+/**
+ * Revision as a number; "new" and empty count as 0, other text is null
+ */
+export function revisionNumber(value: string): number | null {
+	const trimmed = value.trim().toLowerCase();
+	if (!trimmed || trimmed === "new") return 0;
+	return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : null;
+}
+
+/**
+ * Rating as a number of stars ("#⭐⭐" -> 2); plain numbers are taken as is
+ */
+export function ratingNumber(value: string): number | null {
+	const trimmed = value.trim().replace(/^#/, "").replace(/\uFE0F/g, "");
+	if (!trimmed) return 0;
+	if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+	return /^⭐+$/.test(trimmed) ? trimmed.length : null;
+}
+
+/**
+ * Text of a column for an entry, as shown in plain cells
+ */
+export function getColumnText(entry: DictionaryEntry, id: string): string {
+	const field = getColumnField(id);
+	if (field !== null) return entry.fields?.[field] ?? "";
+
+	switch (id as DictionaryColumnId) {
+		case "target":
+			return entry.targetWord;
+		case "source":
+			return entry.sourceWord;
+		case "created":
+			return formatDate(entry.created);
+		case "modified":
+			return formatDate(entry.modified);
+		default:
+			return String(entry[id as keyof DictionaryEntry] ?? "");
+	}
+}
+
+function formatDate(time: number): string {
+	return time ? new Date(time).toLocaleDateString() : "";
+}
+
+/**
+ * Value a column sorts by; null sorts last in both directions
+ */
+function getSortValue(entry: DictionaryEntry, id: string, locale: string): string | number | null {
+	switch (id) {
+		case "target":
+			return entry.targetKey;
+		case "source":
+			return entry.sourceKey || null;
+		case "revision":
+			return revisionNumber(entry.revision || "") ?? foldForSearch(entry.revision, { locale });
+		case "rating":
+			return entry.rating ? ratingNumber(entry.rating) : null;
+		case "due":
+			return entry.due || null;
+		case "created":
+			return entry.created || null;
+		case "modified":
+			return entry.modified || null;
+	}
+
+	const text = getColumnText(entry, id).trim();
+	if (!text) return null;
+	return /^-?\d+(\.\d+)?$/.test(text) ? parseFloat(text) : foldForSearch(text, { locale });
+}
+
+/**
+ * Sort entries by a column; ties keep their current order
+ */
+export function sortEntriesByColumn(entries: DictionaryEntry[], sort: TableSort, locale: string): DictionaryEntry[] {
+	const sign = sort.direction === "desc" ? -1 : 1;
+	const keyed = entries.map((entry, index) => ({ entry, index, value: getSortValue(entry, sort.column, locale) }));
+
+	keyed.sort((a, b) => {
+		if (a.value === null || b.value === null) {
+			if (a.value === b.value) return a.index - b.index;
+			return a.value === null ? 1 : -1;
+		}
+		let order: number;
+		if (typeof a.value === "number" && typeof b.value === "number") {
+			order = a.value - b.value;
+		} else if (typeof a.value === "number" || typeof b.value === "number") {
+			// Numbers before text
+			order = typeof a.value === "number" ? -1 : 1;
+		} else {
+			order = a.value.localeCompare(b.value, locale);
+		}
+		return order !== 0 ? order * sign : a.index - b.index;
+	});
+
+	return keyed.map(item => item.entry);
+}
+
+/**
+ * Parse a `columns:` option, e.g. `target=220, source, type, revision, field:Gender=120`.
+ * Unknown columns are skipped; an empty result means "use the defaults".
+ */
+export function parseColumnsOption(value: string | undefined): TableColumn[] {
+	if (!value) return [];
+
+	const columns: TableColumn[] = [];
+	for (const part of value.replace(/^\[|\]$/g, "").split(",")) {
+		const match = /^\s*(.+?)\s*(?:=\s*(\d+)\s*(?:px)?)?\s*$/.exec(part);
+		if (!match) continue;
+		const id = normalizeColumnId(match[1]);
+		if (!isKnownColumn(id) || columns.some(column => column.id === id)) continue;
+		const width = match[2] ? Math.max(MIN_COLUMN_WIDTH, parseInt(match[2], 10)) : undefined;
+		columns.push(width ? { id, width } : { id });
+	}
+	return columns;
+}
+
+function normalizeColumnId(value: string): string {
+	const field = getColumnField(value.trim());
+	if (field !== null) return FIELD_COLUMN_PREFIX + field.trim();
+	return value.trim().toLowerCase();
+}
+
+/**
+ * Columns as written back into a `columns:` option
+ */
+export function formatColumnsOption(columns: TableColumn[]): string {
+	return columns.map(column => column.width ? `${column.id}=${Math.round(column.width)}` : column.id).join(", ");
+}
+
+/**
+ * Parse a `sort:` option, e.g. `revision desc`; the direction defaults to ascending
+ */
+export function parseSortOption(value: string | undefined): TableSort | undefined {
+	if (!value || value.trim().toLowerCase() === "none") return undefined;
+
+	const match = /^\s*(.+?)(?:\s+(asc|desc))?\s*$/i.exec(value);
+	if (!match) return undefined;
+	const column = normalizeColumnId(match[1]);
+	if (!isKnownColumn(column)) return undefined;
+	return { column, direction: match[2]?.toLowerCase() === "desc" ? "desc" : "asc" };
+}
+
+/**
+ * Sort as written back into a `sort:` option
+ */
+export function formatSortOption(sort: TableSort | undefined): string {
+	return sort ? `${sort.column} ${sort.direction}` : "none";
+}
+
+/**
+ * Keep the known columns of a stored layout, falling back to the defaults when none is left
+ */
+export function normalizeTableLayout(raw: unknown): TableLayout {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<TableLayout>;
+	const columns = (Array.isArray(stored.columns) ? stored.columns : [])
+		.filter((column): column is TableColumn => !!column && typeof column.id === "string" && isKnownColumn(column.id))
+		.map(column => typeof column.width === "number" && column.width > 0
+			? { id: column.id, width: Math.max(MIN_COLUMN_WIDTH, column.width) }
+			: { id: column.id });
+
+	const sort = stored.sort && typeof stored.sort.column === "string" && isKnownColumn(stored.sort.column)
+		? { column: stored.sort.column, direction: stored.sort.direction === "desc" ? "desc" as const : "asc" as const }
+		: undefined;
+
+	return {
+		columns: columns.length > 0 ? columns : getDefaultTableLayout().columns,
+		...(sort ? { sort } : {})
+	};
+}
+
+/**
+ * Normalize the stored layouts of the views
+ */
+export function normalizeTableLayouts(raw: unknown): Record<string, TableLayout> {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+	const layouts: Record<string, TableLayout> = {};
+	for (const key of Object.keys(stored)) {
+		layouts[key] = normalizeTableLayout(stored[key]);
+	}
+	return layouts;
+}
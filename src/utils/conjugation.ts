@@ -0,0 +1,223 @@
+import { VerbFields, VerbGroup } from "../types";
+
+/**
+ * Generated verb fields, or the reason the verb cannot be conjugated by rule
+ */
+export type ConjugationResult =
+	| { ok: true; fields: VerbFields }
+	| { ok: false; reason: string };
+
+/**
+ * Conjugates an infinitive of a regular group. The auxiliary is the value of the
+ * note's auxiliary field ("" when unknown).
+ */
+export type ConjugationRule = (infinitive: string, auxiliary: string) => ConjugationResult;
+
+// ---------------------------------------------------------------------------
+// French
+// ---------------------------------------------------------------------------
+
+const FRENCH_PRONOUNS = ["je", "tu", "il", "nous", "vous", "ils"];
+const FRENCH_AVOIR = ["ai", "as", "a", "avons", "avez", "ont"];
+const FRENCH_ETRE = ["suis", "es", "est", "sommes", "êtes", "sont"];
+const FRENCH_ETRE_AGREEMENT = ["(e)", "(e)", "", "(e)s", "(e)(s)", "s"];
+
+// First-group verbs conjugated with être when the note does not say otherwise
+const FRENCH_ETRE_VERBS = new Set(["arriver", "entrer", "rentrer", "rester", "retourner", "tomber", "décéder"]);
+
+// Verbs starting with an aspirated h: no elision of "je" / "que"
+const FRENCH_H_ASPIRE = new Set(["hacher", "haïr", "hanter", "harceler", "hasarder", "hâter", "hausser", "heurter", "hisser", "hocher", "huer", "hurler"]);
+
+const FRENCH_ENDINGS = {
+	imparfait: ["ais", "ais", "ait", "ions", "iez", "aient"],
+	futur: ["ai", "as", "a", "ons", "ez", "ont"],
+	conditionnel: ["ais", "ais", "ait", "ions", "iez", "aient"],
+	subjonctif: ["e", "es", "e", "ions", "iez", "ent"],
+};
+
+function frenchElides(word: string, infinitive: string): boolean {
+	if (FRENCH_H_ASPIRE.has(infinitive)) return false;
+	return /^[aeiouyhâàéèêëîïôûù]/i.test(word);
+}
+
+/**
+ * Prefix the six forms with their pronouns ("je" → "j'" before a vowel)
+ */
+function withFrenchPronouns(forms: string[], infinitive: string, subjunctive: boolean = false): string {
+	return forms.map((form, person) => {
+		let pronoun = FRENCH_PRONOUNS[person];
+		if (person === 0 && frenchElides(form, infinitive)) {
+			pronoun = "j'";
+		}
+		let line = pronoun.endsWith("'") ? `${pronoun}${form}` : `${pronoun} ${form}`;
+		if (subjunctive) {
+			line = /^[aeiouy]/.test(line) ? `qu'${line}` : `que ${line}`;
+		}
+		return line;
+	}).join("<br>");
+}
+
+function frenchPasseCompose(participle: string, auxiliary: string, infinitive: string): string {
+	const useEtre = auxiliary
+		? /^[eê]tre$/i.test(auxiliary.trim())
+		: FRENCH_ETRE_VERBS.has(infinitive);
+
+	const forms = useEtre
+		? FRENCH_ETRE.map((aux, person) => `${aux} ${participle}${FRENCH_ETRE_AGREEMENT[person]}`)
+		: FRENCH_AVOIR.map(aux => `${aux} ${participle}`);
+
+	return withFrenchPronouns(forms, infinitive);
+}
+
+function frenchFields(
+	infinitive: string,
+	auxiliary: string,
+	forms: {
+		radical: string;
+		imparfaitStem: string;
+		present: string[];
+		subjonctifStem: string;
+		participePresent: string;
+		participePasse: string;
+	}
+): VerbFields {
+	const { radical, imparfaitStem, present, subjonctifStem, participePresent, participePasse } = forms;
+
+	return {
+		"infinitif": infinitive,
+		"radical": radical,
+		"radical-imparfait": imparfaitStem,
+		"radical-futur": infinitive,
+		"participe-présent": participePresent,
+		"participe-passé": participePasse,
+		"présent": withFrenchPronouns(present, infinitive),
+		"imparfait": withFrenchPronouns(FRENCH_ENDINGS.imparfait.map(e => imparfaitStem + e), infinitive),
+		"passé-composé": frenchPasseCompose(participePasse, auxiliary, infinitive),
+		"futur": withFrenchPronouns(FRENCH_ENDINGS.futur.map(e => infinitive + e), infinitive),
+		"présent-subjonctif": withFrenchPronouns(FRENCH_ENDINGS.subjonctif.map(e => subjonctifStem + e), infinitive, true),
+		"conditionnel-présent": withFrenchPronouns(FRENCH_ENDINGS.conditionnel.map(e => infinitive + e), infinitive),
+	};
+}
+
+function isPronominal(infinitive: string): boolean {
+	return /^(se\s|s')/.test(infinitive);
+}
+
+/**
+ * French first group (-er), including the -cer / -ger spelling adjustments
+ */
+function conjugateFrenchFirstGroup(infinitive: string, auxiliary: string): ConjugationResult {
+	if (!infinitive.endsWith("er") || infinitive === "aller") {
+		return { ok: false, reason: "not a first-group infinitive" };
+	}
+	if (isPronominal(infinitive)) {
+		return { ok: false, reason: "pronominal verbs are not generated" };
+	}
+	if (infinitive.endsWith("yer")) {
+		return { ok: false, reason: "-yer verbs change y to i" };
+	}
+	// acheter, appeler, préférer… change their stem vowel or double a consonant
+	if (/[eé](?:ch|gn|[bcdfgptv][lr]|[bcdfghjklmnpqrstvwxz])er$/.test(infinitive)) {
+		return { ok: false, reason: "stem-changing verb (e/é + consonant + er)" };
+	}
+
+	const radical = infinitive.slice(0, -2);
+	// Keep the soft c / g sound before a and o
+	const softStem = radical.endsWith("c")
+		? radical.slice(0, -1) + "ç"
+		: radical.endsWith("g") ? radical + "e" : radical;
+
+	const fields = frenchFields(infinitive, auxiliary, {
+		radical,
+		imparfaitStem: softStem,
+		present: [
+			radical + "e",
+			radical + "es",
+			radical + "e",
+			softStem + "ons",
+			radical + "ez",
+			radical + "ent",
+		],
+		subjonctifStem: radical,
+		participePresent: softStem + "ant",
+		participePasse: radical + "é",
+	});
+
+	// The imparfait keeps the plain stem before -i (nous commencions, vous mangiez)
+	fields["imparfait"] = withFrenchPronouns(
+		FRENCH_ENDINGS.imparfait.map(e => (e.startsWith("i") ? radical : softStem) + e),
+		infinitive
+	);
+
+	return { ok: true, fields };
+}
+
+/**
+ * French second group (-ir with -iss- infix, like finir)
+ */
+function conjugateFrenchSecondGroup(infinitive: string, auxiliary: string): ConjugationResult {
+	if (!infinitive.endsWith("ir")) {
+		return { ok: false, reason: "not a second-group infinitive" };
+	}
+	if (isPronominal(infinitive)) {
+		return { ok: false, reason: "pronominal verbs are not generated" };
+	}
+	if (infinitive === "haïr") {
+		return { ok: false, reason: "haïr keeps its diaeresis only in some forms" };
+	}
+
+	const radical = infinitive.slice(0, -2);
+	const longStem = radical + "iss";
+
+	return {
+		ok: true,
+		fields: frenchFields(infinitive, auxiliary, {
+			radical,
+			imparfaitStem: longStem,
+			present: [
+				radical + "is",
+				radical + "is",
+				radical + "it",
+				longStem + "ons",
+				longStem + "ez",
+				longStem + "ent",
+			],
+			subjonctifStem: longStem,
+			participePresent: longStem + "ant",
+			participePasse: radical + "i",
+		}),
+	};
+}
+
+/**
+ * Rules per target language, keyed by verb group code
+ */
+const CONJUGATION_RULES: Record<string, Record<VerbGroup, ConjugationRule>> = {
+	French: {
+		"1": conjugateFrenchFirstGroup,
+		"2": conjugateFrenchSecondGroup,
+	},
+};
+
+/**
+ * Conjugation rule for a language and verb group, if one exists
+ */
+export function getConjugationRule(language: string, group: VerbGroup): ConjugationRule | null {
+	return CONJUGATION_RULES[language]?.[group] ?? null;
+}
+
+/**
+ * Generate the verb fields of a regular verb
+ */
+export function conjugateVerb(
+	language: string,
+	group: VerbGroup,
+	infinitive: string,
+	auxiliary: string = ""
+): ConjugationResult {
+	const rule = getConjugationRule(language, group);
+	if (!rule) {
+		return { ok: false, reason: group ? `no conjugation rule for group "${group}"` : "no verb group" };
+	}
+	return rule(infinitive.trim().toLowerCase(), auxiliary);
+}
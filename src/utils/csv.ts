@@ -1,4 +1,13 @@
 import { DictionaryEntry, LearnLanguageSettings } from "../types";
+import { getFieldMapping } from "./fieldSchema";
+import { getTenseColumns } from "./tenseProfiles";
+
+// Export ids of conjugation columns are prefixed to keep them apart from entry fields
+const TENSE_FIELD_PREFIX = "tense:";
+
+export function isTenseExportField(fieldId: string): boolean {
+	return fieldId.startsWith(TENSE_FIELD_PREFIX);
+}
 
 export type CsvSeparator = "|" | ";";
 
@@ -11,14 +20,16 @@ export function getDictionaryExportFields(settings: LearnLanguageSettings): Expo
 	const targetId = settings.targetLanguage || "Target";
 	const sourceId = settings.sourceLanguage || "Source";
 
+	// Labels follow the property names configured in the field schema
 	return [
 	{ id: targetId, label: targetId },
 	{ id: sourceId, label: sourceId },
-	{ id: "type", label: "Type" },
-	{ id: "context", label: "Context" },
-	{ id: "revision", label: "Revision" },
-	{ id: "rating", label: "Rating" },
-	{ id: "examples", label: "Examples" },
+	{ id: "type", label: getFieldMapping(settings, "type").key },
+	{ id: "context", label: getFieldMapping(settings, "context").key },
+	{ id: "revision", label: getFieldMapping(settings, "revision").key },
+	{ id: "rating", label: getFieldMapping(settings, "rating").key },
+	{ id: "examples", label: getFieldMapping(settings, "examples").key },
+	...getTenseColumns(settings).map(column => ({ id: TENSE_FIELD_PREFIX + column.field, label: column.label })),
 	];
 }
 
@@ -65,6 +76,10 @@ export function getFieldValue(
 	if (fieldId === (settings.sourceLanguage || "")) {
 		return entry.sourceWord || "";
 	}
+	if (isTenseExportField(fieldId)) {
+		const value = entry.verbFields?.[fieldId.slice(TENSE_FIELD_PREFIX.length)] || "";
+		return value.replace(/<br\s*\/?>/gi, " ; ");
+	}
 
 	switch (fieldId) {
 		case "type":
@@ -88,7 +103,8 @@ export function entriesToCsv(
 	separator: CsvSeparator,
 	settings: LearnLanguageSettings
 ): string {
-	const header = fields.map(f => escapeCsv(f, separator)).join(separator);
+	const labels = new Map(getDictionaryExportFields(settings).map(f => [f.id, f.label]));
+	const header = fields.map(f => escapeCsv(labels.get(f) ?? f, separator)).join(separator);
 	const normalizeExamples = fields.includes("examples");
 
 	const rows = entries.map(entry => {
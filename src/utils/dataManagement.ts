@@ -21,6 +21,12 @@ export async function saveJsonFile<T>(
 	const fullPath = `${DATABASE_URI}${filePath}`;
 	const content = JSON.stringify(data, null, compacted ? 0 : 2);
 
+	// The database folder is not shipped with the plugin; create it on first write
+	const folderPath = fullPath.substring(0, fullPath.lastIndexOf("/"));
+	if (!(await app.vault.adapter.exists(folderPath))) {
+		await app.vault.adapter.mkdir(folderPath);
+	}
+
 	await app.vault.adapter.write(fullPath, content);
 }
 
@@ -64,3 +70,60 @@ export async function getDataFromJsonFile<T>(
 		return null;
 	}
 }
+
+/**
+ * Appends one record as a JSON line to a file within the vault, creating the file if needed.
+ * Existing lines are never rewritten.
+ *
+ * @param app - The Obsidian App instance
+ * @param filePath - The relative file path (within the database URI) of the log file
+ * @param record - The record to append
+ * @returns A promise that resolves when the line is written
+ */
+export async function appendJsonLine<T>(
+	app: App,
+	filePath: string,
+	record: T
+): Promise<void> {
+	const fullPath = `${DATABASE_URI}${filePath}`;
+	const line = `${JSON.stringify(record)}\n`;
+
+	const folderPath = fullPath.substring(0, fullPath.lastIndexOf("/"));
+	if (!(await app.vault.adapter.exists(folderPath))) {
+		await app.vault.adapter.mkdir(folderPath);
+	}
+
+	if (await app.vault.adapter.exists(fullPath)) {
+		await app.vault.adapter.append(fullPath, line);
+	} else {
+		await app.vault.adapter.write(fullPath, line);
+	}
+}
+
+/**
+ * Reads every record of a JSON lines file within the vault.
+ * Returns an empty list if the file does not exist; unreadable lines are skipped.
+ *
+ * @param app - The Obsidian App instance
+ * @param filePath - The relative file path (within the database URI) of the log file
+ * @returns A promise that resolves to the parsed records, in file order
+ */
+export async function readJsonLines<T>(
+	app: App,
+	filePath: string
+): Promise<T[]> {
+	const fullPath = `${DATABASE_URI}${filePath}`;
+	if (!(await app.vault.adapter.exists(fullPath))) return [];
+
+	const content = await app.vault.adapter.read(fullPath);
+	const records: T[] = [];
+	for (const line of content.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			records.push(JSON.parse(line) as T);
+		} catch (error) {
+			console.warn(`Skipping unreadable line in ${fullPath}:`, error);
+		}
+	}
+	return records;
+}
@@ -0,0 +1,63 @@
+import {
+	DEFAULT_DISCOVERY_RULES,
+	DISCOVERY_SCOPES,
+	DiscoveryRules,
+	DiscoveryScope,
+	IGNORE_FRONTMATTER_KEY
+} from "../types";
+
+// Database notes the dictionary folder used to skip by name, kept as globs for existing vaults
+const LEGACY_DICTIONARY_EXCLUDES = ["**/French Dictionary DB*", "**/French Dictionary DB*/**"];
+
+/**
+ * Whether a note opts out of discovery with "ll-ignore: true"
+ */
+export function isIgnoredByFrontmatter(frontmatter: Record<string, unknown> | undefined): boolean {
+	const value = frontmatter?.[IGNORE_FRONTMATTER_KEY];
+	return value === true || (typeof value === "string" && value.trim().toLowerCase() === "true");
+}
+
+/**
+ * Render a glob list as editable text: one glob per line
+ */
+export function formatGlobList(globs: string[]): string {
+	return globs.join("\n");
+}
+
+/**
+ * Parse one glob per line, ignoring blank lines and "#" comments
+ */
+export function parseGlobList(text: string): string[] {
+	return text
+		.split(/\r?\n/)
+		.map(line => line.trim())
+		.filter(line => line !== "" && !line.startsWith("#"));
+}
+
+function toGlobList(value: unknown): string[] {
+	return Array.isArray(value)
+		? value.filter((glob): glob is string => typeof glob === "string" && glob.trim() !== "").map(glob => glob.trim())
+		: [];
+}
+
+/**
+ * Merge stored discovery rules with the defaults.
+ * Vaults upgraded from a version without rules keep the old database-note exclusion.
+ */
+export function normalizeDiscoveryRules(raw: unknown, upgrading: boolean = false): Record<DiscoveryScope, DiscoveryRules> {
+	const stored = raw && typeof raw === "object" ? raw as Partial<Record<DiscoveryScope, Partial<DiscoveryRules>>> : null;
+	const rules = {} as Record<DiscoveryScope, DiscoveryRules>;
+
+	for (const scope of DISCOVERY_SCOPES) {
+		const rule = stored?.[scope];
+		rules[scope] = rule
+			? { include: toGlobList(rule.include), exclude: toGlobList(rule.exclude) }
+			: { include: [...DEFAULT_DISCOVERY_RULES[scope].include], exclude: [...DEFAULT_DISCOVERY_RULES[scope].exclude] };
+	}
+
+	if (!stored && upgrading) {
+		rules.dictionary.exclude.push(...LEGACY_DICTIONARY_EXCLUDES);
+	}
+
+	return rules;
+}
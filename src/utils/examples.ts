@@ -0,0 +1,32 @@
+/**
+ * Escape text for use inside HTML
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/\"/g, "&quot;")
+		.replace(/'/g, "&#039;");
+}
+
+/**
+ * Examples field as HTML: <br> line breaks are kept and *starred* words are emphasized
+ */
+export function examplesHtml(input?: string): string {
+	if (!input) return "";
+
+	// Normalize <br> variants to newlines for easier processing
+	const normalized = input.replace(/<br\s*\/?>/gi, "\n");
+	const escaped = escapeHtml(normalized);
+
+	// Minimal emphasis:
+	// - *text* -> <em>text</em>
+	// - _text_ -> <em>text</em>
+	// Avoid converting underscores inside words like "dès_lors".
+	let emphasized = escaped.replace(/\*([^*\n]+)\*/g, "<em>$1</em>");
+	emphasized = emphasized.replace(/(^|[^\w])_([^_\n]+)_(?=[^\w]|$)/g, "$1<em>$2</em>");
+
+	// Wrap in a span like the legacy DOM and restore <br>
+	return `<span>${emphasized.replace(/\n/g, "<br>")}</span>`;
+}
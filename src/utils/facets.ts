@@ -0,0 +1,50 @@
+import { FacetValue } from "../types";
+import { SearchOptions } from "./searchKeys";
+import { matchesTagField, parseTagFilter } from "./tagFilter";
+
+/**
+ * Selected values of a facet filter; empty when the facet is not filtering
+ */
+export function toFacetList(value: FacetValue | null | undefined): string[] {
+	const list = Array.isArray(value) ? value : value ? [value] : [];
+	return list.map(v => v.trim()).filter(v => v && v !== "all");
+}
+
+/**
+ * Facet filter value of a selection: a single value stays a string
+ */
+export function fromFacetList(values: string[]): FacetValue {
+	if (values.length === 0) return "all";
+	return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Code block form of a facet value: `[a, b]` for several values
+ */
+export function formatFacetOption(value: FacetValue | null | undefined): string {
+	const list = toFacetList(value);
+	if (list.length === 0) return "all";
+	return list.length === 1 ? list[0] : `[${list.join(", ")}]`;
+}
+
+/**
+ * Parse a code block facet option: `[a, b]` is a list, anything else a single value
+ */
+export function parseFacetOption(value: string | undefined, parseItem: (item: string) => string = item => item): FacetValue {
+	if (!value) return "all";
+	const list = /^\[(.*)\]$/.exec(value.trim());
+	if (!list) return parseItem(value);
+	return fromFacetList(toFacetList(list[1].split(",")).map(parseItem));
+}
+
+/**
+ * Whether a tag field satisfies a facet selection: included values are combined with OR,
+ * excluded tags (`-#tag`) must all be absent
+ */
+export function matchesTagFacet(value: string, selection: string[], options: SearchOptions = {}): boolean {
+	const includes = selection.filter(item => parseTagFilter(item)?.mode !== "exclude");
+	const excludes = selection.filter(item => parseTagFilter(item)?.mode === "exclude");
+
+	return (includes.length === 0 || includes.some(item => matchesTagField(value, item, options))) &&
+		excludes.every(item => matchesTagField(value, item, options));
+}
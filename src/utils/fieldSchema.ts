@@ -0,0 +1,123 @@
+import {
+	DEFAULT_FIELD_SCHEMA,
+	FieldLocation,
+	FieldMapping,
+	FieldSchema,
+	LOGICAL_FIELDS,
+	LearnLanguageSettings,
+	LogicalField
+} from "../types";
+
+/**
+ * Human readable names of the logical fields (used in settings and exports)
+ */
+export const LOGICAL_FIELD_LABELS: Record<LogicalField, string> = {
+	source: "Source translation",
+	type: "Type",
+	context: "Context",
+	rating: "Rating",
+	examples: "Examples",
+	synonyms: "Synonyms",
+	relations: "Relations",
+	revision: "Revision",
+	project: "Project",
+	ease: "Ease (scheduler)",
+	difficulty: "Difficulty (scheduler)",
+	interval: "Interval (scheduler)",
+	due: "Due date (scheduler)",
+	lapses: "Lapses (scheduler)",
+};
+
+/**
+ * Get the mapping of a logical field, resolving the source language default
+ */
+export function getFieldMapping(settings: LearnLanguageSettings, field: LogicalField): FieldMapping {
+	const mapping = settings.fieldSchema?.[field] ?? DEFAULT_FIELD_SCHEMA[field];
+	const key = mapping.key.trim() || (field === "source" ? settings.sourceLanguage : DEFAULT_FIELD_SCHEMA[field].key);
+	return { key, location: mapping.location };
+}
+
+/**
+ * Read a logical field from parsed frontmatter and inline fields.
+ * The configured location wins; the other location is used as a fallback so notes
+ * written before a schema change keep working. Keys are matched case-insensitively.
+ */
+export function readFieldValue(
+	settings: LearnLanguageSettings,
+	field: LogicalField,
+	frontmatter: Record<string, unknown>,
+	inlineFields: Record<string, string>
+): unknown {
+	const { key, location } = getFieldMapping(settings, field);
+	const sources: Record<string, unknown>[] = location === "frontmatter"
+		? [frontmatter, inlineFields]
+		: [inlineFields, frontmatter];
+
+	for (const source of sources) {
+		const value = lookupKey(source, key);
+		if (value !== undefined && value !== null && String(value).trim() !== "") {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+function lookupKey(source: Record<string, unknown>, key: string): unknown {
+	const match = findFieldKey(source, key);
+	return match !== undefined ? source[match] : undefined;
+}
+
+/**
+ * Key of `source` matching `key` case-insensitively (an exact match wins), so writes
+ * update the property as written in the note
+ */
+export function findFieldKey(source: Record<string, unknown>, key: string): string | undefined {
+	if (key in source) return key;
+	const lowerKey = key.toLowerCase();
+	return Object.keys(source).find(k => k.toLowerCase() === lowerKey);
+}
+
+/**
+ * Parse Dataview-style inline fields ("Key:: value") from note content
+ */
+export function parseInlineFields(content: string): Record<string, string> {
+	const fields: Record<string, string> = {};
+
+	for (const line of content.split(/\r?\n/)) {
+		const match = line.match(/^([^\s:][^:]*?)\s*::\s*(.*)$/);
+		if (match) {
+			fields[match[1]] = match[2].trim();
+		}
+	}
+
+	return fields;
+}
+
+/**
+ * Escape a field key for use inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Merge a stored schema with the defaults, dropping invalid entries
+ */
+export function normalizeFieldSchema(raw: unknown): FieldSchema {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+	const schema = { ...DEFAULT_FIELD_SCHEMA };
+
+	for (const field of LOGICAL_FIELDS) {
+		const candidate = stored[field] as Partial<FieldMapping> | undefined;
+		if (!candidate || typeof candidate !== "object") continue;
+
+		const key = typeof candidate.key === "string" ? candidate.key.trim() : DEFAULT_FIELD_SCHEMA[field].key;
+		const location: FieldLocation = candidate.location === "frontmatter" || candidate.location === "inline"
+			? candidate.location
+			: DEFAULT_FIELD_SCHEMA[field].location;
+
+		schema[field] = { key, location };
+	}
+
+	return schema;
+}
@@ -1,2 +1,143 @@
 export { createReactRoot, ReactMountPoint } from "./reactMount";
-export { getDataFromJsonFile, saveJsonFile } from "./dataManagement";
\ No newline at end of file
+export { getDataFromJsonFile, saveJsonFile, appendJsonLine, readJsonLines } from "./dataManagement";
+export {
+	LOGICAL_FIELD_LABELS,
+	getFieldMapping,
+	readFieldValue,
+	parseInlineFields,
+	escapeRegExp,
+	findFieldKey,
+	normalizeFieldSchema
+} from "./fieldSchema";
+export {
+	readVerbFields,
+	parseVerbInlineFields,
+	pickVerbFields,
+	toVerbField,
+	splitPersonLines,
+	joinPersonLines
+} from "./verbFields";
+export {
+	splitTags,
+	tagHasPrefix,
+	isVerbType,
+	findVerbGroupRule,
+	matchesVerbGroup,
+	getVerbGroupCodes,
+	normalizeVerbTaxonomy
+} from "./verbTaxonomy";
+export {
+	getTenseColumns,
+	getParadigmProfile,
+	getProfileVerbFields,
+	formatTenseProfile,
+	parseTenseProfile,
+	normalizeTenseProfiles,
+	normalizeParadigmProfiles
+} from "./tenseProfiles";
+export { isInFolder, globToRegExp, matchesAnyGlob } from "./paths";
+export {
+	isIgnoredByFrontmatter,
+	formatGlobList,
+	parseGlobList,
+	normalizeDiscoveryRules
+} from "./discovery";
+export {
+	getProfileNames,
+	getEditableProfile,
+	resolveProfileSettings,
+	createProfile,
+	getUniqueProfileName,
+	renameProfile,
+	deleteProfile,
+	normalizeProfiles
+} from "./profiles";
+export { foldForSearch, removeDiacritics, toSearchKey, matchesSearchKey, matchesSearch, findMatchRanges } from "./searchKeys";
+export type { SearchOptions } from "./searchKeys";
+export {
+	parseTagFilter,
+	formatTagFilter,
+	getTagPaths,
+	getTagDepth,
+	getTagLeaf,
+	compareTagPaths,
+	matchesTagFilter,
+	matchesTagField
+} from "./tagFilter";
+export type { TagFilter, TagMatchMode } from "./tagFilter";
+export {
+	toFacetList,
+	fromFacetList,
+	formatFacetOption,
+	parseFacetOption,
+	matchesTagFacet
+} from "./facets";
+export {
+	FIELD_COLUMN_PREFIX,
+	MIN_COLUMN_WIDTH,
+	isKnownColumn,
+	getColumnField,
+	getColumnLabel,
+	getDefaultTableLayout,
+	getAvailableColumns,
+	revisionNumber,
+	ratingNumber,
+	getColumnText,
+	sortEntriesByColumn,
+	parseColumnsOption,
+	formatColumnsOption,
+	parseSortOption,
+	formatSortOption,
+	normalizeTableLayout,
+	normalizeTableLayouts
+} from "./columns";
+export {
+	toPresetFilters,
+	getPresetFilterState,
+	formatPresetValue,
+	matchesPreset,
+	normalizeFilterPresets
+} from "./presets";
+export { normalizeTableViewState, normalizeReviewSessionOptions } from "./viewState";
+export {
+	REVISION_INTERVALS,
+	DEFAULT_EASE,
+	toDateKey,
+	parseDateKey,
+	addDays,
+	daysBetween,
+	isDueOn,
+	isOverdueOn,
+	revisionToInterval,
+	intervalToRevision,
+	getSchedulingState,
+	scheduleReview,
+	buildReviewQueue,
+	formatInterval,
+	normalizeSchedulerSettings
+} from "./scheduler";
+export { escapeHtml, examplesHtml } from "./examples";
+export {
+	splitExampleLines,
+	getClozeItems,
+	clozeHtml,
+	buildClozeQueue,
+	renameClozeKeys,
+	pruneClozeStates,
+	getReviewCardKey
+} from "./cloze";
+export {
+	computeReviewStatistics,
+	getRetention,
+	getStreaks,
+	getDueForecast
+} from "./statistics";
+export {
+	splitMeanings,
+	getAcceptedAnswers,
+	getArticles,
+	levenshtein,
+	checkAnswer,
+	gradeForAnswer,
+	normalizeTypedAnswerSettings
+} from "./answers";
@@ -0,0 +1,53 @@
+/**
+ * Whether a vault path lies inside a folder (an empty folder matches nothing)
+ */
+export function isInFolder(path: string, folder: string): boolean {
+	const normalized = folder.replace(/\/+$/, "");
+	if (!normalized) return false;
+	return path.startsWith(normalized + "/");
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Compile a vault-relative glob: "*" and "?" stay within a path segment, "**" spans folders
+ */
+export function globToRegExp(glob: string): RegExp {
+	const cached = globCache.get(glob);
+	if (cached) return cached;
+
+	let source = "";
+	const pattern = glob.trim().replace(/^\/+/, "");
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" matches zero or more folders, a trailing "**" anything below
+				if (pattern[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	const regex = new RegExp(`^${source}$`);
+	globCache.set(glob, regex);
+	return regex;
+}
+
+/**
+ * Whether a path matches any of the globs
+ */
+export function matchesAnyGlob(path: string, globs: readonly string[]): boolean {
+	return globs.some(glob => glob.trim() !== "" && globToRegExp(glob).test(path));
+}
@@ -0,0 +1,79 @@
+import { FilterPreset, FilterState, PRESET_FILTER_KEYS, PresetFilterKey, TEXT_FILTER_KEYS, TextFilterKey } from "../types";
+import { formatFacetOption, toFacetList, fromFacetList } from "./facets";
+
+type PresetFilters = FilterPreset["filters"];
+
+const FACET_KEYS: PresetFilterKey[] = ["type", "context", "revision", "rating"];
+
+/**
+ * Filters a preset keeps, without the keys that do not filter ("all", empty lists)
+ */
+export function toPresetFilters(filters: Partial<FilterState>): PresetFilters {
+	const picked: PresetFilters = {};
+
+	for (const key of PRESET_FILTER_KEYS) {
+		const value = filters[key];
+		if (key === "exactAccents") {
+			const keys = (Array.isArray(value) ? value as string[] : [])
+				.filter((k): k is TextFilterKey => (TEXT_FILTER_KEYS as readonly string[]).includes(k));
+			if (keys.length > 0) picked.exactAccents = Array.from(new Set(keys)).sort();
+		} else if (FACET_KEYS.includes(key)) {
+			const list = toFacetList(value as FilterState["type"]);
+			if (list.length > 0) picked[key as "type"] = fromFacetList(list);
+		} else if (typeof value === "string" && value.trim() && value.trim() !== "all") {
+			picked[key as "targetWord" | "sourceWord" | "query"] = value.trim();
+		}
+	}
+
+	return picked;
+}
+
+/**
+ * Filter state of a preset: unset keys show everything
+ */
+export function getPresetFilterState(preset: FilterPreset): Partial<FilterState> {
+	return {
+		targetWord: "all",
+		sourceWord: "all",
+		type: "all",
+		context: "all",
+		revision: "all",
+		rating: "all",
+		exactAccents: [],
+		query: undefined,
+		...preset.filters
+	};
+}
+
+/**
+ * Comparable form of a preset key, so "all", [] and a missing key are equal
+ */
+export function formatPresetValue(filters: Partial<FilterState>, key: PresetFilterKey): string {
+	const value = toPresetFilters(filters)[key];
+	if (value === undefined) return "all";
+	if (key === "exactAccents") return (value as string[]).join(",");
+	return FACET_KEYS.includes(key) ? formatFacetOption(value as FilterState["type"]) : String(value);
+}
+
+/**
+ * Whether the filters are exactly the preset's
+ */
+export function matchesPreset(filters: Partial<FilterState>, preset: FilterPreset): boolean {
+	return PRESET_FILTER_KEYS.every(key => formatPresetValue(filters, key) === formatPresetValue(preset.filters, key));
+}
+
+/**
+ * Keep well-formed presets with unique names
+ */
+export function normalizeFilterPresets(raw: unknown): FilterPreset[] {
+	if (!Array.isArray(raw)) return [];
+
+	const presets: FilterPreset[] = [];
+	for (const item of raw as Array<Partial<FilterPreset> | null>) {
+		const name = typeof item?.name === "string" ? item.name.trim() : "";
+		if (!name || presets.some(p => p.name.toLowerCase() === name.toLowerCase())) continue;
+		const filters = item?.filters && typeof item.filters === "object" ? item.filters : {};
+		presets.push({ name, filters: toPresetFilters(filters as Partial<FilterState>) });
+	}
+	return presets;
+}
@@ -0,0 +1,155 @@
+import {
+	DEFAULT_SETTINGS,
+	LanguageProfile,
+	LearnLanguageSettings,
+	PROFILE_SETTING_KEYS,
+	ProfileSettings
+} from "../types";
+import { normalizeDiscoveryRules } from "./discovery";
+import { normalizeVerbTaxonomy } from "./verbTaxonomy";
+
+/**
+ * Names of every profile, the main one first
+ */
+export function getProfileNames(settings: LearnLanguageSettings): string[] {
+	return [settings.profileName, ...settings.profiles.map(profile => profile.name)];
+}
+
+/**
+ * Object holding a profile's values: the settings themselves for the main profile.
+ * Edits to it are picked up by the next saveSettings().
+ */
+export function getEditableProfile(settings: LearnLanguageSettings, name: string): ProfileSettings | null {
+	if (name === settings.profileName) return settings;
+	return settings.profiles.find(profile => profile.name === name) ?? null;
+}
+
+/**
+ * Profile values of a settings object or profile (shallow: nested objects are shared)
+ */
+export function pickProfileSettings(source: ProfileSettings): ProfileSettings {
+	const picked = {} as Record<string, unknown>;
+	for (const key of PROFILE_SETTING_KEYS) {
+		picked[key] = source[key];
+	}
+	return picked as unknown as ProfileSettings;
+}
+
+/**
+ * Settings as seen by a profile (default: the active one), or null for an unknown name.
+ * The main profile resolves to the settings object itself.
+ */
+export function resolveProfileSettings(settings: LearnLanguageSettings, name?: string): LearnLanguageSettings | null {
+	const profileName = name || settings.activeProfile;
+	if (profileName === settings.profileName) return settings;
+
+	const profile = settings.profiles.find(p => p.name === profileName);
+	if (!profile) return null;
+
+	return { ...settings, ...pickProfileSettings(profile), profileName: profile.name };
+}
+
+/**
+ * A new profile copying another one's values, with its own id, OpenAI files and conversation
+ */
+export function createProfile(name: string, from: ProfileSettings): LanguageProfile {
+	const copy = JSON.parse(JSON.stringify(pickProfileSettings(from))) as ProfileSettings;
+	return {
+		...copy,
+		id: createProfileId(),
+		name,
+		askTermAssistant: { ...DEFAULT_SETTINGS.askTermAssistant },
+	};
+}
+
+/**
+ * Random profile id, safe to use in file names
+ */
+function createProfileId(): string {
+	return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * Id of a profile stored before profiles had one: the name slug its data files were named after
+ */
+function legacyProfileId(name: string): string {
+	return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "profile";
+}
+
+/**
+ * First free name of the form "base", "base 2", "base 3"…
+ */
+export function getUniqueProfileName(settings: LearnLanguageSettings, base: string): string {
+	const names = new Set(getProfileNames(settings));
+	let name = base;
+	for (let i = 2; names.has(name); i++) {
+		name = `${base} ${i}`;
+	}
+	return name;
+}
+
+/**
+ * Rename a profile, keeping it active if it was
+ */
+export function renameProfile(settings: LearnLanguageSettings, from: string, to: string): void {
+	if (from === settings.profileName) {
+		settings.profileName = to;
+	} else {
+		const profile = settings.profiles.find(p => p.name === from);
+		if (!profile) return;
+		profile.name = to;
+	}
+	if (settings.activeProfile === from) {
+		settings.activeProfile = to;
+	}
+}
+
+/**
+ * Remove an additional profile; the main profile cannot be removed
+ */
+export function deleteProfile(settings: LearnLanguageSettings, name: string): void {
+	settings.profiles = settings.profiles.filter(profile => profile.name !== name);
+	if (settings.activeProfile === name) {
+		settings.activeProfile = settings.profileName;
+	}
+}
+
+/**
+ * Validate stored profiles: unnamed and duplicate profiles are dropped, missing values use the defaults.
+ * Profiles without a valid id get the one their data files were named after, made unique.
+ */
+export function normalizeProfiles(raw: unknown, mainProfileName: string): LanguageProfile[] {
+	if (!Array.isArray(raw)) return [];
+
+	const names = new Set([mainProfileName]);
+	const ids = new Set<string>();
+	const profiles: LanguageProfile[] = [];
+	const stringKeys = PROFILE_SETTING_KEYS.filter(key => typeof DEFAULT_SETTINGS[key] === "string");
+
+	for (const item of raw) {
+		if (!item || typeof item !== "object") continue;
+		const stored = item as Partial<LanguageProfile>;
+		const name = typeof stored.name === "string" ? stored.name.trim() : "";
+		if (!name || names.has(name)) continue;
+		names.add(name);
+
+		const profile = createProfile(name, DEFAULT_SETTINGS);
+		let id = typeof stored.id === "string" && /^[a-z0-9-]+$/.test(stored.id) ? stored.id : legacyProfileId(name);
+		for (let i = 2; ids.has(id); i++) {
+			id = `${legacyProfileId(name)}-${i}`;
+		}
+		ids.add(id);
+		profile.id = id;
+		for (const key of stringKeys) {
+			const value = stored[key];
+			if (typeof value === "string") (profile as unknown as Record<string, unknown>)[key] = value;
+		}
+		profile.discoveryRules = normalizeDiscoveryRules(stored.discoveryRules);
+		profile.verbTaxonomy = normalizeVerbTaxonomy(stored.verbTaxonomy);
+		profile.askTermAssistant = { ...DEFAULT_SETTINGS.askTermAssistant, ...stored.askTermAssistant };
+
+		profiles.push(profile);
+	}
+
+	return profiles;
+}
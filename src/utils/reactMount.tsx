@@ -3,7 +3,7 @@ import { Root, createRoot } from "react-dom/client";
 import { App } from "obsidian";
 import { LearnLanguageContext, LearnLanguageContextValue } from "../context";
 import { LearnLanguageSettings } from "../types";
-import { FilterService, DictionaryService, TermService } from "../services";
+import { FilterService, DictionaryService, TermService, PresetService, SchedulerService } from "../services";
 
 /**
  * Creates a React root and mounts a component with the Learn Language context
@@ -14,7 +14,9 @@ export function createReactRoot(
 	settings: LearnLanguageSettings,
 	filterService: FilterService,
 	dictionaryService: DictionaryService,
-	termService?: TermService
+	termService?: TermService,
+	presetService?: PresetService,
+	schedulerService?: SchedulerService
 ): ReactMountPoint {
 	const root = createRoot(container);
 
@@ -23,7 +25,9 @@ export function createReactRoot(
 		settings,
 		filterService,
 		dictionaryService,
-		termService
+		termService,
+		presetService,
+		schedulerService
 	};
 
 	return new ReactMountPoint(root, contextValue);
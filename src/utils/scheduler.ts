@@ -0,0 +1,279 @@
+import {
+	DEFAULT_SCHEDULER_SETTINGS,
+	DictionaryEntry,
+	ReviewCard,
+	ReviewGrade,
+	SCHEDULER_ALGORITHMS,
+	SchedulerAlgorithm,
+	SchedulerSettings,
+	SchedulingState
+} from "../types";
+
+/** Starting interval (days) of each Revision level, used for entries never reviewed by the scheduler */
+export const REVISION_INTERVALS = [1, 3, 7, 14, 30];
+
+/** SM-2 starting ease */
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Dates (local calendar days, stored as YYYY-MM-DD)
+// ============================================
+
+/**
+ * Calendar day of a date, e.g. "2024-03-09"
+ */
+export function toDateKey(date: Date): string {
+	const pad = (n: number) => (n < 10 ? "0" : "") + n;
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Read a YYYY-MM-DD day (a time after it is ignored), or null
+ */
+export function parseDateKey(value: string): string | null {
+	const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!match) return null;
+	const day = `${match[1]}-${match[2]}-${match[3]}`;
+	// Out-of-range days like 02-31 roll over in Date, so they fail the round trip
+	return toDateKey(new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) === day ? day : null;
+}
+
+export function addDays(day: string, days: number): string {
+	const [year, month, date] = day.split("-").map(Number);
+	return toDateKey(new Date(year, month - 1, date + days));
+}
+
+/**
+ * Whole days from one day to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+	const toTime = (day: string) => {
+		const [year, month, date] = day.split("-").map(Number);
+		return Date.UTC(year, month - 1, date);
+	};
+	return Math.round((toTime(to) - toTime(from)) / DAY_MS);
+}
+
+export function isDueOn(due: string | undefined, today: string): boolean {
+	return !!due && due <= today;
+}
+
+export function isOverdueOn(due: string | undefined, today: string): boolean {
+	return !!due && due < today;
+}
+
+// ============================================
+// Revision levels
+// ============================================
+
+/**
+ * Starting interval of a Revision level ("1".."5"); null for "new" and other values
+ */
+export function revisionToInterval(revision: string): number | null {
+	const trimmed = revision.trim();
+	if (!/^\d+$/.test(trimmed)) return null;
+	const level = parseInt(trimmed, 10);
+	if (level < 1) return null;
+	return REVISION_INTERVALS[Math.min(level, REVISION_INTERVALS.length) - 1];
+}
+
+/**
+ * Revision level matching an interval, so the Revision field follows the scheduler
+ */
+export function intervalToRevision(interval: number): string {
+	let level = 1;
+	REVISION_INTERVALS.forEach((days, index) => {
+		if (interval >= days) level = index + 1;
+	});
+	return String(level);
+}
+
+/**
+ * Scheduling state of an entry: its stored fields, or the state its Revision level starts from.
+ * The starting due date counts from the note's creation, so editing the note does not move it.
+ * Null for entries that were never studied.
+ */
+export function getSchedulingState(entry: DictionaryEntry): SchedulingState | null {
+	if (entry.interval !== undefined && entry.due) {
+		return {
+			ease: entry.ease,
+			difficulty: entry.difficulty,
+			interval: entry.interval,
+			due: entry.due,
+			lapses: entry.lapses ?? 0
+		};
+	}
+
+	const interval = revisionToInterval(entry.revision || "");
+	if (interval === null) return null;
+	return {
+		interval,
+		due: entry.due ?? addDays(toDateKey(new Date(entry.created || Date.now())), interval),
+		lapses: 0
+	};
+}
+
+// ============================================
+// Algorithms
+// ============================================
+
+/**
+ * Next state of an entry after a review on `today`
+ */
+export function scheduleReview(
+	state: SchedulingState | null,
+	grade: ReviewGrade,
+	settings: SchedulerSettings,
+	today: string
+): SchedulingState {
+	const next = settings.algorithm === "fsrs"
+		? scheduleFsrs(state, grade, settings, today)
+		: scheduleSm2(state, grade);
+	const interval = Math.max(1, Math.min(Math.round(next.interval), settings.maximumInterval));
+	return { ...next, interval, due: addDays(today, interval) };
+}
+
+/**
+ * SM-2 with Anki-style hard and easy answers; a forgotten card starts over at one day.
+ * The FSRS difficulty is carried over unchanged.
+ */
+function scheduleSm2(state: SchedulingState | null, grade: ReviewGrade): Omit<SchedulingState, "due"> {
+	const ease = state?.ease ?? DEFAULT_EASE;
+	const interval = state?.interval ?? 0;
+	const lapses = state?.lapses ?? 0;
+	const difficulty = state?.difficulty;
+
+	const goodInterval = interval === 0 ? 1 : interval < 6 ? 6 : interval * ease;
+
+	switch (grade) {
+		case "again":
+			return { ease: round2(Math.max(MIN_EASE, ease - 0.2)), difficulty, interval: 1, lapses: state ? lapses + 1 : lapses };
+		case "hard":
+			return { ease: round2(Math.max(MIN_EASE, ease - 0.15)), difficulty, interval: interval === 0 ? 1 : Math.max(interval * 1.2, interval + 1), lapses };
+		case "good":
+			return { ease, difficulty, interval: goodInterval, lapses };
+		case "easy":
+			return { ease: round2(ease + 0.15), difficulty, interval: interval === 0 ? 4 : goodInterval * 1.3, lapses };
+	}
+}
+
+// FSRS-4.5 default parameters
+const FSRS_WEIGHTS = [
+	0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+	0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+
+/**
+ * FSRS-4.5. Stability is not stored: it is recovered from the interval it produced,
+ * and the elapsed time from the due date. The SM-2 ease is carried over unchanged.
+ */
+function scheduleFsrs(
+	state: SchedulingState | null,
+	grade: ReviewGrade,
+	settings: SchedulerSettings,
+	today: string
+): Omit<SchedulingState, "due"> {
+	const w = FSRS_WEIGHTS;
+	const g = ["again", "hard", "good", "easy"].indexOf(grade) + 1;
+	const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+	const initialDifficulty = (rating: number) => clampDifficulty(w[4] - (rating - 3) * w[5]);
+	// Days per unit of stability at the desired retention (1 at 90%)
+	const intervalFactor = (Math.pow(settings.desiredRetention, 1 / FSRS_DECAY) - 1) / FSRS_FACTOR;
+
+	if (!state) {
+		return {
+			difficulty: round2(initialDifficulty(g)),
+			interval: w[g - 1] * intervalFactor,
+			lapses: 0
+		};
+	}
+
+	const difficulty = clampDifficulty(state.difficulty ?? initialDifficulty(3));
+	const stability = Math.max(0.1, state.interval / intervalFactor);
+	const elapsed = Math.max(0, daysBetween(addDays(state.due, -state.interval), today));
+	const retrievability = Math.pow(1 + FSRS_FACTOR * elapsed / stability, FSRS_DECAY);
+
+	const nextDifficulty = clampDifficulty(w[7] * initialDifficulty(3) + (1 - w[7]) * (difficulty - w[6] * (g - 3)));
+
+	let nextStability: number;
+	if (grade === "again") {
+		nextStability = w[11] * Math.pow(difficulty, -w[12]) * (Math.pow(stability + 1, w[13]) - 1) *
+			Math.exp(w[14] * (1 - retrievability));
+	} else {
+		const hardPenalty = grade === "hard" ? w[15] : 1;
+		const easyBonus = grade === "easy" ? w[16] : 1;
+		nextStability = stability * (1 + Math.exp(w[8]) * (11 - difficulty) * Math.pow(stability, -w[9]) *
+			(Math.exp(w[10] * (1 - retrievability)) - 1) * hardPenalty * easyBonus);
+	}
+
+	return {
+		ease: state.ease,
+		difficulty: round2(nextDifficulty),
+		interval: nextStability * intervalFactor,
+		lapses: grade === "again" ? state.lapses + 1 : state.lapses
+	};
+}
+
+function round2(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+// ============================================
+// Review sessions
+// ============================================
+
+/**
+ * Cards of a review session: due entries, most overdue first, then up to `newLimit` new entries
+ */
+export function buildReviewQueue(entries: DictionaryEntry[], newLimit: number, today: string): ReviewCard[] {
+	const due = entries
+		.filter(entry => isDueOn(entry.due, today))
+		.sort((a, b) => (a.due! < b.due! ? -1 : a.due! > b.due! ? 1 : 0));
+	const fresh = entries
+		.filter(entry => getSchedulingState(entry) === null)
+		.slice(0, Math.max(0, newLimit));
+
+	return [
+		...due.map(entry => ({ entry, isNew: false })),
+		...fresh.map(entry => ({ entry, isNew: true }))
+	];
+}
+
+/**
+ * Short form of an interval: "1d", "3w", "4mo", "1.5y"
+ */
+export function formatInterval(days: number): string {
+	if (days < 14) return `${days}d`;
+	if (days < 60) return `${Math.round(days / 7)}w`;
+	if (days < 365) return `${Math.round(days / 30)}mo`;
+	return `${Math.round(days / 36.5) / 10}y`;
+}
+
+/**
+ * Merge stored scheduler settings with the defaults
+ */
+export function normalizeSchedulerSettings(raw: unknown): SchedulerSettings {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<SchedulerSettings>;
+	const algorithm = (SCHEDULER_ALGORITHMS as readonly string[]).includes(stored.algorithm as string)
+		? stored.algorithm as SchedulerAlgorithm
+		: DEFAULT_SCHEDULER_SETTINGS.algorithm;
+	const retention = Number(stored.desiredRetention);
+	const maximumInterval = Number(stored.maximumInterval);
+	const newCards = Number(stored.newCardsPerSession);
+
+	return {
+		algorithm,
+		desiredRetention: retention >= 0.7 && retention <= 0.99 ? retention : DEFAULT_SCHEDULER_SETTINGS.desiredRetention,
+		maximumInterval: Number.isInteger(maximumInterval) && maximumInterval >= 1
+			? maximumInterval
+			: DEFAULT_SCHEDULER_SETTINGS.maximumInterval,
+		newCardsPerSession: Number.isInteger(newCards) && newCards >= 0
+			? newCards
+			: DEFAULT_SCHEDULER_SETTINGS.newCardsPerSession,
+	};
+}
@@ -0,0 +1,111 @@
+/**
+ * How a search compares text: the locale drives case folding, `exact` keeps accents
+ */
+export interface SearchOptions {
+	locale?: string;
+	exact?: boolean;
+}
+
+/** Letters NFD leaves whole, folded to their plain spelling */
+const LETTER_FOLDS: Record<string, string> = {
+	"ß": "ss",
+	"æ": "ae",
+	"œ": "oe",
+	"ø": "o",
+	"đ": "d",
+	"ð": "d",
+	"ł": "l",
+	"þ": "th",
+	"ı": "i",
+	"ς": "σ",
+};
+
+const LETTER_FOLD_PATTERN = new RegExp(`[${Object.keys(LETTER_FOLDS).join("")}]`, "g");
+// Built at runtime: the compile target predates Unicode property escapes
+const COMBINING_MARKS = new RegExp("\\p{M}", "gu");
+const COMBINING_MARK = new RegExp("^\\p{M}$", "u");
+
+/**
+ * Text folded for comparison: lowercase in the given locale and, unless exact,
+ * without diacritics (é → e, ñ → n, ß → ss)
+ */
+export function foldForSearch(value: string, options: SearchOptions = {}): string {
+	// Case folding follows the locale (Turkish I → ı, then folded to i)
+	const folded = value.toLocaleLowerCase(options.locale);
+	if (options.exact) return folded;
+
+	return removeDiacritics(folded);
+}
+
+/**
+ * Text without diacritics (é → e, ñ → n, ß → ss); case is kept
+ */
+export function removeDiacritics(value: string): string {
+	return value
+		.normalize("NFD")
+		.replace(COMBINING_MARKS, "")
+		.replace(LETTER_FOLD_PATTERN, letter => LETTER_FOLDS[letter]);
+}
+
+/**
+ * Normalized form of a word for searching and sorting. Display and export keep the original.
+ */
+export function toSearchKey(value: string, locale?: string): string {
+	return foldForSearch(value.trim(), { locale });
+}
+
+/**
+ * Whether a search key contains the normalized query
+ */
+export function matchesSearchKey(key: string, query: string, locale?: string): boolean {
+	return key.includes(toSearchKey(query, locale));
+}
+
+/**
+ * Whether a text contains the query under the given search options
+ */
+export function matchesSearch(text: string, query: string, options: SearchOptions = {}): boolean {
+	return foldForSearch(text, options).includes(foldForSearch(query.trim(), options));
+}
+
+/**
+ * Ranges [start, end) of the original text matched by the query, for highlighting
+ */
+export function findMatchRanges(text: string, query: string, options: SearchOptions = {}): Array<[number, number]> {
+	const needle = foldForSearch(query.trim(), options);
+	if (!needle || !text) return [];
+
+	// Fold character by character, remembering which original character each folded unit came from
+	let folded = "";
+	const starts: number[] = [];
+	const ends: number[] = [];
+	for (let i = 0; i < text.length;) {
+		const char = String.fromCodePoint(text.codePointAt(i)!);
+		const piece = foldForSearch(char, options);
+		for (let k = 0; k < piece.length; k++) {
+			starts.push(i);
+			ends.push(i + char.length);
+		}
+		folded += piece;
+		i += char.length;
+	}
+
+	const ranges: Array<[number, number]> = [];
+	let index = folded.indexOf(needle);
+	while (index !== -1) {
+		const start = starts[index];
+		let end = ends[index + needle.length - 1];
+		// Keep combining marks that follow the last matched letter
+		while (end < text.length && COMBINING_MARK.test(text[end])) end++;
+
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last[1]) {
+			last[1] = Math.max(last[1], end);
+		} else {
+			ranges.push([start, end]);
+		}
+		index = folded.indexOf(needle, index + needle.length);
+	}
+
+	return ranges;
+}
@@ -0,0 +1,141 @@
+import { DictionaryEntry, ReviewBreakdownRow, ReviewLogEntry, ReviewStatistics } from "../types";
+import { addDays, daysBetween, getSchedulingState, toDateKey } from "./scheduler";
+import { splitTags } from "./verbTaxonomy";
+
+// Label of entries without a value in a breakdown
+const NO_VALUE = "(none)";
+
+/**
+ * Statistics of the review log for the `periodDays` days up to `today`,
+ * with the due forecast of the current entries for the next `forecastDays` days
+ */
+export function computeReviewStatistics(
+	log: ReviewLogEntry[],
+	entries: DictionaryEntry[],
+	today: string,
+	periodDays: number,
+	forecastDays: number = 30
+): ReviewStatistics {
+	const activity: Record<string, number> = {};
+	log.forEach(review => {
+		const day = toDateKey(new Date(review.timestamp));
+		activity[day] = (activity[day] ?? 0) + 1;
+	});
+
+	const firstDay = addDays(today, -(periodDays - 1));
+	const inPeriod = log.filter(review => {
+		const day = toDateKey(new Date(review.timestamp));
+		return day >= firstDay && day <= today;
+	});
+
+	const reviewsPerDay: { date: string; count: number }[] = [];
+	for (let i = 0; i < periodDays; i++) {
+		const date = addDays(firstDay, i);
+		reviewsPerDay.push({ date, count: activity[date] ?? 0 });
+	}
+
+	const { current, longest } = getStreaks(activity, today);
+	const byPath = new Map(entries.map(entry => [entry.file.path, entry] as [string, DictionaryEntry]));
+
+	return {
+		reviewsPerDay,
+		reviews: inPeriod.length,
+		retention: getRetention(inPeriod),
+		durationMs: inPeriod.reduce((total, review) => total + (review.durationMs || 0), 0),
+		currentStreak: current,
+		longestStreak: longest,
+		activity,
+		forecast: getDueForecast(entries, today, forecastDays),
+		byType: getBreakdown(inPeriod, byPath, entry => entry.type),
+		byContext: getBreakdown(inPeriod, byPath, entry => entry.context),
+		byRating: getBreakdown(inPeriod, byPath, entry => entry.rating)
+	};
+}
+
+/**
+ * Share of reviews not answered "again", or null without reviews
+ */
+export function getRetention(reviews: ReviewLogEntry[]): number | null {
+	if (reviews.length === 0) return null;
+	const remembered = reviews.filter(review => review.grade !== "again").length;
+	return remembered / reviews.length;
+}
+
+/**
+ * Current and longest run of consecutive days with reviews. A streak still counts
+ * today when the last review was yesterday.
+ */
+export function getStreaks(activity: Record<string, number>, today: string): { current: number; longest: number } {
+	const days = Object.keys(activity).filter(day => activity[day] > 0).sort();
+	let longest = 0;
+	let run = 0;
+	let previous: string | null = null;
+
+	for (const day of days) {
+		run = previous !== null && daysBetween(previous, day) === 1 ? run + 1 : 1;
+		longest = Math.max(longest, run);
+		previous = day;
+	}
+
+	let current = 0;
+	let day = activity[today] ? today : addDays(today, -1);
+	while (activity[day]) {
+		current++;
+		day = addDays(day, -1);
+	}
+
+	return { current, longest };
+}
+
+/**
+ * Cards coming due on each of the next `days` days; overdue cards count on today
+ */
+export function getDueForecast(entries: DictionaryEntry[], today: string, days: number): { date: string; count: number }[] {
+	const counts: Record<string, number> = {};
+	const lastDay = addDays(today, days - 1);
+
+	entries.forEach(entry => {
+		const state = getSchedulingState(entry);
+		if (!state) return;
+		const day = state.due < today ? today : state.due;
+		if (day > lastDay) return;
+		counts[day] = (counts[day] ?? 0) + 1;
+	});
+
+	const forecast: { date: string; count: number }[] = [];
+	for (let i = 0; i < days; i++) {
+		const date = addDays(today, i);
+		forecast.push({ date, count: counts[date] ?? 0 });
+	}
+	return forecast;
+}
+
+/**
+ * Reviews and retention per value of an entry field (comma-separated values count for each).
+ * Reviews of notes no longer in the dictionary are left out.
+ */
+function getBreakdown(
+	reviews: ReviewLogEntry[],
+	byPath: Map<string, DictionaryEntry>,
+	read: (entry: DictionaryEntry) => string | undefined
+): ReviewBreakdownRow[] {
+	const groups = new Map<string, ReviewLogEntry[]>();
+
+	reviews.forEach(review => {
+		const entry = byPath.get(review.path);
+		if (!entry) return;
+		const values = splitTags(read(entry) || "");
+		(values.length > 0 ? values : [NO_VALUE]).forEach(value => {
+			const group = groups.get(value);
+			if (group) {
+				group.push(review);
+			} else {
+				groups.set(value, [review]);
+			}
+		});
+	});
+
+	return Array.from(groups.entries())
+		.map(([value, group]) => ({ value, reviews: group.length, retention: getRetention(group) ?? 0 }))
+		.sort((a, b) => b.reviews - a.reviews || a.value.localeCompare(b.value));
+}
@@ -0,0 +1,112 @@
+import { SearchOptions, foldForSearch, matchesSearch } from "./searchKeys";
+import { splitTags } from "./verbTaxonomy";
+
+/**
+ * How a tag filter selects entries:
+ * - subtree: the tag or any of its descendants (`#verbe`)
+ * - exact: the tag itself only (`=#verbe`)
+ * - exclude: neither the tag nor its descendants (`-#verbe`)
+ */
+export type TagMatchMode = "subtree" | "exact" | "exclude";
+
+export interface TagFilter {
+	mode: TagMatchMode;
+	tag: string;
+}
+
+const MODE_PREFIXES: Record<TagMatchMode, string> = {
+	subtree: "",
+	exact: "=",
+	exclude: "-",
+};
+
+/**
+ * Parse a tag filter value; null when the value is not a tag (plain text is matched as a substring)
+ */
+export function parseTagFilter(value: string): TagFilter | null {
+	const trimmed = value.trim();
+	const match = /^(=|-|!)?\s*(#\S+)$/.exec(trimmed);
+	if (!match) return null;
+
+	const mode: TagMatchMode = match[1] === "=" ? "exact" : match[1] ? "exclude" : "subtree";
+	return { mode, tag: match[2].replace(/\/+$/, "") };
+}
+
+/**
+ * Filter value of a tag filter, as written in code blocks
+ */
+export function formatTagFilter(filter: TagFilter): string {
+	return MODE_PREFIXES[filter.mode] + filter.tag;
+}
+
+/**
+ * A tag followed by its ancestors' paths, root first
+ * e.g. "#parent/child/grandchild" -> ["#parent", "#parent/child", "#parent/child/grandchild"]
+ */
+export function getTagPaths(tag: string): string[] {
+	const parts = tag.split("/").filter(Boolean);
+	return parts.map((_, index) => parts.slice(0, index + 1).join("/"));
+}
+
+/**
+ * Depth of a tag in its tree (root tags are 0)
+ */
+export function getTagDepth(tag: string): number {
+	return getTagPaths(tag).length - 1;
+}
+
+/**
+ * Last segment of a tag, as shown in a tag tree
+ */
+export function getTagLeaf(tag: string): string {
+	const paths = tag.split("/").filter(Boolean);
+	return paths[paths.length - 1] ?? tag;
+}
+
+/**
+ * Order tags so that every tag directly precedes its descendants
+ */
+export function compareTagPaths(a: string, b: string, locale?: string): number {
+	const left = a.split("/");
+	const right = b.split("/");
+	for (let i = 0; i < Math.min(left.length, right.length); i++) {
+		const order = left[i].localeCompare(right[i], locale);
+		if (order !== 0) return order;
+	}
+	return left.length - right.length;
+}
+
+/**
+ * Whether a tag is the given tag or one of its descendants
+ */
+function isInSubtree(tag: string, root: string): boolean {
+	return tag === root || tag.startsWith(root + "/");
+}
+
+/**
+ * Whether a comma-separated tag value satisfies a tag filter
+ */
+export function matchesTagFilter(value: string, filter: TagFilter, options: SearchOptions = {}): boolean {
+	const wanted = foldForSearch(filter.tag, options);
+	const tags = splitTags(value).map(tag => foldForSearch(tag, options));
+
+	switch (filter.mode) {
+		case "exact":
+			return tags.includes(wanted);
+		case "subtree":
+			return tags.some(tag => isInSubtree(tag, wanted));
+		case "exclude":
+			return !tags.some(tag => isInSubtree(tag, wanted));
+	}
+}
+
+/**
+ * Match a filter value against a tag field: tag filters use tag-tree semantics,
+ * anything else is a substring search
+ */
+export function matchesTagField(value: string, filterValue: string, options: SearchOptions = {}): boolean {
+	const filter = parseTagFilter(filterValue);
+	return filter
+		? matchesTagFilter(value, filter, options)
+		: matchesSearch(value, filterValue, options);
+}
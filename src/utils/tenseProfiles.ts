@@ -0,0 +1,108 @@
+import {
+	DEFAULT_PARADIGM_PROFILES,
+	DEFAULT_TENSE_PROFILES,
+	LearnLanguageSettings,
+	TenseColumn,
+	VerbField,
+	VerbParadigmProfile
+} from "../types";
+import { normalizeVerbKey } from "./verbFields";
+
+/**
+ * Tense columns for the current target language.
+ * Languages without a profile use the French columns; an empty profile has none.
+ */
+export function getTenseColumns(settings: LearnLanguageSettings): TenseColumn[] {
+	return settings.tenseProfiles[settings.targetLanguage] ?? DEFAULT_TENSE_PROFILES.French;
+}
+
+/**
+ * Paradigm profile for the current target language (French when none is defined)
+ */
+export function getParadigmProfile(settings: LearnLanguageSettings): VerbParadigmProfile {
+	return settings.paradigmProfiles[settings.targetLanguage] ?? DEFAULT_PARADIGM_PROFILES.French;
+}
+
+/**
+ * Verb fields declared by the current tense and paradigm profiles
+ */
+export function getProfileVerbFields(settings: LearnLanguageSettings): VerbField[] {
+	const paradigm = getParadigmProfile(settings);
+	const fields = [
+		...getTenseColumns(settings).map(column => column.field),
+		...paradigm.participles.map(column => column.field),
+	];
+	if (paradigm.auxiliaryField) fields.push(paradigm.auxiliaryField);
+	return fields;
+}
+
+/**
+ * Render a tense profile as editable text: one "field | label" per line
+ */
+export function formatTenseProfile(columns: TenseColumn[]): string {
+	return columns.map(column => `${column.field} | ${column.label}`).join("\n");
+}
+
+/**
+ * Parse the text produced by formatTenseProfile. The label defaults to the field name.
+ */
+export function parseTenseProfile(text: string): TenseColumn[] {
+	const columns: TenseColumn[] = [];
+
+	for (const line of text.split(/\r?\n/)) {
+		const [rawField, ...rest] = line.split("|");
+		const field = normalizeVerbKey(rawField || "");
+		if (!field) continue;
+		const label = rest.join("|").trim() || rawField.trim();
+		columns.push({ field, label });
+	}
+
+	return columns;
+}
+
+function normalizeColumns(columns: unknown[]): TenseColumn[] {
+	return columns
+		.filter((column): column is TenseColumn =>
+			!!column && typeof (column as TenseColumn).field === "string" && normalizeVerbKey((column as TenseColumn).field) !== "")
+		.map(column => ({
+			field: normalizeVerbKey(column.field),
+			label: typeof column.label === "string" && column.label.trim() ? column.label.trim() : column.field,
+		}));
+}
+
+/**
+ * Validate stored tense profiles; the defaults are used when none are stored yet
+ */
+export function normalizeTenseProfiles(raw: unknown): Record<string, TenseColumn[]> {
+	const source = raw && typeof raw === "object" ? raw as Record<string, unknown> : DEFAULT_TENSE_PROFILES;
+	const profiles: Record<string, TenseColumn[]> = {};
+
+	for (const [language, columns] of Object.entries(source)) {
+		if (!Array.isArray(columns)) continue;
+		profiles[language] = normalizeColumns(columns);
+	}
+
+	return profiles;
+}
+
+/**
+ * Validate stored paradigm profiles; the defaults are used when none are stored yet
+ */
+export function normalizeParadigmProfiles(raw: unknown): Record<string, VerbParadigmProfile> {
+	const source = raw && typeof raw === "object" ? raw as Record<string, unknown> : DEFAULT_PARADIGM_PROFILES;
+	const profiles: Record<string, VerbParadigmProfile> = {};
+
+	for (const [language, value] of Object.entries(source)) {
+		if (!value || typeof value !== "object") continue;
+		const profile = value as Partial<VerbParadigmProfile>;
+		profiles[language] = {
+			persons: Array.isArray(profile.persons)
+				? profile.persons.filter((p): p is string => typeof p === "string" && p.trim() !== "").map(p => p.trim())
+				: [],
+			participles: Array.isArray(profile.participles) ? normalizeColumns(profile.participles) : [],
+			auxiliaryField: typeof profile.auxiliaryField === "string" ? normalizeVerbKey(profile.auxiliaryField) : "",
+		};
+	}
+
+	return profiles;
+}
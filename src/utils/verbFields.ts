@@ -0,0 +1,144 @@
+import { VERB_FIELDS, VerbField, VerbFields } from "../types";
+
+/**
+ * Normalize a note key so "Passé composé", "passé_composé" and "passé-composé" all match
+ */
+export function normalizeVerbKey(key: string): string {
+	return key.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+const VERB_FIELD_BY_KEY = new Map<string, VerbField>(
+	VERB_FIELDS.map(field => [normalizeVerbKey(field), field])
+);
+
+/**
+ * Resolve a note key to a verb field, if it is a built-in one or one of extraFields
+ */
+export function toVerbField(key: string, extraFields: readonly VerbField[] = []): VerbField | null {
+	const normalized = normalizeVerbKey(key);
+	const builtIn = VERB_FIELD_BY_KEY.get(normalized);
+	if (builtIn) return builtIn;
+	return extraFields.some(field => normalizeVerbKey(field) === normalized) ? normalized : null;
+}
+
+/**
+ * Join value lines with <br>, except around HTML block markup which carries its own layout
+ */
+function joinValueLines(lines: string[]): string {
+	return lines.reduce((acc, line) => {
+		if (!acc) return line;
+		const htmlBoundary = acc.endsWith(">") || line.startsWith("<");
+		return acc + (htmlBoundary ? "" : "<br>") + line;
+	}, "");
+}
+
+/**
+ * Normalize a frontmatter value (string, YAML block scalar or list) to a single HTML string
+ */
+function frontmatterToValue(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (Array.isArray(value)) {
+		return joinValueLines(value.map(v => String(v).trim()).filter(Boolean));
+	}
+	return joinValueLines(String(value).split(/\r?\n/).map(l => l.trim()).filter(Boolean));
+}
+
+const INLINE_FIELD_RE = /^([^\s:][^:]*?)\s*::\s*(.*)$/;
+
+/**
+ * Parse verb inline fields from note content.
+ * A field may continue on indented lines or lines starting with HTML markup
+ * (e.g. <br>); continuation lines are joined with <br>.
+ */
+export function parseVerbInlineFields(content: string, extraFields: readonly VerbField[] = []): VerbFields {
+	const fields: VerbFields = {};
+	const lines = content.split(/\r?\n/);
+
+	for (let i = 0; i < lines.length; i++) {
+		const match = lines[i].match(INLINE_FIELD_RE);
+		if (!match) continue;
+
+		const field = toVerbField(match[1], extraFields);
+		if (!field) continue;
+
+		const valueLines = match[2].trim() ? [match[2].trim()] : [];
+		while (i + 1 < lines.length && isContinuationLine(lines[i + 1])) {
+			valueLines.push(lines[i + 1].trim());
+			i++;
+		}
+
+		fields[field] = joinValueLines(valueLines);
+	}
+
+	return fields;
+}
+
+/**
+ * Whether a line continues the previous inline field value: only indented lines and lines
+ * starting with HTML markup do, so a plain paragraph after the field stays note text
+ */
+export function isContinuationLine(line: string): boolean {
+	const trimmed = line.trim();
+	if (!trimmed) return false;
+	if (INLINE_FIELD_RE.test(line)) return false;
+	return /^\s/.test(line) || /^<\/?[a-z][^>]*>/i.test(trimmed);
+}
+
+/**
+ * Read all verb fields of a note; inline fields win over frontmatter
+ */
+export function readVerbFields(
+	frontmatter: Record<string, unknown>,
+	content: string,
+	extraFields: readonly VerbField[] = []
+): VerbFields {
+	const fields: VerbFields = {};
+
+	for (const [key, value] of Object.entries(frontmatter)) {
+		const field = toVerbField(key, extraFields);
+		if (!field) continue;
+		const normalized = frontmatterToValue(value);
+		if (normalized) fields[field] = normalized;
+	}
+
+	const inline = parseVerbInlineFields(content, extraFields);
+	for (const field of Object.keys(inline)) {
+		if (inline[field]) fields[field] = inline[field];
+	}
+
+	return fields;
+}
+
+/**
+ * Collect verb field updates from flat VerbEntry-style keys and a nested verbFields object
+ */
+export function pickVerbFields(source: Record<string, unknown>, extraFields: readonly VerbField[] = []): VerbFields {
+	const fields: VerbFields = {};
+	const nested = (source.verbFields ?? {}) as Record<string, unknown>;
+
+	for (const field of new Set<VerbField>([...VERB_FIELDS, ...extraFields])) {
+		const value = source[field] ?? nested[field];
+		if (value !== undefined && value !== null) {
+			fields[field] = String(value);
+		}
+	}
+
+	return fields;
+}
+
+/**
+ * Split a conjugation value into one line per person
+ */
+export function splitPersonLines(value?: string): string[] {
+	if (!value) return [];
+	return value.split(/<br\s*\/?>/i).map(line => line.trim());
+}
+
+/**
+ * Join person lines back into a conjugation value, dropping trailing empty lines
+ */
+export function joinPersonLines(lines: string[]): string {
+	const trimmed = lines.map(line => line.trim());
+	while (trimmed.length > 0 && !trimmed[trimmed.length - 1]) trimmed.pop();
+	return trimmed.join("<br>");
+}
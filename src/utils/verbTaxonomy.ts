@@ -0,0 +1,92 @@
+import { DEFAULT_VERB_TAXONOMY, VerbGroupRule, VerbTaxonomy } from "../types";
+
+/**
+ * Split a comma-separated type value into tags
+ */
+export function splitTags(value: string): string[] {
+	return (value || "")
+		.split(",")
+		.map(t => t.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Whether a tag equals the prefix or is one of its descendants
+ */
+export function tagHasPrefix(tag: string, prefix: string): boolean {
+	const t = tag.toLowerCase();
+	const p = prefix.toLowerCase();
+	return t === p || t.startsWith(p + "/");
+}
+
+/**
+ * Whether a type value contains the taxonomy's root verb tag
+ */
+export function isVerbType(type: string, taxonomy: VerbTaxonomy): boolean {
+	if (!taxonomy.rootTag) return false;
+	return splitTags(type).some(tag => tagHasPrefix(tag, taxonomy.rootTag));
+}
+
+/**
+ * Find the most specific group rule matching any tag of a type value
+ */
+export function findVerbGroupRule(type: string, taxonomy: VerbTaxonomy): VerbGroupRule | null {
+	let best: VerbGroupRule | null = null;
+
+	for (const tag of splitTags(type)) {
+		for (const rule of taxonomy.groups) {
+			if (!rule.prefix || !tagHasPrefix(tag, rule.prefix)) continue;
+			if (!best || rule.prefix.length > best.prefix.length) {
+				best = rule;
+			}
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Whether a type value belongs to a group code, including more specific groups
+ * nested under it (e.g. "3" also matches "#verbe/irrégulier/3/ir")
+ */
+export function matchesVerbGroup(type: string, groupCode: string, taxonomy: VerbTaxonomy): boolean {
+	const prefixes = taxonomy.groups
+		.filter(rule => rule.code === groupCode && rule.prefix)
+		.map(rule => rule.prefix);
+	if (prefixes.length === 0) return false;
+
+	return splitTags(type).some(tag => prefixes.some(prefix => tagHasPrefix(tag, prefix)));
+}
+
+/**
+ * Group codes in the order they are configured (without duplicates)
+ */
+export function getVerbGroupCodes(taxonomy: VerbTaxonomy): string[] {
+	return Array.from(new Set(taxonomy.groups.map(rule => rule.code).filter(Boolean)));
+}
+
+/**
+ * Merge a stored taxonomy with the defaults, dropping invalid rules
+ */
+export function normalizeVerbTaxonomy(raw: unknown): VerbTaxonomy {
+	if (!raw || typeof raw !== "object") {
+		return {
+			rootTag: DEFAULT_VERB_TAXONOMY.rootTag,
+			groups: DEFAULT_VERB_TAXONOMY.groups.map(rule => ({ ...rule })),
+		};
+	}
+
+	const stored = raw as Partial<VerbTaxonomy>;
+	const rootTag = typeof stored.rootTag === "string" ? stored.rootTag.trim() : DEFAULT_VERB_TAXONOMY.rootTag;
+	const groups = Array.isArray(stored.groups)
+		? stored.groups
+			.filter(rule => rule && typeof rule === "object")
+			.map(rule => ({
+				prefix: typeof rule.prefix === "string" ? rule.prefix.trim() : "",
+				code: typeof rule.code === "string" ? rule.code.trim() : "",
+				irregular: rule.irregular === true,
+			}))
+		: DEFAULT_VERB_TAXONOMY.groups.map(rule => ({ ...rule }));
+
+	return { rootTag, groups };
+}
@@ -0,0 +1,49 @@
+import { ReviewSessionOptions, TableViewState } from "../types";
+import { isKnownColumn } from "./columns";
+
+/**
+ * Read a pane state saved in the workspace, dropping anything malformed
+ */
+export function normalizeTableViewState<F extends object>(raw: unknown): TableViewState<F> {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+	const state: TableViewState<F> = {};
+
+	if (stored.filters && typeof stored.filters === "object" && !Array.isArray(stored.filters)) {
+		state.filters = stored.filters as F;
+	}
+	if (isCount(stored.pageStart)) state.pageStart = stored.pageStart;
+	if (isCount(stored.pageSize) && stored.pageSize > 0) state.pageSize = stored.pageSize;
+
+	const sort = stored.sort as TableViewState["sort"];
+	if (sort === null) {
+		state.sort = null;
+	} else if (sort && typeof sort.column === "string" && isKnownColumn(sort.column)) {
+		state.sort = { column: sort.column, direction: sort.direction === "desc" ? "desc" : "asc" };
+	}
+	if (typeof stored.preset === "string" && stored.preset.trim()) state.preset = stored.preset;
+
+	return state;
+}
+
+/**
+ * Read the options of a review pane saved in the workspace
+ */
+export function normalizeReviewSessionOptions(raw: unknown): ReviewSessionOptions {
+	const stored = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+	const options: ReviewSessionOptions = {};
+
+	if (stored.filters && typeof stored.filters === "object" && !Array.isArray(stored.filters)) {
+		options.filters = stored.filters as ReviewSessionOptions["filters"];
+	}
+	if (typeof stored.preset === "string" && stored.preset.trim()) options.preset = stored.preset;
+	if (stored.direction === "target" || stored.direction === "source") options.direction = stored.direction;
+	if (stored.mode === "words" || stored.mode === "cloze") options.mode = stored.mode;
+	if (stored.answer === "reveal" || stored.answer === "type") options.answer = stored.answer;
+	if (typeof stored.profile === "string" && stored.profile.trim()) options.profile = stored.profile;
+
+	return options;
+}
+
+function isCount(value: unknown): value is number {
+	return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
@@ -1,18 +1,23 @@
 import React from "react";
-import { ItemView, WorkspaceLeaf } from "obsidian";
-import { VIEW_TYPE_DICTIONARY, DictionaryEntry, FilterState } from "../types";
+import { ItemView, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import { VIEW_TYPE_DICTIONARY, DictionaryEntry, FilterState, TableLayout, TableViewState } from "../types";
 import type LearnLanguagePlugin from "../main";
 import { DictionaryComponent } from "../components/dictionary";
-import { createReactRoot, ReactMountPoint } from "../utils";
+import { createReactRoot, ReactMountPoint, getDefaultTableLayout, normalizeTableViewState } from "../utils";
 
 /**
  * DictionaryView - Custom view for displaying and filtering dictionary entries
- * Uses React DictionaryComponent for the UI
+ * Uses React DictionaryComponent for the UI; each pane keeps its own filters,
+ * page and sort in the workspace layout
  */
 export class DictionaryView extends ItemView {
 	plugin: LearnLanguagePlugin;
 	private reactRoot: ReactMountPoint | null = null;
+	private unsubscribeIndex: (() => void) | null = null;
 	private entries: DictionaryEntry[] = [];
+	private viewState: TableViewState = {};
+	// Bumped to remount the component with a new initial state
+	private stateKey = 0;
 
 	constructor(leaf: WorkspaceLeaf, plugin: LearnLanguagePlugin) {
 		super(leaf);
@@ -31,7 +36,34 @@ export class DictionaryView extends ItemView {
 		return "book-open";
 	}
 
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), ...this.viewState };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		this.viewState = normalizeTableViewState<Partial<FilterState>>(state);
+		this.stateKey++;
+		this.renderComponent();
+		await super.setState(state, result);
+	}
+
 	async onOpen(): Promise<void> {
+		await this.mount();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribeIndex?.();
+		this.unsubscribeIndex = null;
+		if (this.reactRoot) {
+			this.reactRoot.unmount();
+			this.reactRoot = null;
+		}
+	}
+
+	/**
+	 * Mount the React UI against the active profile's services
+	 */
+	private async mount(): Promise<void> {
 		const container = this.containerEl.children[1] as HTMLElement;
 		container.empty();
 		container.addClass("learn-language-view", "dictionary-view");
@@ -43,21 +75,29 @@ export class DictionaryView extends ItemView {
 		this.reactRoot = createReactRoot(
 			container,
 			this.app,
-			this.plugin.settings,
+			this.plugin.profileSettings,
 			this.plugin.filterService,
 			this.plugin.dictionaryService,
-			this.plugin.termService
+			this.plugin.termService,
+			this.plugin.presetService,
+			this.plugin.schedulerService
 		);
 
 		// Render React component
 		this.renderComponent();
+
+		// Re-render when individual entries change; unchanged rows keep their identity
+		this.unsubscribeIndex = this.plugin.dictionaryService.onIndexChange(() => {
+			void this.refresh();
+		});
 	}
 
-	async onClose(): Promise<void> {
-		if (this.reactRoot) {
-			this.reactRoot.unmount();
-			this.reactRoot = null;
-		}
+	/**
+	 * Re-mount after the active profile changed
+	 */
+	async reload(): Promise<void> {
+		await this.onClose();
+		await this.mount();
 	}
 
 	/**
@@ -66,19 +106,60 @@ export class DictionaryView extends ItemView {
 	private renderComponent(): void {
 		if (!this.reactRoot) return;
 
+		const { settings } = this.plugin;
+		const filters = { ...this.viewState.filters };
+		if (!settings.enableStudyMode) filters.study = "no";
+
 		this.reactRoot.render(
 			<DictionaryComponent
+				key={this.stateKey}
 				entries={this.entries}
 				showRefresh={true}
-				showStudyMode={true}
+				showStudyMode={settings.enableStudyMode}
 				showPagination={true}
-				pageSize={100}
+				showQuery={true}
+				pageSize={this.viewState.pageSize ?? settings.defaultPageSize}
+				initialPageStart={this.viewState.pageStart}
+				initialFilters={filters}
+				initialPreset={this.viewState.preset}
+				tableLayout={this.getTableLayout()}
 				onRefresh={() => this.refresh()}
+				onTableLayoutChange={(layout) => this.saveTableLayout(layout)}
+				onViewStateChange={(state) => this.saveViewState(state)}
 				onAskAIForTerm={() => this.plugin.askAIModal.open()}
+				onStartReview={(filters, preset) => this.plugin.openReviewSession({ filters, preset })}
 			/>
 		);
 	}
 
+	/**
+	 * Shared columns, with the sort of this pane when it has one
+	 */
+	private getTableLayout(): TableLayout | undefined {
+		const layout = this.plugin.settings.tableLayouts[VIEW_TYPE_DICTIONARY];
+		const { sort } = this.viewState;
+		if (sort === undefined) return layout;
+
+		const { sort: _shared, ...columns } = layout ?? getDefaultTableLayout();
+		return sort ? { ...columns, sort } : columns;
+	}
+
+	/**
+	 * Remember the columns and sort for the next time the view opens
+	 */
+	private saveTableLayout(layout: TableLayout): void {
+		this.plugin.settings.tableLayouts[VIEW_TYPE_DICTIONARY] = layout;
+		void this.plugin.saveSettings();
+	}
+
+	/**
+	 * Keep the pane state and let the workspace save it
+	 */
+	private saveViewState(state: TableViewState): void {
+		this.viewState = state;
+		this.app.workspace.requestSaveLayout();
+	}
+
 	/**
 	 * Load dictionary data
 	 */
@@ -90,29 +171,23 @@ export class DictionaryView extends ItemView {
 	 * Refresh the view
 	 */
 	async refresh(): Promise<void> {
-		this.plugin.dictionaryService.invalidateCache();
 		await this.loadData();
 		this.renderComponent();
 	}
 
 	/**
 	 * Set filters externally (for command integration)
-	 * Note: With React, we need to re-render with new initial filters
+	 * Remounts the component with the new filters, starting on the first page
 	 */
 	setFilters(filters: Partial<FilterState>): void {
-		if (!this.reactRoot) return;
-
-		this.reactRoot.render(
-			<DictionaryComponent
-				entries={this.entries}
-				showRefresh={true}
-				showStudyMode={true}
-				showPagination={true}
-				pageSize={100}
-				initialFilters={filters}
-				onRefresh={() => this.refresh()}
-				onAskAIForTerm={() => this.plugin.askAIModal.open()}
-			/>
-		);
+		this.viewState = {
+			...this.viewState,
+			filters: { ...this.viewState.filters, ...filters },
+			pageStart: 0,
+			preset: undefined
+		};
+		this.stateKey++;
+		this.renderComponent();
+		this.app.workspace.requestSaveLayout();
 	}
 }
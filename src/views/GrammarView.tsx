@@ -0,0 +1,134 @@
+import React from "react";
+import { ItemView, WorkspaceLeaf, TFile, debounce } from "obsidian";
+import { VIEW_TYPE_GRAMMAR, GrammarPage } from "../types";
+import type LearnLanguagePlugin from "../main";
+import { GrammarComponent } from "../components/grammar";
+import { createReactRoot, ReactMountPoint } from "../utils";
+
+/**
+ * GrammarView - Custom view for browsing grammar pages and the entries linking to them
+ * Uses React GrammarComponent for the UI
+ */
+export class GrammarView extends ItemView {
+	plugin: LearnLanguagePlugin;
+	private reactRoot: ReactMountPoint | null = null;
+	private unsubscribeIndex: (() => void) | null = null;
+	private pages: GrammarPage[] = [];
+
+	// Grammar pages live outside the dictionary index, so their edits arrive as plain metadata changes
+	private scheduleRefresh = debounce(() => void this.refresh(), 500, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: LearnLanguagePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_GRAMMAR;
+	}
+
+	getDisplayText(): string {
+		return "Grammar";
+	}
+
+	getIcon(): string {
+		return "graduation-cap";
+	}
+
+	async onOpen(): Promise<void> {
+		await this.mount();
+
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file: TFile) => {
+				if (this.isShown(file) || this.plugin.dictionaryService.isGrammarPage(file)) {
+					this.scheduleRefresh();
+				}
+			})
+		);
+	}
+
+	async onClose(): Promise<void> {
+		this.scheduleRefresh.cancel();
+		this.unsubscribeIndex?.();
+		this.unsubscribeIndex = null;
+		if (this.reactRoot) {
+			this.reactRoot.unmount();
+			this.reactRoot = null;
+		}
+	}
+
+	/**
+	 * Mount the React UI against the active profile's services
+	 */
+	private async mount(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("learn-language-view", "grammar-view");
+
+		// Load data
+		await this.loadData();
+
+		// Create React root
+		this.reactRoot = createReactRoot(
+			container,
+			this.app,
+			this.plugin.profileSettings,
+			this.plugin.filterService,
+			this.plugin.dictionaryService,
+			this.plugin.termService
+		);
+
+		// Render React component
+		this.renderComponent();
+
+		// Dictionary changes may add or remove links to grammar pages
+		this.unsubscribeIndex = this.plugin.dictionaryService.onIndexChange(() => {
+			this.scheduleRefresh();
+		});
+	}
+
+	/**
+	 * Re-mount after the active profile changed
+	 */
+	async reload(): Promise<void> {
+		await this.onClose();
+		await this.mount();
+	}
+
+	private isShown(file: TFile): boolean {
+		return this.pages.some(page => page.file.path === file.path);
+	}
+
+	/**
+	 * Render the React component
+	 */
+	private renderComponent(): void {
+		if (!this.reactRoot) return;
+
+		this.reactRoot.render(
+			<GrammarComponent
+				pages={this.pages}
+				showRefresh={true}
+				showStudyMode={true}
+				showPagination={true}
+				pageSize={25}
+				onRefresh={() => this.refresh()}
+			/>
+		);
+	}
+
+	/**
+	 * Load grammar pages
+	 */
+	private async loadData(): Promise<void> {
+		this.pages = await this.plugin.dictionaryService.getGrammarPages();
+	}
+
+	/**
+	 * Refresh the view
+	 */
+	async refresh(): Promise<void> {
+		await this.loadData();
+		this.renderComponent();
+	}
+}
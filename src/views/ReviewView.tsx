@@ -0,0 +1,158 @@
+import React from "react";
+import { ItemView, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import { VIEW_TYPE_REVIEW, DictionaryEntry, ReviewSessionOptions } from "../types";
+import type LearnLanguagePlugin from "../main";
+import type { ProfileServices } from "../services";
+import { ReviewComponent } from "../components/review";
+import { createReactRoot, ReactMountPoint, normalizeReviewSessionOptions } from "../utils";
+
+/**
+ * ReviewView - Flashcard review session in a tab of its own
+ * Uses React ReviewComponent for the UI; the cards it starts from are kept in the workspace layout
+ */
+export class ReviewView extends ItemView {
+	plugin: LearnLanguagePlugin;
+	private reactRoot: ReactMountPoint | null = null;
+	private unsubscribeIndex: (() => void) | null = null;
+	private entries: DictionaryEntry[] = [];
+	private options: ReviewSessionOptions = {};
+	// Options the view was opened with; the setup screen starts from them until the next setState
+	private initialOptions: ReviewSessionOptions = {};
+	// Bumped to start over with new options
+	private stateKey = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: LearnLanguagePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_REVIEW;
+	}
+
+	getDisplayText(): string {
+		return "Review";
+	}
+
+	getIcon(): string {
+		return "layers";
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), ...this.options };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const options = normalizeReviewSessionOptions(state);
+		const profileChanged = options.profile !== this.options.profile;
+		this.options = options;
+		this.initialOptions = options;
+		this.stateKey++;
+		if (profileChanged && this.reactRoot) {
+			await this.reload();
+		} else {
+			this.renderComponent();
+		}
+		await super.setState(state, result);
+	}
+
+	async onOpen(): Promise<void> {
+		await this.mount();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribeIndex?.();
+		this.unsubscribeIndex = null;
+		if (this.reactRoot) {
+			this.reactRoot.unmount();
+			this.reactRoot = null;
+		}
+	}
+
+	/**
+	 * Services of the session's profile, or of the active one
+	 */
+	private getServices(): ProfileServices {
+		return this.plugin.getProfileServices(this.options.profile) ?? this.plugin.getProfileServices()!;
+	}
+
+	/**
+	 * Mount the React UI against the session's profile
+	 */
+	private async mount(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("learn-language-view", "review-view");
+
+		const services = this.getServices();
+
+		// Load data
+		await this.loadData();
+
+		// Create React root
+		this.reactRoot = createReactRoot(
+			container,
+			this.app,
+			services.settings,
+			services.filterService,
+			services.dictionaryService,
+			services.termService,
+			services.presetService,
+			services.schedulerService
+		);
+
+		// Render React component
+		this.renderComponent();
+
+		// Keep the counts of the setup screen current; a running session keeps its cards
+		this.unsubscribeIndex = services.dictionaryService.onIndexChange(() => {
+			void this.refresh();
+		});
+	}
+
+	/**
+	 * Re-mount after the active profile changed
+	 */
+	async reload(): Promise<void> {
+		await this.onClose();
+		await this.mount();
+	}
+
+	/**
+	 * Render the React component
+	 */
+	private renderComponent(): void {
+		if (!this.reactRoot) return;
+
+		this.reactRoot.render(
+			<ReviewComponent
+				key={this.stateKey}
+				entries={this.entries}
+				filters={this.initialOptions.filters}
+				preset={this.initialOptions.preset}
+				direction={this.initialOptions.direction}
+				mode={this.initialOptions.mode}
+				answer={this.initialOptions.answer}
+				onOptionsChange={(options) => {
+					this.options = { ...options, profile: this.options.profile };
+					this.app.workspace.requestSaveLayout();
+				}}
+			/>
+		);
+	}
+
+	/**
+	 * Load dictionary data
+	 */
+	private async loadData(): Promise<void> {
+		this.entries = await this.getServices().dictionaryService.getDictionary();
+	}
+
+	/**
+	 * Refresh the view
+	 */
+	async refresh(): Promise<void> {
+		await this.loadData();
+		this.renderComponent();
+	}
+}
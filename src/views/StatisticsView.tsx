@@ -0,0 +1,118 @@
+import React from "react";
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import { VIEW_TYPE_STATISTICS, DictionaryEntry, ReviewLogEntry } from "../types";
+import type LearnLanguagePlugin from "../main";
+import { StatisticsComponent } from "../components/statistics";
+import { createReactRoot, ReactMountPoint } from "../utils";
+
+/**
+ * StatisticsView - Learning statistics of the active profile, from its review log
+ * Uses React StatisticsComponent for the UI
+ */
+export class StatisticsView extends ItemView {
+	plugin: LearnLanguagePlugin;
+	private reactRoot: ReactMountPoint | null = null;
+	private unsubscribers: Array<() => void> = [];
+	private entries: DictionaryEntry[] = [];
+	private log: ReviewLogEntry[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: LearnLanguagePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_STATISTICS;
+	}
+
+	getDisplayText(): string {
+		return "Statistics";
+	}
+
+	getIcon(): string {
+		return "bar-chart-2";
+	}
+
+	async onOpen(): Promise<void> {
+		await this.mount();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers = [];
+		if (this.reactRoot) {
+			this.reactRoot.unmount();
+			this.reactRoot = null;
+		}
+	}
+
+	/**
+	 * Mount the React UI against the active profile's services
+	 */
+	private async mount(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("learn-language-view", "statistics-view");
+
+		// Load data
+		await this.loadData();
+
+		// Create React root
+		this.reactRoot = createReactRoot(
+			container,
+			this.app,
+			this.plugin.profileSettings,
+			this.plugin.filterService,
+			this.plugin.dictionaryService
+		);
+
+		// Render React component
+		this.renderComponent();
+
+		// New reviews change the log and the due dates of the reviewed entries
+		this.unsubscribers = [
+			this.plugin.dictionaryService.onIndexChange(() => void this.refresh()),
+			this.plugin.reviewLogService.onChange(() => void this.refresh())
+		];
+	}
+
+	/**
+	 * Re-mount after the active profile changed
+	 */
+	async reload(): Promise<void> {
+		await this.onClose();
+		await this.mount();
+	}
+
+	/**
+	 * Render the React component
+	 */
+	private renderComponent(): void {
+		if (!this.reactRoot) return;
+
+		this.reactRoot.render(
+			<StatisticsComponent
+				log={this.log}
+				entries={this.entries}
+				showRefresh={true}
+				onRefresh={() => this.refresh()}
+			/>
+		);
+	}
+
+	/**
+	 * Load the review log and the dictionary
+	 */
+	private async loadData(): Promise<void> {
+		this.log = await this.plugin.reviewLogService.getEntries();
+		this.entries = await this.plugin.dictionaryService.getDictionary();
+	}
+
+	/**
+	 * Refresh the view
+	 */
+	async refresh(): Promise<void> {
+		await this.loadData();
+		this.renderComponent();
+	}
+}
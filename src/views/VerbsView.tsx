@@ -1,18 +1,21 @@
 import React from "react";
-import { ItemView, WorkspaceLeaf } from "obsidian";
-import { VIEW_TYPE_VERBS, VerbEntry } from "../types";
+import { ItemView, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import { VIEW_TYPE_VERBS, VerbEntry, TableViewState } from "../types";
 import type LearnLanguagePlugin from "../main";
-import { VerbsComponent } from "../components/verbs";
-import { createReactRoot, ReactMountPoint } from "../utils";
+import { VerbsComponent, VerbFilterState } from "../components/verbs";
+import { createReactRoot, ReactMountPoint, normalizeTableViewState } from "../utils";
 
 /**
  * VerbsView - Custom view for displaying and filtering verb conjugations
- * Uses React VerbsComponent for the UI
+ * Uses React VerbsComponent for the UI; filters and page are saved with the pane
  */
 export class VerbsView extends ItemView {
 	plugin: LearnLanguagePlugin;
 	private reactRoot: ReactMountPoint | null = null;
+	private unsubscribeIndex: (() => void) | null = null;
 	private entries: VerbEntry[] = [];
+	private viewState: TableViewState<VerbFilterState> = {};
+	private stateKey = 0;
 
 	constructor(leaf: WorkspaceLeaf, plugin: LearnLanguagePlugin) {
 		super(leaf);
@@ -31,7 +34,34 @@ export class VerbsView extends ItemView {
 		return "languages";
 	}
 
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), ...this.viewState };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		this.viewState = normalizeTableViewState<VerbFilterState>(state);
+		this.stateKey++;
+		this.renderComponent();
+		await super.setState(state, result);
+	}
+
 	async onOpen(): Promise<void> {
+		await this.mount();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribeIndex?.();
+		this.unsubscribeIndex = null;
+		if (this.reactRoot) {
+			this.reactRoot.unmount();
+			this.reactRoot = null;
+		}
+	}
+
+	/**
+	 * Mount the React UI against the active profile's services
+	 */
+	private async mount(): Promise<void> {
 		const container = this.containerEl.children[1] as HTMLElement;
 		container.empty();
 		container.addClass("learn-language-view", "verbs-view");
@@ -43,7 +73,7 @@ export class VerbsView extends ItemView {
 		this.reactRoot = createReactRoot(
 			container,
 			this.app,
-			this.plugin.settings,
+			this.plugin.profileSettings,
 			this.plugin.filterService,
 			this.plugin.dictionaryService,
 			this.plugin.termService
@@ -51,13 +81,19 @@ export class VerbsView extends ItemView {
 
 		// Render React component
 		this.renderComponent();
+
+		// Re-render when individual entries change; unchanged rows keep their identity
+		this.unsubscribeIndex = this.plugin.dictionaryService.onIndexChange(() => {
+			void this.refresh();
+		});
 	}
 
-	async onClose(): Promise<void> {
-		if (this.reactRoot) {
-			this.reactRoot.unmount();
-			this.reactRoot = null;
-		}
+	/**
+	 * Re-mount after the active profile changed
+	 */
+	async reload(): Promise<void> {
+		await this.onClose();
+		await this.mount();
 	}
 
 	/**
@@ -66,18 +102,34 @@ export class VerbsView extends ItemView {
 	private renderComponent(): void {
 		if (!this.reactRoot) return;
 
+		const { settings } = this.plugin;
+		const filters = { ...this.viewState.filters };
+		if (!settings.enableStudyMode) filters.study = "no";
+
 		this.reactRoot.render(
 			<VerbsComponent
+				key={this.stateKey}
 				entries={this.entries}
 				showRefresh={true}
-				showStudyMode={true}
+				showStudyMode={settings.enableStudyMode}
 				showPagination={true}
-				pageSize={25}
+				pageSize={this.viewState.pageSize ?? settings.defaultPageSize}
+				initialPageStart={this.viewState.pageStart}
+				initialFilters={filters}
 				onRefresh={() => this.refresh()}
+				onViewStateChange={(state) => this.saveViewState(state)}
 			/>
 		);
 	}
 
+	/**
+	 * Keep the pane state and let the workspace save it
+	 */
+	private saveViewState(state: TableViewState<VerbFilterState>): void {
+		this.viewState = state;
+		this.app.workspace.requestSaveLayout();
+	}
+
 	/**
 	 * Load verbs data
 	 */
@@ -89,7 +141,6 @@ export class VerbsView extends ItemView {
 	 * Refresh the view
 	 */
 	async refresh(): Promise<void> {
-		this.plugin.dictionaryService.invalidateCache();
 		await this.loadData();
 		this.renderComponent();
 	}
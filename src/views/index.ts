@@ -1,3 +1,6 @@
 // React-based views
 export { DictionaryView } from "./DictionaryView";
 export { VerbsView } from "./VerbsView";
+export { GrammarView } from "./GrammarView";
+export { ReviewView } from "./ReviewView";
+export { StatisticsView } from "./StatisticsView";